@@ -1,9 +1,15 @@
+import { createHash } from "crypto";
 import { AgentBuilder } from "@iqai/adk";
 import { openai } from "@ai-sdk/openai";
 import { google } from "@ai-sdk/google";
 import { config } from "../config.js";
-import { QueryValidationResult, SynonymResponse } from "../types/index.js";
-import { PerformanceTimer, getCurrentDateFormatted } from "../utils/index.js";
+import { AnalysisReport, QueryValidationResult, SynonymResponse } from "../types/index.js";
+import { PerformanceTimer, getCurrentDateFormatted, recordable } from "../utils/index.js";
+import {
+  ANALYSIS_REPORT_FORMAT,
+  parseAnalysisReport,
+  validateAnalysisReport
+} from "../services/analysis-report.js";
 
 /**
  * Validates and sanitizes user queries for crypto relevance
@@ -28,7 +34,7 @@ If the query is NOT crypto-related, return exactly: "Sorry, please ask about cry
       .withInstruction(this.sanitizePrompt)
       .build();
     
-    const result = await agent.runner.ask(query);
+    const result = await recordable('llm', { agent: 'query_sanitizer_validator', model: config.openai.model, instruction: this.sanitizePrompt, prompt: query }, () => agent.runner.ask(query));
     const content = typeof result === 'string' ? result.trim() : JSON.stringify(result);
     
     const isValid = !/^sorry, please ask about crypto-related insights\.?$/i.test(content);
@@ -162,7 +168,8 @@ Sorry, please ask about crypto-related insights.
       .withInstruction(this.systemPrompt)
       .build();
 
-    const result = await openaiAgent.runner.ask(`Generate synonym search queries for: "${originalQuery}"`);
+    const request = `Generate synonym search queries for: "${originalQuery}"`;
+    const result = await recordable('llm', { agent: 'synonym_generator', model: config.openai.model, instruction: this.systemPrompt, prompt: request }, () => openaiAgent.runner.ask(request));
     const content = typeof result === 'string' ? result : JSON.stringify(result);
     
     console.log('🔍 Generated synonyms response:', content);
@@ -206,7 +213,7 @@ Your task is to provide comprehensive, actionable cryptocurrency analysis based
 1. **Synthesize Information**: Combine insights from all provided sources
 2. **Technical Focus**: Include technical indicators, chart patterns, support/resistance levels when relevant
 3. **Market Context**: Consider broader market conditions and trends
-4. **Evidence-Based**: Reference specific sources and data points
+4. **Evidence-Based**: Reference specific sources and data points, citing them inline as [n] using the source numbers from the prompt
 5. **Actionable Insights**: Provide clear takeaways and potential implications
 6. **Balanced Perspective**: Present both bullish and bearish viewpoints when applicable
 
@@ -220,6 +227,47 @@ Provide a well-structured analysis that covers:
 
 Use clear markdown formatting and reference sources when making specific claims.`;
 
+  private readonly reportSystemPrompt = `You are an expert cryptocurrency analyst with deep knowledge of market trends, technical analysis, and fundamental factors affecting digital asset prices.
+
+Your task is to turn the provided market data and research sources into a structured analysis report.
+
+## Analysis Guidelines:
+1. **Synthesize Information**: Combine insights from all provided sources
+2. **Technical Focus**: Derive key levels and scenarios from the supplied market data
+3. **Evidence-Based**: Cite the numbered research sources for every claim and never cite a number that is not listed
+4. **Balanced Perspective**: Always provide both a bullish and a bearish scenario per asset
+
+${ANALYSIS_REPORT_FORMAT}`;
+
+  private readonly portfolioSystemPrompt = `You are an expert cryptocurrency portfolio analyst reviewing an investor's actual holdings.
+
+Your task is to assess the portfolio as a whole from the position, risk and market data provided.
+
+## Analysis Guidelines:
+1. **Aggregate View**: Judge allocation, diversification and concentration before individual coins
+2. **Risk Focus**: Explain which positions drive volatility and how much diversification the holdings actually provide
+3. **Evidence-Based**: Use only the figures supplied; never invent prices, cost bases or returns
+4. **Balanced Perspective**: Cover both upside and drawdown scenarios for the aggregate position
+5. **No Personal Advice**: Frame rebalancing as considerations, not instructions
+
+## Response Format:
+- **Portfolio Summary**: Value, P&L and overall risk in a few sentences
+- **Allocation & Concentration**: Weights, dominant positions and diversification
+- **Risk Assessment**: Volatility, risk contributions and correlated exposure
+- **Position Notes**: Short technical and market context for the largest holdings
+- **Scenarios**: What a broad rally or sell-off would mean for the portfolio
+- **Considerations**: Rebalancing and risk-management points
+
+Use clear markdown formatting.`;
+
+  /**
+   * Label the predictions of a run are scored under; changes whenever the model or the report instructions change
+   */
+  get promptVersion(): string {
+    if (config.predictions.promptVersion) return config.predictions.promptVersion;
+    return `${config.google.model}-${createHash('sha256').update(this.reportSystemPrompt).digest('hex').substring(0, 8)}`;
+  }
+
   async generateFinalAnalysis(analysisPrompt: string): Promise<string> {
     const timer = new PerformanceTimer('Final Analysis Generation');
     
@@ -230,11 +278,78 @@ Use clear markdown formatting and reference sources when making specific claims.
       .withInstruction(this.analysisSystemPrompt)
       .build();
 
-    const result = await geminiAgent.runner.ask(analysisPrompt);
+    const result = await recordable('llm', { agent: 'crypto_analyst', model: config.google.model, instruction: this.analysisSystemPrompt, prompt: analysisPrompt }, () => geminiAgent.runner.ask(analysisPrompt));
     const finalResult = typeof result === 'string' ? result : JSON.stringify(result);
     
     timer.end();
     
     return finalResult;
   }
+
+  async generatePortfolioAnalysis(portfolioPrompt: string): Promise<string> {
+    const timer = new PerformanceTimer('Portfolio Analysis Generation');
+
+    const geminiAgent = await AgentBuilder
+      .create("crypto_portfolio_analyst")
+      .withModel(google(config.google.model))
+      .withDescription("Expert cryptocurrency portfolio analyst")
+      .withInstruction(this.portfolioSystemPrompt)
+      .build();
+
+    const result = await recordable('llm', { agent: 'crypto_portfolio_analyst', model: config.google.model, instruction: this.portfolioSystemPrompt, prompt: portfolioPrompt }, () => geminiAgent.runner.ask(portfolioPrompt));
+    const finalResult = typeof result === 'string' ? result : JSON.stringify(result);
+
+    timer.end();
+
+    return finalResult;
+  }
+
+  /**
+   * Generates a schema-validated AnalysisReport, re-asking the model with the validation errors until it complies
+   */
+  async generateReport(
+    analysisPrompt: string,
+    expectedAssetIds: string[] = [],
+    maxAttempts: number = config.analysis.maxReportAttempts
+  ): Promise<{ report: AnalysisReport; attempts: number }> {
+    const timer = new PerformanceTimer('Structured Report Generation');
+
+    const geminiAgent = await AgentBuilder
+      .create("crypto_report_analyst")
+      .withModel(google(config.google.model))
+      .withDescription("Expert cryptocurrency analyst producing structured JSON reports")
+      .withInstruction(this.reportSystemPrompt)
+      .build();
+
+    let request = analysisPrompt;
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const result = await recordable('llm', { agent: 'crypto_report_analyst', model: config.google.model, instruction: this.reportSystemPrompt, prompt: request }, () => geminiAgent.runner.ask(request));
+      const response = typeof result === 'string' ? result : JSON.stringify(result);
+
+      const parsed = parseAnalysisReport(response);
+      errors = parsed.report ? validateAnalysisReport(parsed.report, expectedAssetIds) : parsed.errors;
+
+      if (errors.length === 0 && parsed.report) {
+        timer.end();
+        return { report: parsed.report, attempts: attempt };
+      }
+
+      console.warn(`⚠️ Report attempt ${attempt}/${maxAttempts} failed validation (${errors.length} errors)`);
+      request = `${analysisPrompt}
+
+## PREVIOUS RESPONSE
+${response}
+
+## VALIDATION ERRORS
+Your previous response did not match the required JSON schema:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected JSON object only.`;
+    }
+
+    timer.end();
+    throw new Error(`Analysis report failed schema validation after ${maxAttempts} attempts: ${errors.join('; ')}`);
+  }
 }
@@ -0,0 +1,65 @@
+import "dotenv/config";
+import { config } from './config.js';
+import { AnalysisPipeline } from './pipeline.js';
+import { MarketDataService } from './services/market-data.js';
+import { AlertEngine, loadAlerts } from './services/alerts.js';
+
+function printUsage(): void {
+  console.log('🔔 Alert commands:');
+  console.log('   npm run alerts                    # start the polling loop (runs until stopped)');
+  console.log('   npm run alerts -- check           # evaluate rules once without delivering');
+  console.log('   npm run alerts -- test <webhook>  # send a test notification');
+  console.log(`\nRules and webhooks are read from ${config.alerts.file} (ALERTS_FILE).`);
+}
+
+async function main() {
+  const [command = 'start', argument] = process.argv.slice(2);
+  if (!['start', 'check', 'test'].includes(command)) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  const definition = await loadAlerts();
+  const marketDataService = new MarketDataService();
+  const needsPipeline = command === 'start' && definition.rules.some(rule => rule.analyze && rule.enabled !== false);
+  const pipeline = needsPipeline ? new AnalysisPipeline({ marketDataService }) : null;
+  const engine = new AlertEngine(definition, marketDataService, pipeline);
+
+  if (command === 'test') {
+    const webhook = definition.webhooks.find(item => item.id === argument);
+    if (!webhook) {
+      console.error(`❌ Unknown webhook "${argument ?? ''}". Available: ${definition.webhooks.map(item => item.id).join(', ')}`);
+      process.exitCode = 1;
+      return;
+    }
+    const text = '🔔 Test notification from the crypto alert engine';
+    await engine.sendWebhook(webhook, webhook.format === 'slack' ? { text } : { event: 'test', message: text });
+    console.log(`✅ Test notification delivered to ${webhook.id}`);
+    return;
+  }
+
+  await engine.init();
+
+  if (command === 'check') {
+    const triggered = await engine.poll({ dryRun: true });
+    console.log(`\n🔔 ${triggered.length} alerts would fire (dry run; rules seen for the first time only record a baseline)`);
+    return;
+  }
+
+  engine.start();
+
+  const shutdown = async () => {
+    console.log('🛑 Stopping alert engine...');
+    engine.stop();
+    await pipeline?.cleanup();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
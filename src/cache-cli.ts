@@ -0,0 +1,112 @@
+import "dotenv/config";
+import { PageCache, normalizeUrl } from './services/page-cache.js';
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h`;
+  return `${Math.round(minutes / (24 * 60))}d`;
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function printUsage(): void {
+  console.log('📦 Page cache commands:');
+  console.log('   npm run cache -- stats');
+  console.log('   npm run cache -- list [--limit 20] [--domain coindesk.com]');
+  console.log('   npm run cache -- show <url>');
+  console.log('   npm run cache -- purge --all | --expired | --domain <domain> | --url <url>');
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const cache = new PageCache();
+
+  switch (command) {
+    case 'stats': {
+      const stats = await cache.stats();
+      console.log(`📦 Page cache: ${stats.directory}`);
+      console.log(`   Entries: ${stats.entries} (${stats.expired} past TTL)`);
+      console.log(`   Size: ${formatBytes(stats.totalBytes)} of ${formatBytes(stats.maxBytes)}`);
+      console.log(`   TTL: ${formatAge(stats.ttlMs)}`);
+      if (stats.newest) console.log(`   Newest: ${stats.newest}`);
+      if (stats.oldest) console.log(`   Oldest: ${stats.oldest}`);
+      break;
+    }
+
+    case 'list': {
+      const limit = parseInt(getFlag(args, 'limit') || '20', 10);
+      const domain = getFlag(args, 'domain')?.toLowerCase().replace(/^www\./, '');
+      const entries = (await cache.list()).filter(({ entry }) => {
+        if (!domain) return true;
+        const host = new URL(entry.normalizedUrl).hostname;
+        return host === domain || host.endsWith(`.${domain}`);
+      });
+
+      for (const { entry, size, ageMs, fresh } of entries.slice(0, limit)) {
+        const validators = [entry.etag ? 'etag' : '', entry.lastModified ? 'last-modified' : ''].filter(Boolean).join(', ') || 'none';
+        console.log(`${fresh ? '✅' : '⌛'} ${entry.normalizedUrl}`);
+        console.log(`   ${entry.title.substring(0, 80)} | ${formatBytes(size)} | age ${formatAge(ageMs)} | ${entry.method} | validators: ${validators}`);
+      }
+      console.log(`\n${Math.min(limit, entries.length)} of ${entries.length} entries shown`);
+      break;
+    }
+
+    case 'show': {
+      const url = args[0];
+      if (!url) {
+        printUsage();
+        process.exitCode = 1;
+        return;
+      }
+      const cached = await cache.get(url);
+      if (!cached) {
+        console.log(`❌ Not cached: ${normalizeUrl(url)}`);
+        process.exitCode = 1;
+        return;
+      }
+      const { content, ...metadata } = cached.entry;
+      console.log(JSON.stringify({ ...metadata, fresh: cached.fresh, contentLength: content.length }, null, 2));
+      console.log(`\n${content.substring(0, 500)}${content.length > 500 ? '...' : ''}`);
+      break;
+    }
+
+    case 'purge': {
+      const url = getFlag(args, 'url');
+      if (url) {
+        const removed = await cache.remove(url);
+        console.log(removed ? `🗑️ Removed ${normalizeUrl(url)}` : `❌ Not cached: ${normalizeUrl(url)}`);
+        return;
+      }
+
+      const expired = args.includes('--expired');
+      const domain = getFlag(args, 'domain');
+      if (!expired && !domain && !args.includes('--all')) {
+        printUsage();
+        process.exitCode = 1;
+        return;
+      }
+      const removed = await cache.purge({ expired, domain });
+      console.log(`🗑️ Removed ${removed} cached pages`);
+      break;
+    }
+
+    default:
+      printUsage();
+      if (command) process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -18,8 +18,8 @@ export const config = {
   tavily: {
     apiKey: process.env.TAVILY_API_KEY || ""
   },
-  query: {
-    userQuery: process.env.USER_QUERY || process.argv[2] || ""
+  twitter: {
+    bearerToken: process.env.TWITTER_BEARER_TOKEN || ""
   },
   search: {
     exaResultsPerQuery: 3,
@@ -40,6 +40,12 @@ export const config = {
     delayBetweenRequests: 2000,
     enableStealth: true
   },
+  pageCache: {
+    enabled: process.env.PAGE_CACHE !== 'off',
+    dir: process.env.PAGE_CACHE_DIR || 'data/cache/pages',
+    ttlMs: parseInt(process.env.PAGE_CACHE_TTL_MS || String(6 * 60 * 60 * 1000), 10),
+    maxBytes: parseInt(process.env.PAGE_CACHE_MAX_MB || '200', 10) * 1024 * 1024
+  },
   memory: {
     cacheTimeout: 30 * 60 * 1000,
     maxCacheSize: 1000
@@ -47,7 +53,149 @@ export const config = {
   marketData: {
     minMarketCap: 1_000_000,
     minVolume: 10_000,
-    cacheTimeout: 30 * 60 * 1000
+    cacheTimeout: 30 * 60 * 1000,
+    maxRetries: 4,
+    providers: (process.env.MARKET_DATA_PROVIDERS || 'coingecko,coinpaprika').split(',').map(name => name.trim()).filter(Boolean),
+    fixturePath: process.env.MARKET_DATA_FIXTURE || 'fixtures/market-data.json',
+    knowledgeBaseCacheFile: 'data/cache/knowledge_base_filtered.json',
+    contractsCacheFile: 'data/cache/contracts.json',
+    contractsCacheTimeout: 24 * 60 * 60 * 1000
+  },
+  tokenMatching: {
+    // Best candidate is picked without asking when it leads the runner-up by this share of its score
+    autoPickMargin: parseFloat(process.env.TOKEN_AUTO_PICK_MARGIN || '0.4'),
+    maxCandidates: 8,
+    aliasesFile: process.env.TOKEN_ALIASES_FILE || 'token-aliases.json',
+    // Shorter words are too likely to be one typo away from an unrelated name
+    fuzzyMinLength: 4,
+    maxPhraseWords: 4
+  },
+  technicalAnalysis: {
+    historyDays: 90
+  },
+  correlation: {
+    benchmarks: [
+      { id: 'bitcoin', symbol: 'btc', name: 'Bitcoin' },
+      { id: 'ethereum', symbol: 'eth', name: 'Ethereum' }
+    ],
+    windows: [7, 30, 90],
+    rollingWindowDays: 30,
+    matrixWindowDays: 30,
+    // Enough daily candles for the longest window plus a rolling window in front of it
+    historyDays: 120
+  },
+  analysis: {
+    maxReportAttempts: 3
+  },
+  social: {
+    source: process.env.SOCIAL_SOURCE || (process.env.TWITTER_BEARER_TOKEN ? 'twitter' : 'off'),
+    fixturePath: process.env.SOCIAL_FIXTURE || 'fixtures/social-posts.json',
+    lookbackHours: 48,
+    bucketHours: 6,
+    maxPostsPerAsset: 100
+  },
+  onchain: {
+    rpcUrl: process.env.ONCHAIN_RPC_URL || "",
+    platform: process.env.ONCHAIN_PLATFORM || 'ethereum',
+    // Comma-separated id=address pairs that take precedence over provider lookups, e.g. for tokens on a local dev chain
+    tokenOverrides: process.env.ONCHAIN_TOKENS || "",
+    blockRange: parseInt(process.env.ONCHAIN_BLOCK_RANGE || '5000', 10),
+    maxBlocksPerQuery: 2000,
+    largeTransferUsd: 1_000_000,
+    maxLargeTransfers: 10,
+    requestTimeout: 20000
+  },
+  holders: {
+    enabled: process.env.HOLDER_ANALYSIS === 'on',
+    // Balances are replayed from Transfer logs starting here; use the token's deployment block on real networks
+    fromBlock: parseInt(process.env.HOLDERS_FROM_BLOCK || '0', 10),
+    // Comma-separated holder addresses read with balanceOf instead of replaying the transfer history
+    addresses: process.env.HOLDERS_ADDRESSES || "",
+    compareBlocks: parseInt(process.env.HOLDERS_COMPARE_BLOCKS || '50400', 10),
+    labelsFile: process.env.ADDRESS_LABELS_FILE || 'address-labels.json',
+    topCounts: [10, 50, 100],
+    thresholdShares: [0.001, 0.01, 0.05],
+    listTop: 10
+  },
+  dex: {
+    enabled: process.env.DEX_ANALYSIS !== 'off',
+    // Defaults are the Uniswap factories on Ethereum mainnet; set "" to skip a pool type
+    v2Factory: process.env.DEX_V2_FACTORY ?? '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+    v3Factory: process.env.DEX_V3_FACTORY ?? '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    v2FeePpm: 3000,
+    v3FeeTiers: [100, 500, 3000, 10000],
+    // SYMBOL=address:decimals:coingeckoId entries paired against the analyzed token
+    quoteTokens: process.env.DEX_QUOTE_TOKENS
+      || 'WETH=0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2:18:ethereum,USDC=0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48:6:usd-coin,USDT=0xdAC17F958D2ee523a2206206994597C13D831ec7:6:tether',
+    tradeSizesUsd: [10_000, 100_000, 1_000_000],
+    // Tick bitmap words read on each side of the current tick (256 tick spacings per word)
+    tickWords: 4,
+    maxPools: 5
+  },
+  vector: {
+    qdrantUrl: process.env.QDRANT_URL || "",
+    qdrantApiKey: process.env.QDRANT_API_KEY || "",
+    collection: process.env.QDRANT_COLLECTION || "scraped_chunks",
+    embeddingModel: "text-embedding-3-small",
+    embeddingDimensions: 1536,
+    hashingDimensions: 512,
+    chunkSize: 800,
+    chunkOverlap: 150,
+    topK: 4,
+    maxChunksPerSource: 3
+  },
+  cassette: {
+    mode: process.env.CASSETTE_MODE || 'off',
+    dir: process.env.CASSETTE_DIR || 'cassettes',
+    runId: process.env.CASSETTE_RUN_ID || ''
+  },
+  watchlists: {
+    file: process.env.WATCHLISTS_FILE || 'watchlists.json',
+    dir: process.env.WATCHLISTS_DIR || 'data/watchlists',
+    pollIntervalMs: 30 * 1000
+  },
+  sessions: {
+    dir: process.env.SESSIONS_DIR || 'data/sessions',
+    // Sources kept per session and offered to follow-up prompts, newest first
+    maxSources: 20,
+    marketDataMaxAgeMs: 5 * 60 * 1000,
+    promptTurns: 3,
+    answerChars: 1500
+  },
+  portfolio: {
+    file: process.env.PORTFOLIO_FILE || 'portfolio.csv',
+    // Daily candles used for volatility and correlation between holdings
+    historyDays: 90
+  },
+  reports: {
+    dir: process.env.REPORTS_DIR || 'data/reports',
+    // Comma-separated markdown, html and json; used when a run asks for an export without naming formats
+    formats: process.env.REPORT_FORMATS || 'markdown'
+  },
+  predictions: {
+    enabled: process.env.PREDICTION_TRACKING !== 'off',
+    file: process.env.PREDICTIONS_FILE || 'data/predictions/predictions.json',
+    // Label for the scoreboard; defaults to the analysis model plus a hash of the report system prompt
+    promptVersion: process.env.PROMPT_VERSION || '',
+    // Used when a scenario timeframe names no duration, e.g. "short term"
+    defaultHorizonDays: 30,
+    // A neutral outlook is right when the price ends the horizon within this many percent of where it started
+    neutralBandPercent: 5,
+    calibrationBuckets: 5
+  },
+  alerts: {
+    file: process.env.ALERTS_FILE || 'alerts.json',
+    stateFile: process.env.ALERTS_STATE_FILE || 'data/alerts/state.json',
+    pollIntervalMs: parseInt(process.env.ALERTS_POLL_INTERVAL_MS || '60000', 10),
+    defaultCooldownMinutes: 60,
+    webhookTimeout: 10000,
+    webhookRetries: 3
+  },
+  server: {
+    port: parseInt(process.env.PORT || '3000', 10),
+    host: process.env.HOST || '0.0.0.0',
+    maxBodyBytes: 64 * 1024,
+    runRetentionMs: 60 * 60 * 1000
   },
   performance: {
     enableTimers: true,
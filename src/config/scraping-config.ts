@@ -2,13 +2,39 @@ import { ScrapingConfig } from '../types/index.js';
 
 const defaultConfig: ScrapingConfig = {
   maxConcurrent: 6,
+  maxPerDomain: 2,
+  domainDelayMs: 1000,
+  timeBudgetMs: 45000,
   timeout: 10000,
   maxRetries: 3,
-  skipSlowMethods: true,
+  skipSlowMethods: false,
   skipProblematicDomains: ['mexc.com', 'bitget.com', 'gate.io'],
-  fastMethods: ['axios-stealth', 'axios-cheerio', 'axios-readability']
+  fastMethods: ['axios']
 };
 
+// Dual-engine runs return plenty of URLs, so pages that need a headless browser are not worth the wall-clock time
+const engineOverrides: Record<string, Partial<ScrapingConfig>> = {
+  dual: { maxConcurrent: 8, skipSlowMethods: true },
+  exa: {},
+  tavily: {}
+};
+
+function envNumber(name: string): number | undefined {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
 export const getScrapingConfig = (searchEngine: string): ScrapingConfig => {
-  return defaultConfig;
+  const scrapingConfig: ScrapingConfig = { ...defaultConfig, ...(engineOverrides[searchEngine] || {}) };
+
+  scrapingConfig.maxConcurrent = envNumber('SCRAPE_MAX_CONCURRENT') ?? scrapingConfig.maxConcurrent;
+  scrapingConfig.timeBudgetMs = envNumber('SCRAPE_TIME_BUDGET_MS') ?? scrapingConfig.timeBudgetMs;
+  if (process.env.SCRAPE_SKIP_DOMAINS) {
+    scrapingConfig.skipProblematicDomains = [
+      ...scrapingConfig.skipProblematicDomains,
+      ...process.env.SCRAPE_SKIP_DOMAINS.split(',').map(domain => domain.trim().toLowerCase()).filter(Boolean)
+    ];
+  }
+
+  return scrapingConfig;
 };
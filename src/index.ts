@@ -1,13 +1,17 @@
 import "dotenv/config";
-import { SearchService } from './services/search.js';
-import { WebScraper } from './services/scraper.js';
+import { parseArgs, ParseArgsConfig } from 'util';
+import { AnalysisPipeline, PipelineFailure, PipelineResult, resolveSearchEngine, SearchEngine } from './pipeline.js';
+import { AnalysisRepl, formatUsdCompact, promptForChoices } from './repl.js';
+import { formatPrice } from './services/analysis-report.js';
 import { MarketDataService } from './services/market-data.js';
-import { SynonymGeneratorService, SynonymResponse } from './services/synonym-generator.js';
-import { AnalysisGenerator } from './agents/index.js';
-
-function getCurrentDateFormatted(): string {
-  return new Date().toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' });
-}
+import { loadPortfolio, PortfolioAnalyzer, renderPortfolioSection } from './services/portfolio.js';
+import { PredictionTracker, renderScoreboard } from './services/predictions.js';
+import { parseReportFormats, ReportExporter } from './services/report-export.js';
+import { WebScraper } from './services/scraper.js';
+import { SearchService } from './services/search.js';
+import { recordSessionTurn, SessionStore } from './services/sessions.js';
+import { config } from './config.js';
+import { AnalysisSession, AugmentedCoinData, DetectedAsset, ReportFormat, TokenAmbiguity } from './types/index.js';
 
 class Timer {
   private startTime: number;
@@ -27,178 +31,650 @@ class Timer {
   }
 }
 
-const userQuery = process.env.USER_QUERY?.replace(/^"|"$/g, '') || process.argv[2] || "";
+/** 0 success, 1 runtime error, 2 bad usage, 3 the pipeline ran but could not produce a result (invalid query, no or ambiguous tokens) */
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_PIPELINE_FAILURE = 3;
+
+class UsageError extends Error {}
+
+type Flags = Record<string, string | boolean | Array<string | boolean> | undefined>;
+type OptionSpec = NonNullable<ParseArgsConfig['options']>;
 
-interface ScrapedContent {
-  url: string;
-  title: string;
-  content: string;
-  timestamp: Date;
-  publishedDate?: Date;
-  publishedDateString?: string;
+interface CommandContext {
+  positionals: string[];
+  flags: Flags;
+  /** Machine-readable output: progress logs go to stderr, the result is printed to stdout as JSON */
+  json: boolean;
 }
 
-function createAnalysisPrompt(scrapedContents: ScrapedContent[], synonymResponse: SynonymResponse, augmentedData: any): string {
-  const contentSummary = scrapedContents.map((content, index) => 
-    `${index + 1}. ${content.title}\nURL: ${content.url}\nContent: ${content.content.substring(0, 1000)}...`
-  ).join('\n\n');
+interface Command {
+  usage: string;
+  summary: string;
+  options: OptionSpec;
+  optionHelp: Array<[string, string]>;
+  run(context: CommandContext): Promise<number>;
+}
 
-  let prompt = `Based on the following information, provide a comprehensive crypto analysis:
+const SEARCH_ENGINES = ['exa', 'tavily', 'dual'];
 
-ORIGINAL QUERY: ${synonymResponse.originalQuery}
+const GLOBAL_OPTIONS: OptionSpec = {
+  help: { type: 'boolean', short: 'h' },
+  json: { type: 'boolean' }
+};
 
-SEARCH QUERIES USED:
-${synonymResponse.synonyms.map((query, index) => `${index + 1}. ${query}`).join('\n')}`;
+const GLOBAL_OPTION_HELP: Array<[string, string]> = [
+  ['--json', 'print the result as JSON on stdout (logs go to stderr)'],
+  ['-h, --help', 'show help']
+];
 
-  if (augmentedData && Object.keys(augmentedData).length > 0) {
-    prompt += `\n\n## LIVE MARKET DATA (CoinGecko API - ${getCurrentDateFormatted()}):\n`;
-    for (const id in augmentedData) {
-      const coin = augmentedData[id];
-      const marketCap = coin.market_cap ? `$${(coin.market_cap / 1000000).toFixed(2)}M` : 'N/A';
-      const volume24h = coin.total_volume ? `$${(coin.total_volume / 1000000).toFixed(2)}M` : 'N/A';
-      const priceChange = coin.price_change_24h ? `${coin.price_change_24h > 0 ? '+' : ''}${coin.price_change_24h.toFixed(2)}%` : 'N/A';
-      
-      prompt += `### ${coin.name} (${coin.symbol.toUpperCase()}) - ${coin.id}\n`;
-      prompt += `**Current Price:** $${coin.current_price}\n`;
-      prompt += `**Market Cap:** ${marketCap}\n`;
-      prompt += `**24h Volume:** ${volume24h}\n`;
-      prompt += `**24h Change:** ${priceChange}\n`;
-      prompt += `**24h Range:** $${coin.low_24h} - $${coin.high_24h}\n`;
-      prompt += `**All-Time High:** $${coin.ath || 'N/A'} (${coin.ath_date ? new Date(coin.ath_date).toLocaleDateString() : 'N/A'})\n`;
-      prompt += `**Circulating Supply:** ${coin.circulating_supply ? `${(coin.circulating_supply / 1000000).toFixed(2)}M ${coin.symbol.toUpperCase()}` : 'N/A'}\n`;
-      prompt += `**Market Cap Rank:** #${coin.market_cap_rank || 'N/A'}\n\n`;
+function stringFlag(flags: Flags, name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function engineFlag(flags: Flags): string | undefined {
+  const engine = stringFlag(flags, 'engine')?.toLowerCase();
+  if (engine && !SEARCH_ENGINES.includes(engine)) {
+    throw new UsageError(`--engine must be one of ${SEARCH_ENGINES.join(', ')}`);
+  }
+  return engine;
+}
+
+function currencyFlag(flags: Flags): string {
+  const currency = (stringFlag(flags, 'currency') || 'usd').toLowerCase();
+  if (!/^[a-z]{3,5}$/.test(currency)) {
+    throw new UsageError(`--currency expects a currency code such as usd, eur or btc, got "${currency}"`);
+  }
+  return currency;
+}
+
+function tokenChoicesFlag(flags: Flags): Record<string, string> {
+  const choices: Record<string, string> = {};
+  for (const value of (flags.pick as string[] | undefined) || []) {
+    const [token, id] = value.split('=');
+    if (!token || !id) {
+      throw new UsageError(`--pick "${value}" should be token=coin-id, e.g. --pick pear=pear-protocol`);
     }
+    choices[token] = id;
+  }
+  return choices;
+}
+
+function requireQuery(positionals: string[], command: string): string {
+  const query = positionals.join(' ').trim();
+  if (!query) {
+    throw new UsageError(`${command} needs a query`);
   }
+  return query;
+}
 
-  prompt += `\n## RESEARCH SOURCES & CONTENT:\n${contentSummary}\n\n## ANALYSIS REQUIREMENTS:\n- Provide specific price targets with confidence levels\n- Include risk-reward ratios\n- Mention key support/resistance levels with exact prices\n- Compare against Bitcoin and overall market trends\n- Include trading volume analysis\n- Assess liquidity and market depth\n- Provide both bullish and bearish scenarios\n- Include correlation analysis with major crypto assets\n- Mention any regulatory or fundamental catalysts\n- Provide actionable entry/exit strategies with stop-losses`;
-  return prompt;
+function printJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
 }
 
-async function generateFinalAnalysis(analysisPrompt: string): Promise<string> {
-  try {
-    const analysisGenerator = new AnalysisGenerator();
-    return await analysisGenerator.generateFinalAnalysis(analysisPrompt);
-  } catch (error) {
-    console.error('Failed to generate analysis:', error);
-    return 'Analysis generation failed.';
+/**
+ * Resolves the search engine the way the pipeline would and says so when the request had to be downgraded
+ */
+function chooseSearchEngine(requested: string | undefined): SearchEngine {
+  const searchEngine = resolveSearchEngine(requested);
+  if (requested && requested !== searchEngine) {
+    console.warn(`⚠️ Search engine "${requested}" needs ENABLE_EXA=true, using ${searchEngine}`);
   }
+  return searchEngine;
 }
 
-async function main() {
-  if (!userQuery.trim()) {
-    console.log('❌ No query provided!');
-    console.log('📝 Please provide a cryptocurrency analysis query.');
-    console.log('💡 Examples:');
-    console.log('   • "Technical analysis on Bitcoin and Ethereum"');
-    console.log('   • "Price prediction for Solana and Cardano"');
-    console.log('   • "Market analysis of DeFi tokens"');
-    console.log('\n🔧 Usage:');
-    console.log('   npm start "your query here"');
-    console.log('   or set USER_QUERY environment variable');
-    return;
+function printAmbiguities(ambiguities: TokenAmbiguity[]): void {
+  for (const ambiguity of ambiguities) {
+    console.log(`\n🔀 "${ambiguity.token}" could be:`);
+    ambiguity.candidates.forEach((candidate, index) => {
+      console.log(`   ${index + 1}. ${candidate.name} (${candidate.symbol.toUpperCase()}) - ID: ${candidate.id}, market cap ${formatUsdCompact(candidate.marketCap)}`);
+    });
   }
+  const example = ambiguities[0];
+  console.log(`\n🎯 Re-run with --pick ${example.token}=${example.candidates[0].id} to choose, or --auto-pick to take the best-ranked coin.`);
+}
+
+function printDetectionFailure(failure: { error: string; suggestions?: Array<{ name: string; id: string; symbol: string }>; ambiguities?: TokenAmbiguity[] }): void {
+  console.log('❌ Token detection failed:', failure.error);
 
-  const enableExa = process.env.ENABLE_EXA === 'true';
-  let searchEngine = process.env.SEARCH_ENGINE || process.argv[3] || 'tavily';
-  
-  if (!enableExa && searchEngine === 'dual') {
-    searchEngine = 'tavily';
+  if (failure.ambiguities && failure.ambiguities.length > 0) {
+    printAmbiguities(failure.ambiguities);
+  } else if (failure.suggestions && failure.suggestions.length > 0) {
+    console.log('\n💡 Suggested tokens based on your query:');
+    failure.suggestions.forEach((suggestion, index) => {
+      console.log(`   ${index + 1}. ${suggestion.name} (${suggestion.symbol.toUpperCase()}) - ID: ${suggestion.id}`);
+    });
+    console.log('\n🎯 To improve accuracy, please rephrase your query using complete token names from the list above.');
+    console.log('📝 Example: "Technical analysis of Bitcoin and Ethereum" instead of "BTC ETH analysis"');
+  } else {
+    console.log('Sorry, we only serve mid to popular coins for now. Please ask about well-known cryptocurrencies.');
   }
+}
 
-  console.log(`🔧 EXA Enabled: ${enableExa ? '✅' : '❌'}`);
-  console.log(`🔍 Search Engine: ${searchEngine.toUpperCase()}`);
-  console.log(`🚀 Starting crypto analysis for: "${userQuery}"`);
-  
-  const synonymGeneratorService = new SynonymGeneratorService();
-  const marketDataService = new MarketDataService();
-  
-  const validation = await synonymGeneratorService.validateCryptoQuery(userQuery);
-  if (!validation.isValid) {
-    console.log(validation.sanitizedQuery);
-    return;
+function printDetectedAssets(assets: DetectedAsset[]): void {
+  for (const asset of assets) {
+    const contract = asset.contractAddress ? ` · ${asset.contractAddress} on ${asset.platform}` : '';
+    const picked = asset.resolution && asset.resolution.method !== 'unique' ? ` · "${asset.resolution.token}" ${asset.resolution.method === 'choice' ? 'chosen' : 'auto-picked'}` : '';
+    console.log(`🪙 ${asset.name} (${asset.symbol.toUpperCase()}) - ID: ${asset.id}${contract}${picked}`);
+  }
+  if (assets.length === 0) console.log('No coins detected.');
+}
+
+async function runAnalyze({ positionals, flags, json }: CommandContext): Promise<number> {
+  // `npm start "query" tavily` predates --engine; a trailing engine name is still accepted
+  let requestedEngine = engineFlag(flags);
+  if (!requestedEngine && positionals.length > 1 && SEARCH_ENGINES.includes(positionals[positionals.length - 1].toLowerCase())) {
+    requestedEngine = positionals.pop()!.toLowerCase();
+  }
+  const query = requireQuery(positionals, 'analyze');
+
+  const maxUrlsFlag = stringFlag(flags, 'max-urls');
+  const maxUrls = maxUrlsFlag !== undefined ? parseInt(maxUrlsFlag, 10) : undefined;
+  if (maxUrls !== undefined && !(maxUrls > 0)) {
+    throw new UsageError('--max-urls must be a positive number');
+  }
+  const format = stringFlag(flags, 'format') || (json ? 'json' : 'markdown');
+  if (!['markdown', 'json'].includes(format)) {
+    throw new UsageError('--format must be markdown or json');
+  }
+  const currency = currencyFlag(flags);
+  const tokenChoices = tokenChoicesFlag(flags);
+  const autoPick = !!flags['auto-pick'];
+  let exportFormats: ReportFormat[] = [];
+  const exportFlag = stringFlag(flags, 'export');
+  if (exportFlag !== undefined) {
+    try {
+      exportFormats = parseReportFormats(exportFlag);
+    } catch (error: any) {
+      throw new UsageError(error.message);
+    }
+  }
+
+  const sessionStore = new SessionStore();
+  const sessionId = stringFlag(flags, 'session');
+  let session: AnalysisSession | undefined;
+  if (sessionId === 'new') {
+    session = sessionStore.create();
+  } else if (sessionId) {
+    session = (await sessionStore.load(sessionId)) ?? undefined;
+    if (!session) {
+      console.error(`❌ No session with id ${sessionId}. Start one with --session new.`);
+      return EXIT_USAGE;
+    }
+    console.log(`🧵 Continuing session ${session.id} (${session.turns.length} earlier turns, assets: ${session.assets.map(asset => asset.name).join(', ') || 'none'})`);
   }
-  
+
+  const searchEngine = chooseSearchEngine(requestedEngine || process.env.SEARCH_ENGINE || session?.searchEngine);
+
+  console.log(`🔧 EXA Enabled: ${process.env.ENABLE_EXA === 'true' ? '✅' : '❌'}`);
+  console.log(`🔍 Search Engine: ${searchEngine.toUpperCase()}`);
+  console.log(`🚀 Starting crypto analysis for: "${query}"`);
+
+  const pipeline = new AnalysisPipeline();
   const timer = new Timer('Total Analysis');
-  
-  console.log('📦 Setting up knowledge base from CoinGecko...');
-  await marketDataService.setupKnowledgeBase();
-  
-  const detectionResult = await marketDataService.retrieveCoinIDs(validation.sanitizedQuery);
-  
-  if ('error' in detectionResult) {
-    console.log('❌ Token detection failed:', detectionResult.error);
-    
-    if (detectionResult.suggestions && detectionResult.suggestions.length > 0) {
-      console.log('\n💡 Suggested tokens based on your query:');
-      detectionResult.suggestions.forEach((suggestion, index) => {
-        console.log(`   ${index + 1}. ${suggestion.name} (${suggestion.symbol.toUpperCase()}) - ID: ${suggestion.id}`);
-      });
-      console.log('\n🎯 To improve accuracy, please rephrase your query using complete token names from the list above.');
-      console.log('📝 Example: "Technical analysis of Bitcoin and Ethereum" instead of "BTC ETH analysis"');
-    } else {
-      console.log('Sorry, we only serve mid to popular coins for now. Please ask about well-known cryptocurrencies.');
+  const options = { searchEngine, maxUrls, currency, tokenChoices, autoPick, session };
+
+  try {
+    let result: PipelineResult = await pipeline.run(query, options);
+
+    if (!result.ok && result.code === 'AMBIGUOUS_TOKEN' && result.ambiguities && process.stdin.isTTY && !json) {
+      Object.assign(tokenChoices, await promptForChoices(result.ambiguities));
+      result = await pipeline.run(query, options);
     }
-    
     timer.log();
-    return;
-  }
-  
-  const detectedAssets = detectionResult as Array<{ name: string; id: string; symbol: string }>;
-  console.log(`🪙 Detected ${detectedAssets.length} relevant coins`);
-  
-  const synonymResponse = await synonymGeneratorService.generateSynonyms(validation.sanitizedQuery);
-  console.log(`📝 Generated ${synonymResponse.synonyms.length} search queries`);
-  
+
+    if (!result.ok) {
+      if (format === 'json') {
+        const { ok, stage, code, error, suggestions, ambiguities } = result as PipelineFailure;
+        printJson({ ok, stage, code, error, suggestions, ambiguities });
+      } else if (result.code === 'INVALID_QUERY') {
+        console.log(result.error);
+      } else {
+        printDetectionFailure(result);
+      }
+      return EXIT_PIPELINE_FAILURE;
+    }
+
+    if (session) {
+      recordSessionTurn(session, result);
+      await sessionStore.save(session);
+      console.log(`\n🧵 Session ${session.id} saved (${session.turns.length} turns). Ask a follow-up with --session ${session.id} "..."`);
+    }
+
+    const exportedFiles = exportFormats.length > 0 ? await new ReportExporter().export(result, exportFormats) : [];
+    for (const file of exportedFiles) {
+      console.log(`💾 Report saved to ${file}`);
+    }
+
+    if (format === 'json') {
+      const { prompt, ...output } = result;
+      printJson({ ...output, sessionId: session?.id, exportedFiles });
+    } else {
+      console.log('\n📊 FINAL ANALYSIS:\n');
+      console.log(result.analysis);
+    }
+    return EXIT_OK;
+  } finally {
+    await pipeline.cleanup();
+  }
+}
+
+async function runDetect({ positionals, flags, json }: CommandContext): Promise<number> {
+  const query = requireQuery(positionals, 'detect');
+  const marketDataService = new MarketDataService();
+  await marketDataService.setupKnowledgeBase();
+
+  const result = await marketDataService.retrieveCoinIDs(query, { choices: tokenChoicesFlag(flags), autoPick: !!flags['auto-pick'] });
+  const failed = 'error' in result;
+
+  if (json) {
+    printJson(failed ? { ok: false, ...result } : { ok: true, assets: result });
+  } else if (failed) {
+    printDetectionFailure(result);
+  } else {
+    printDetectedAssets(result);
+  }
+  return failed ? EXIT_PIPELINE_FAILURE : EXIT_OK;
+}
+
+async function runSearch({ positionals, flags, json }: CommandContext): Promise<number> {
+  const query = requireQuery(positionals, 'search');
+  const searchEngine = chooseSearchEngine(engineFlag(flags));
   const searchService = new SearchService();
-  let searchResults: any;
-  
-  const allQueries = [validation.sanitizedQuery, ...synonymResponse.synonyms];
-  
-  switch (searchEngine) {
-    case 'exa':
-      searchResults = await searchService.searchExaOnly(allQueries);
-      break;
-    case 'tavily':
-      searchResults = await searchService.searchTavilyOnly(allQueries);
-      break;
-    case 'dual':
-    default:
-      searchResults = await searchService.searchDualEngine(allQueries);
-      break;
-  }
-  
-  console.log(`🔍 Found ${searchResults.urls.length} URLs from ${searchEngine} search`);
-  
-  const webScraper = new WebScraper();
-  const scrapedContents: ScrapedContent[] = [];
-  
+
+  const result = searchEngine === 'exa'
+    ? await searchService.searchExaOnly([query])
+    : searchEngine === 'tavily'
+      ? await searchService.searchTavilyOnly([query])
+      : await searchService.searchDualEngine([query]);
+
+  if (json) {
+    printJson({ engine: searchEngine, ...result });
+    return EXIT_OK;
+  }
+  result.results.forEach((item, index) => {
+    console.log(`${index + 1}. ${item.title}`);
+    console.log(`   ${item.url} · published ${item.publishedDate || 'unknown'}`);
+  });
+  if (result.results.length === 0) console.log('No results.');
+  return EXIT_OK;
+}
+
+async function runScrape({ positionals, flags, json }: CommandContext): Promise<number> {
+  const url = positionals[0];
+  if (!url || positionals.length > 1) {
+    throw new UsageError('scrape takes exactly one URL');
+  }
+  try {
+    new URL(url);
+  } catch {
+    throw new UsageError(`"${url}" is not a valid URL`);
+  }
+  const chars = parseInt(stringFlag(flags, 'chars') || '1000', 10);
+  if (!(chars > 0)) {
+    throw new UsageError('--chars must be a positive number');
+  }
+
+  const scraper = new WebScraper();
   try {
-    const scrapedResults = await webScraper.scrapeMultiple(searchResults.urls.slice(0, 10));
-    
-    for (const result of scrapedResults) {
-      scrapedContents.push({
-        url: result.url,
-        title: result.title,
-        content: result.content,
-        timestamp: new Date(),
-        publishedDate: result.publishedDate ? new Date(result.publishedDate) : undefined,
-        publishedDateString: result.publishedDate || undefined
-      });
-    }
-  } catch (error) {
-    console.error('Scraping failed:', error);
-  }
-  
-  const augmentedData = await marketDataService.fetchDetailedCoinData(detectedAssets);
-  
-  const analysisPrompt = createAnalysisPrompt(scrapedContents, synonymResponse, augmentedData);
-  const finalAnalysis = await generateFinalAnalysis(analysisPrompt);
-  
+    const content = await scraper.scrapeUrl(url);
+    if (!content) {
+      if (json) printJson({ ok: false, url });
+      return EXIT_ERROR;
+    }
+    if (json) {
+      printJson({ ok: true, ...content });
+      return EXIT_OK;
+    }
+    console.log(`📄 ${content.title}`);
+    console.log(`   ${content.url} · published ${content.publishedDate || 'unknown'} · ${content.content.length} characters`);
+    console.log(`\n${content.content.substring(0, chars)}${content.content.length > chars ? '...' : ''}`);
+    return EXIT_OK;
+  } finally {
+    await scraper.cleanup();
+  }
+}
+
+function convertQuote(quote: AugmentedCoinData, rate: number): AugmentedCoinData {
+  const scale = (value: number | null | undefined) => (typeof value === 'number' ? value * rate : value);
+  return {
+    ...quote,
+    current_price: quote.current_price * rate,
+    market_cap: quote.market_cap * rate,
+    high_24h: scale(quote.high_24h) ?? null,
+    low_24h: scale(quote.low_24h) ?? null,
+    total_volume: scale(quote.total_volume) ?? undefined,
+    ath: scale(quote.ath)
+  };
+}
+
+async function runPrice({ positionals, flags, json }: CommandContext): Promise<number> {
+  if (positionals.length === 0) {
+    throw new UsageError('price needs at least one coin id, e.g. price bitcoin ethereum');
+  }
+  const currency = currencyFlag(flags);
+  const marketDataService = new MarketDataService();
+
+  // Names and symbols help providers that look coins up by ticker; unknown ids are still tried as given
+  try {
+    await marketDataService.setupKnowledgeBase();
+  } catch (error: any) {
+    console.warn('⚠️ Knowledge base unavailable, quoting ids as given:', error.message);
+  }
+  const ids = positionals.map(id => id.toLowerCase());
+  const assets = ids.map(id => marketDataService.findAsset(id) || { id, name: id, symbol: '' });
+
+  const rate = await marketDataService.getExchangeRate(currency);
+  const quotes = await marketDataService.fetchDetailedCoinData(assets);
+  const missing = ids.filter(id => !quotes[id]);
+  const converted = Object.fromEntries(Object.entries(quotes).map(([id, quote]) => [id, convertQuote(quote, rate)]));
+
+  if (json) {
+    printJson({ currency, rate, quotes: converted, missing });
+  } else {
+    for (const id of ids) {
+      const quote = converted[id];
+      if (!quote) {
+        console.log(`❌ No quote for ${id}`);
+        continue;
+      }
+      const change = typeof quote.price_change_24h === 'number' ? ` (${quote.price_change_24h > 0 ? '+' : ''}${quote.price_change_24h.toFixed(2)}% 24h)` : '';
+      console.log(`🪙 ${quote.name} (${quote.symbol.toUpperCase()}) · ${formatPrice(quote.current_price, currency)}${change}`);
+      console.log(`   market cap ${formatPrice(Math.round(quote.market_cap), currency)} · 24h range ${formatPrice(quote.low_24h, currency)} - ${formatPrice(quote.high_24h, currency)}${quote.source ? ` · via ${quote.source}` : ''}`);
+    }
+  }
+  return missing.length > 0 ? EXIT_ERROR : EXIT_OK;
+}
+
+async function runKnowledgeBase({ positionals, json }: CommandContext): Promise<number> {
+  const action = positionals[0];
+  if (action !== 'refresh' && action !== 'stats') {
+    throw new UsageError('kb takes refresh or stats');
+  }
+  const marketDataService = new MarketDataService();
+  await marketDataService.setupKnowledgeBase(action === 'refresh');
+  const stats = marketDataService.knowledgeBaseStats();
+
+  if (json) {
+    printJson(stats);
+    return EXIT_OK;
+  }
+  console.log(`🧠 Knowledge base from ${stats.provider}: ${stats.assets} assets`);
+  console.log(`   Index: ${stats.symbols} symbols (${stats.collidingSymbols} shared by several coins), ${stats.names} names, ${stats.aliases} aliases`);
+  console.log(`   Largest: ${stats.topAssets.map(asset => `${asset.symbol.toUpperCase()} ${formatUsdCompact(asset.marketCap ?? null)}`).join(', ')}`);
+  return EXIT_OK;
+}
+
+async function runPortfolio({ positionals, flags, json }: CommandContext): Promise<number> {
+  if (positionals.length > 1) {
+    throw new UsageError('portfolio takes one holdings file');
+  }
+  const holdings = await loadPortfolio(positionals[0] || config.portfolio.file);
+  const analyzer = new PortfolioAnalyzer();
+  const timer = new Timer('Portfolio Analysis');
+
+  const { portfolio, technicalSnapshots } = await analyzer.evaluate(holdings);
+  if (portfolio.positions.length === 0) {
+    if (json) printJson({ portfolio });
+    console.error('❌ None of the holdings could be valued');
+    return EXIT_PIPELINE_FAILURE;
+  }
+  const analysis = flags['metrics-only'] ? null : (await analyzer.generateAnalysis(portfolio, technicalSnapshots)).analysis;
   timer.log();
-  console.log('\n📊 FINAL ANALYSIS:\n');
-  console.log(finalAnalysis);
-  
-  await webScraper.cleanup();
+
+  if (json) {
+    printJson({ portfolio, analysis });
+    return EXIT_OK;
+  }
+  console.log('\n💼 PORTFOLIO:\n');
+  console.log(renderPortfolioSection(portfolio));
+  if (analysis) {
+    console.log('\n📊 PORTFOLIO ANALYSIS:\n');
+    console.log(analysis);
+  }
+  return EXIT_OK;
+}
+
+async function runPredictions({ positionals, flags, json }: CommandContext): Promise<number> {
+  const action = positionals[0] || 'scoreboard';
+  if (!['evaluate', 'scoreboard', 'list'].includes(action) || positionals.length > 1) {
+    throw new UsageError('predictions takes evaluate, scoreboard or list');
+  }
+  const tracker = new PredictionTracker(new MarketDataService().getProvider());
+  const evaluated = action === 'evaluate' ? await tracker.evaluate() : [];
+
+  if (action === 'list') {
+    const asset = stringFlag(flags, 'asset')?.toLowerCase();
+    const predictions = (await tracker.load()).filter(prediction => !asset || prediction.assetId === asset || prediction.symbol.toLowerCase() === asset);
+    if (json) {
+      printJson(predictions);
+      return EXIT_OK;
+    }
+    for (const prediction of predictions) {
+      const { evaluation } = prediction;
+      const status = evaluation
+        ? `${evaluation.directionCorrect ? '✅' : '❌'} ${formatPrice(evaluation.realizedPrice)} (${evaluation.returnPercent > 0 ? '+' : ''}${evaluation.returnPercent.toFixed(1)}%), bull ${evaluation.bullish.outcome}, bear ${evaluation.bearish.outcome}`
+        : `⏳ pending until ${new Date(Date.parse(prediction.createdAt) + prediction.horizonDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0]}`;
+      console.log(`🎯 ${prediction.createdAt.split('T')[0]} ${prediction.symbol.toUpperCase()} ${prediction.direction} from ${formatPrice(prediction.referencePrice)} over ${prediction.horizonDays}d · ${prediction.promptVersion}`);
+      console.log(`   ${status}`);
+    }
+    if (predictions.length === 0) console.log('No predictions recorded.');
+    return EXIT_OK;
+  }
+
+  const scoreboard = await tracker.scoreboard();
+  if (json) {
+    printJson(action === 'evaluate' ? { evaluated: evaluated.length, scoreboard } : scoreboard);
+  } else {
+    console.log(`\n${renderScoreboard(scoreboard)}`);
+  }
+  return EXIT_OK;
+}
+
+async function runShell({ flags }: CommandContext): Promise<number> {
+  await new AnalysisRepl(engineFlag(flags)).start();
+  return EXIT_OK;
+}
+
+const TOKEN_OPTIONS: OptionSpec = {
+  pick: { type: 'string', multiple: true },
+  'auto-pick': { type: 'boolean' }
+};
+
+const TOKEN_OPTION_HELP: Array<[string, string]> = [
+  ['--pick token=coin-id', 'resolve an ambiguous ticker, e.g. --pick pear=pear-protocol (repeatable)'],
+  ['--auto-pick', 'take the best-ranked coin for ambiguous tickers']
+];
+
+const COMMANDS: Record<string, Command> = {
+  analyze: {
+    usage: 'analyze <query> [options]',
+    summary: 'run the full research pipeline and print the analysis',
+    options: {
+      ...TOKEN_OPTIONS,
+      engine: { type: 'string' },
+      'max-urls': { type: 'string' },
+      format: { type: 'string' },
+      currency: { type: 'string' },
+      export: { type: 'string' },
+      session: { type: 'string' }
+    },
+    optionHelp: [
+      ['--engine exa|tavily|dual', 'search engine (default SEARCH_ENGINE, then tavily)'],
+      ['--max-urls <n>', 'scrape at most n search results (default 10)'],
+      ['--format markdown|json', 'print the analysis text or the full result as JSON'],
+      ['--currency <code>', 'quote prices in the report in this currency, e.g. eur or btc'],
+      ['--export <formats>', 'also write a report file: markdown, html and/or json, comma-separated'],
+      ...TOKEN_OPTION_HELP,
+      ['--session new|<id>', 'start or continue a conversation session']
+    ],
+    run: runAnalyze
+  },
+  detect: {
+    usage: 'detect <query> [options]',
+    summary: 'only detect which coins a query names',
+    options: TOKEN_OPTIONS,
+    optionHelp: TOKEN_OPTION_HELP,
+    run: runDetect
+  },
+  search: {
+    usage: 'search <query> [--engine exa|tavily|dual]',
+    summary: 'print web search results for a query',
+    options: { engine: { type: 'string' } },
+    optionHelp: [['--engine exa|tavily|dual', 'search engine (default SEARCH_ENGINE, then tavily)']],
+    run: runSearch
+  },
+  scrape: {
+    usage: 'scrape <url> [--chars <n>]',
+    summary: 'scrape one page the way the pipeline does',
+    options: { chars: { type: 'string' } },
+    optionHelp: [['--chars <n>', 'characters of content to print (default 1000)']],
+    run: runScrape
+  },
+  price: {
+    usage: 'price <coin-id...> [--currency <code>]',
+    summary: 'fetch current quotes from the market data providers',
+    options: { currency: { type: 'string' } },
+    optionHelp: [['--currency <code>', 'convert quotes to this currency, e.g. eur or btc (default usd)']],
+    run: runPrice
+  },
+  kb: {
+    usage: 'kb refresh|stats',
+    summary: 'reload the knowledge base or show its size and index',
+    options: {},
+    optionHelp: [],
+    run: runKnowledgeBase
+  },
+  portfolio: {
+    usage: 'portfolio [file] [--metrics-only]',
+    summary: `value a holdings file (CSV or JSON, default ${config.portfolio.file}) and analyze the aggregate position`,
+    options: { 'metrics-only': { type: 'boolean' } },
+    optionHelp: [
+      ['--metrics-only', 'print valuation, P&L, concentration and risk without the model analysis']
+    ],
+    run: runPortfolio
+  },
+  predictions: {
+    usage: 'predictions [evaluate|scoreboard|list] [--asset <id>]',
+    summary: 'score past analyses against realized prices and show hit rate, error and calibration',
+    options: { asset: { type: 'string' } },
+    optionHelp: [['--asset <id>', 'with list, only show predictions for this coin id or symbol']],
+    run: runPredictions
+  },
+  shell: {
+    usage: 'shell [--engine exa|tavily|dual]',
+    summary: 'open the interactive analysis shell',
+    options: { engine: { type: 'string' } },
+    optionHelp: [['--engine exa|tavily|dual', 'initial search engine']],
+    run: runShell
+  }
+};
+
+function printOptions(options: Array<[string, string]>, print: (line: string) => void): void {
+  for (const [flag, description] of options) {
+    print(`   ${flag.padEnd(28)} ${description}`);
+  }
+}
+
+function printUsage(print: (line: string) => void = console.log): void {
+  print('🔧 Usage: npm start -- <command> [options]');
+  print('');
+  for (const [name, command] of Object.entries(COMMANDS)) {
+    print(`   ${name.padEnd(12)} ${command.summary}`);
+  }
+  print('');
+  print('   npm start "your query here"   same as analyze');
+  print('   npm start                     (in a terminal) opens the interactive shell; USER_QUERY runs analyze');
+  print('');
+  print('Global options:');
+  printOptions(GLOBAL_OPTION_HELP, print);
+  print('');
+  print('Run npm start -- <command> --help for its options. Exit codes: 0 ok, 1 error, 2 usage, 3 pipeline could not answer.');
+}
+
+function printCommandHelp(name: string, print: (line: string) => void = console.log): void {
+  const command = COMMANDS[name];
+  print(`🔧 Usage: npm start -- ${command.usage}`);
+  print(`   ${command.summary}`);
+  if (command.optionHelp.length > 0) {
+    print('');
+    print('Options:');
+    printOptions(command.optionHelp, print);
+  }
+  printOptions(GLOBAL_OPTION_HELP, print);
+}
+
+async function main(argv: string[]): Promise<number> {
+  if (argv.length === 0) {
+    const userQuery = process.env.USER_QUERY?.replace(/^"|"$/g, '').trim();
+    if (userQuery) {
+      argv = ['analyze', userQuery];
+    } else if (process.stdin.isTTY) {
+      argv = ['shell'];
+    } else {
+      console.error('❌ No query provided!');
+      printUsage(console.error);
+      return EXIT_USAGE;
+    }
+  }
+
+  if (['help', '--help', '-h'].includes(argv[0])) {
+    if (argv[1] && COMMANDS[argv[1]]) {
+      printCommandHelp(argv[1]);
+    } else {
+      printUsage();
+    }
+    return EXIT_OK;
+  }
+
+  // Anything that is not a command name is a query for analyze
+  const name = COMMANDS[argv[0]] ? argv[0] : 'analyze';
+  const command = COMMANDS[name];
+
+  let positionals: string[];
+  let flags: Flags;
+  try {
+    ({ positionals, values: flags } = parseArgs({
+      args: COMMANDS[argv[0]] ? argv.slice(1) : argv,
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+      strict: true
+    }));
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    printCommandHelp(name, console.error);
+    return EXIT_USAGE;
+  }
+
+  if (flags.help) {
+    printCommandHelp(name);
+    return EXIT_OK;
+  }
+
+  const json = !!flags.json || stringFlag(flags, 'format') === 'json';
+  if (json) {
+    // Keep stdout clean for the JSON result; pipeline progress logs still show on stderr
+    console.log = console.error;
+    console.info = console.error;
+  }
+
+  try {
+    return await command.run({ positionals, flags, json });
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}`);
+      printCommandHelp(name, console.error);
+      return EXIT_USAGE;
+    }
+    throw error;
+  }
 }
 
-main().catch(console.error);
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+}, error => {
+  console.error('❌', error?.message || error);
+  process.exitCode = EXIT_ERROR;
+});
@@ -0,0 +1,609 @@
+import { SearchService } from './services/search.js';
+import { WebScraper } from './services/scraper.js';
+import { MarketDataService } from './services/market-data.js';
+import { SynonymGeneratorService, SynonymResponse } from './services/synonym-generator.js';
+import { renderReportMarkdown, renderTokenResolutions } from './services/analysis-report.js';
+import {
+  attachReferences,
+  buildReferences,
+  checkMarkdownCitations,
+  extractInlineCitations,
+  renderCitationIssues,
+  renderReferences
+} from './services/citations.js';
+import { renderTechnicalTable, TechnicalAnalysisService } from './services/technical-indicators.js';
+import { CorrelationService, renderCrossAssetSection } from './services/correlation.js';
+import { PredictionTracker } from './services/predictions.js';
+import { buildRetrievalQueries, ContentRetriever } from './services/content-retriever.js';
+import { renderSentimentSection, SocialSentimentService } from './services/social-sentiment.js';
+import { OnChainService, renderOnChainSection } from './services/onchain.js';
+import { HolderDistributionService, renderHolderSection } from './services/holders.js';
+import { DexLiquidityService, renderDexLiquiditySection } from './services/dex-liquidity.js';
+import { fromSessionSource, lastTurnAssets, renderConversationSection, resolveSessionReferences } from './services/sessions.js';
+import { AnalysisGenerator } from './agents/index.js';
+import { config } from './config.js';
+import { getScrapingConfig } from './config/scraping-config.js';
+import { cassette, getCurrentDateFormatted } from './utils/index.js';
+import {
+  AnalysisReport,
+  AnalysisSession,
+  AssetSentiment,
+  CitationIssue,
+  CrossAssetReport,
+  DetectedAsset,
+  DexLiquidityAnalysis,
+  HolderDistribution,
+  OnChainTransferMetrics,
+  RetrievedChunk,
+  ScrapeOutcome,
+  SessionTurn,
+  TechnicalSnapshot,
+  TokenAmbiguity
+} from './types/index.js';
+
+export type SearchEngine = 'exa' | 'tavily' | 'dual';
+
+export type PipelineStage =
+  | 'validation'
+  | 'knowledge_base'
+  | 'token_detection'
+  | 'synonyms'
+  | 'search'
+  | 'scrape'
+  | 'retrieval'
+  | 'market_data'
+  | 'indicators'
+  | 'correlation'
+  | 'onchain'
+  | 'holders'
+  | 'liquidity'
+  | 'sentiment'
+  | 'analysis';
+
+export interface PipelineProgressEvent {
+  stage: PipelineStage;
+  status: 'started' | 'completed';
+  message: string;
+  elapsedMs: number;
+  data?: Record<string, any>;
+}
+
+export interface ScrapedContent {
+  url: string;
+  title: string;
+  content: string;
+  timestamp: Date;
+  publishedDate?: Date;
+  publishedDateString?: string;
+}
+
+export interface PipelineOptions {
+  searchEngine?: string;
+  maxUrls?: number;
+  /** Currency code for prices in the report (e.g. "eur"); market data is fetched in USD and the model converts at the provider's rate */
+  currency?: string;
+  /** Resolutions for ambiguous query tokens, e.g. { "pear": "pear-protocol" } */
+  tokenChoices?: Record<string, string>;
+  /** Take the best-ranked candidate for ambiguous tokens instead of failing */
+  autoPick?: boolean;
+  /** Earlier turns to build on: pronouns, sources and fresh market data are taken from it (record the result with recordSessionTurn) */
+  session?: AnalysisSession;
+  onProgress?: (event: PipelineProgressEvent) => void;
+}
+
+export interface PipelineSuccess {
+  ok: true;
+  query: string;
+  /** The query with pronouns resolved against the session, otherwise the query itself */
+  resolvedQuery: string;
+  sanitizedQuery: string;
+  searchEngine: SearchEngine;
+  /** Lowercase code the report's prices are quoted in */
+  currency: string;
+  /** Units of that currency per USD; 1 for USD */
+  exchangeRate: number;
+  detectedAssets: DetectedAsset[];
+  synonyms: string[];
+  sources: ScrapedContent[];
+  /** Sources carried over from earlier session turns instead of being scraped again */
+  reusedSourceCount: number;
+  scrapeOutcomes: ScrapeOutcome[];
+  marketData: Record<string, any>;
+  technicalSnapshots: TechnicalSnapshot[];
+  /** Returns, drawdowns, correlation and beta against BTC/ETH; null without price history */
+  crossAsset: CrossAssetReport | null;
+  onChainMetrics: OnChainTransferMetrics[];
+  holderDistributions: HolderDistribution[];
+  dexLiquidity: DexLiquidityAnalysis[];
+  socialSentiment: AssetSentiment[];
+  prompt: string;
+  report: AnalysisReport | null;
+  analysis: string;
+  citationIssues: CitationIssue[];
+  durationMs: number;
+}
+
+export interface PipelineFailure {
+  ok: false;
+  stage: PipelineStage;
+  code: 'INVALID_QUERY' | 'KNOWLEDGE_BASE_UNAVAILABLE' | 'TOKEN_DETECTION_FAILED' | 'AMBIGUOUS_TOKEN';
+  error: string;
+  suggestions?: Array<{ name: string; id: string; symbol: string }>;
+  ambiguities?: TokenAmbiguity[];
+  durationMs: number;
+}
+
+export type PipelineResult = PipelineSuccess | PipelineFailure;
+
+export function resolveSearchEngine(requested?: string): SearchEngine {
+  const enableExa = process.env.ENABLE_EXA === 'true';
+  let searchEngine = (requested || process.env.SEARCH_ENGINE || 'tavily').toLowerCase();
+
+  if (!['exa', 'tavily', 'dual'].includes(searchEngine)) {
+    searchEngine = 'dual';
+  }
+  if (!enableExa && searchEngine === 'dual') {
+    searchEngine = 'tavily';
+  }
+
+  return searchEngine as SearchEngine;
+}
+
+export function createAnalysisPrompt(
+  scrapedContents: ScrapedContent[],
+  synonymResponse: SynonymResponse,
+  augmentedData: any,
+  technicalSnapshots: TechnicalSnapshot[] = [],
+  excerpts: Record<string, RetrievedChunk[]> = {},
+  socialSentiment: AssetSentiment[] = [],
+  onChainMetrics: OnChainTransferMetrics[] = [],
+  holderDistributions: HolderDistribution[] = [],
+  dexLiquidity: DexLiquidityAnalysis[] = [],
+  conversation: SessionTurn[] = [],
+  quoteCurrency: { code: string; rate: number } | null = null,
+  crossAsset: CrossAssetReport | null = null
+): string {
+  const contentSummary = scrapedContents.map((content, index) => {
+    const header = `${index + 1}. ${content.title}\nURL: ${content.url}\nPublished: ${content.publishedDateString || 'unknown'}`;
+    const chunks = excerpts[content.url] || [];
+    if (chunks.length > 0) {
+      return `${header}\nRelevant excerpts:\n${chunks.map(chunk => `> ${chunk.text}`).join('\n> ...\n')}`;
+    }
+    return `${header}\nContent: ${content.content.substring(0, 1000)}...`;
+  }).join('\n\n');
+
+  let prompt = `Based on the following information, provide a comprehensive crypto analysis:
+
+ORIGINAL QUERY: ${synonymResponse.originalQuery}
+
+SEARCH QUERIES USED:
+${synonymResponse.synonyms.map((query, index) => `${index + 1}. ${query}`).join('\n')}`;
+
+  if (augmentedData && Object.keys(augmentedData).length > 0) {
+    const providers = [...new Set(Object.values(augmentedData).map((coin: any) => coin.source || 'market data API'))].join(', ');
+    prompt += `\n\n## LIVE MARKET DATA (${providers} - ${getCurrentDateFormatted()}):\n`;
+    for (const id in augmentedData) {
+      const coin = augmentedData[id];
+      const marketCap = coin.market_cap ? `$${(coin.market_cap / 1000000).toFixed(2)}M` : 'N/A';
+      const volume24h = coin.total_volume ? `$${(coin.total_volume / 1000000).toFixed(2)}M` : 'N/A';
+      const priceChange = coin.price_change_24h ? `${coin.price_change_24h > 0 ? '+' : ''}${coin.price_change_24h.toFixed(2)}%` : 'N/A';
+
+      prompt += `### ${coin.name} (${coin.symbol.toUpperCase()}) - ${coin.id}\n`;
+      prompt += `**Current Price:** $${coin.current_price}\n`;
+      prompt += `**Market Cap:** ${marketCap}\n`;
+      prompt += `**24h Volume:** ${volume24h}\n`;
+      prompt += `**24h Change:** ${priceChange}\n`;
+      prompt += `**24h Range:** ${coin.low_24h != null && coin.high_24h != null ? `$${coin.low_24h} - $${coin.high_24h}` : 'N/A'}\n`;
+      prompt += `**All-Time High:** $${coin.ath || 'N/A'} (${coin.ath_date ? new Date(coin.ath_date).toLocaleDateString() : 'N/A'})\n`;
+      prompt += `**Circulating Supply:** ${coin.circulating_supply ? `${(coin.circulating_supply / 1000000).toFixed(2)}M ${coin.symbol.toUpperCase()}` : 'N/A'}\n`;
+      prompt += `**Market Cap Rank:** #${coin.market_cap_rank || 'N/A'}\n\n`;
+    }
+  }
+
+  if (technicalSnapshots.length > 0) {
+    prompt += `\n## TECHNICAL INDICATORS (computed locally from daily OHLC and volume history):\n`;
+    prompt += renderTechnicalTable(technicalSnapshots);
+    prompt += `\nUse these computed values for RSI, MACD, moving averages, volatility (ATR) and support/resistance levels. Do not invent different indicator values.\n`;
+  }
+
+  if (crossAsset) {
+    prompt += `\n## RELATIVE PERFORMANCE & CORRELATION (computed from aligned daily returns against ${config.correlation.benchmarks.map(benchmark => benchmark.symbol.toUpperCase()).join(' and ')}):\n`;
+    prompt += renderCrossAssetSection(crossAsset);
+    prompt += `\nBase every comparison with Bitcoin or Ethereum, and every correlation, beta, relative strength or drawdown statement, on these computed figures.\n`;
+  }
+
+  if (onChainMetrics.length > 0) {
+    prompt += `\n## ON-CHAIN ACTIVITY (ERC-20 Transfer events read from the chain):\n`;
+    prompt += renderOnChainSection(onChainMetrics);
+    prompt += `Use these transfer counts, volumes and large transfers when discussing on-chain activity or whale movements.\n`;
+  }
+
+  if (holderDistributions.length > 0) {
+    prompt += `\n## HOLDER DISTRIBUTION (token balances read from the chain):\n`;
+    prompt += renderHolderSection(holderDistributions);
+    prompt += `Use these figures when assessing holder concentration and whale or exchange risk.\n`;
+  }
+
+  if (dexLiquidity.length > 0) {
+    prompt += `\n## DEX LIQUIDITY (Uniswap pools read from the chain, price impact includes pool fees):\n`;
+    prompt += renderDexLiquiditySection(dexLiquidity);
+    prompt += `Base the liquidity and market depth assessment on these pool sizes and price impacts.\n`;
+  }
+
+  if (socialSentiment.length > 0) {
+    prompt += `\n## SOCIAL SENTIMENT (recent posts, bot-like and duplicate posts excluded):\n`;
+    prompt += renderSentimentSection(socialSentiment);
+    prompt += `Base statements about market or social sentiment on these figures rather than assumptions.\n`;
+  }
+
+  if (conversation.length > 0) {
+    prompt += `\n## CONVERSATION SO FAR (earlier questions in this session and the answers given):\n`;
+    prompt += renderConversationSection(conversation);
+    prompt += `The original query is a follow-up: answer it in this context and do not repeat earlier answers beyond what it needs.\n`;
+  }
+
+  prompt += `\n## RESEARCH SOURCES & CONTENT:\n${contentSummary}\n\n## ANALYSIS REQUIREMENTS:\n- Provide specific price targets with confidence levels\n- Include risk-reward ratios\n- Mention key support/resistance levels with exact prices\n${crossAsset ? '- Compare against Bitcoin and Ethereum using the computed returns, correlation and beta\n' : '- Compare against Bitcoin and overall market trends only where the data above supports it\n'}- Include trading volume analysis\n- Assess liquidity and market depth\n- Provide both bullish and bearish scenarios\n${crossAsset ? '- Include the correlation analysis from the computed matrix\n' : ''}- Mention any regulatory or fundamental catalysts\n- Provide actionable entry/exit strategies with stop-losses\n- Cite the research sources above by number, e.g. [1] or [2][3], for every factual claim`;
+  if (quoteCurrency) {
+    prompt += `\n- The market figures above are in USD; state every price, key level, entry, stop-loss and target in ${quoteCurrency.code.toUpperCase()} (1 USD = ${quoteCurrency.rate} ${quoteCurrency.code.toUpperCase()})`;
+  }
+  return prompt;
+}
+
+/**
+ * Runs the full analysis pipeline for a single query, reporting each stage as it starts and completes
+ */
+export class AnalysisPipeline {
+  private synonymGeneratorService: SynonymGeneratorService;
+  private marketDataService: MarketDataService;
+  private searchService: SearchService;
+  private webScraper: WebScraper;
+  private analysisGenerator: AnalysisGenerator;
+  private technicalAnalysisService: TechnicalAnalysisService;
+  private contentRetriever: ContentRetriever;
+  private socialSentimentService: SocialSentimentService;
+  private onChainService: OnChainService;
+  private holderDistributionService: HolderDistributionService;
+  private dexLiquidityService: DexLiquidityService;
+  private correlationService: CorrelationService;
+  private predictionTracker: PredictionTracker | null;
+
+  constructor(services: {
+    synonymGeneratorService?: SynonymGeneratorService;
+    marketDataService?: MarketDataService;
+    searchService?: SearchService;
+    webScraper?: WebScraper;
+    analysisGenerator?: AnalysisGenerator;
+    technicalAnalysisService?: TechnicalAnalysisService;
+    contentRetriever?: ContentRetriever;
+    socialSentimentService?: SocialSentimentService;
+    onChainService?: OnChainService;
+    holderDistributionService?: HolderDistributionService;
+    dexLiquidityService?: DexLiquidityService;
+    correlationService?: CorrelationService;
+    predictionTracker?: PredictionTracker | null;
+  } = {}) {
+    this.synonymGeneratorService = services.synonymGeneratorService || new SynonymGeneratorService();
+    this.marketDataService = services.marketDataService || new MarketDataService();
+    this.searchService = services.searchService || new SearchService();
+    this.webScraper = services.webScraper || new WebScraper();
+    this.analysisGenerator = services.analysisGenerator || new AnalysisGenerator();
+    this.technicalAnalysisService = services.technicalAnalysisService || new TechnicalAnalysisService(this.marketDataService.getProvider());
+    this.contentRetriever = services.contentRetriever || new ContentRetriever();
+    this.socialSentimentService = services.socialSentimentService || new SocialSentimentService();
+    this.onChainService = services.onChainService || new OnChainService(undefined, this.marketDataService.getProvider());
+    this.holderDistributionService = services.holderDistributionService || new HolderDistributionService(this.onChainService);
+    this.dexLiquidityService = services.dexLiquidityService || new DexLiquidityService(this.onChainService, this.marketDataService.getProvider());
+    this.correlationService = services.correlationService || new CorrelationService(this.marketDataService.getProvider());
+    this.predictionTracker = services.predictionTracker !== undefined
+      ? services.predictionTracker
+      : config.predictions.enabled ? new PredictionTracker(this.marketDataService.getProvider()) : null;
+  }
+
+  async run(query: string, options: PipelineOptions = {}): Promise<PipelineResult> {
+    const result = await this.runStages(query, options);
+    cassette.assertNoMisses();
+    // A replayed run repeats a recorded analysis, so its predictions are not tracked a second time
+    if (result.ok && result.report && this.predictionTracker && cassette.mode !== 'replay') {
+      try {
+        await this.predictionTracker.record(result, this.analysisGenerator.promptVersion);
+      } catch (error: any) {
+        console.warn('⚠️ Could not store predictions:', error.message);
+      }
+    }
+    return result;
+  }
+
+  private async runStages(query: string, options: PipelineOptions): Promise<PipelineResult> {
+    const startTime = Date.now();
+    const searchEngine = resolveSearchEngine(options.searchEngine);
+    const maxUrls = options.maxUrls ?? 10;
+
+    const emit = (stage: PipelineStage, status: 'started' | 'completed', message: string, data?: Record<string, any>) => {
+      options.onProgress?.({ stage, status, message, elapsedMs: Date.now() - startTime, data });
+    };
+
+    const session = options.session;
+    let resolvedQuery = query;
+    if (session) {
+      const followUp = resolveSessionReferences(query, session);
+      if (followUp.assets.length > 0) {
+        resolvedQuery = followUp.query;
+        console.log(`🧵 Follow-up resolved against session ${session.id}: "${resolvedQuery}"`);
+      }
+    }
+
+    emit('validation', 'started', 'Validating and sanitizing query');
+    const validation = await this.synonymGeneratorService.validateCryptoQuery(resolvedQuery);
+    if (!validation.isValid) {
+      return {
+        ok: false,
+        stage: 'validation',
+        code: 'INVALID_QUERY',
+        error: validation.sanitizedQuery,
+        durationMs: Date.now() - startTime
+      };
+    }
+    emit('validation', 'completed', 'Query validated', { sanitizedQuery: validation.sanitizedQuery });
+
+    emit('knowledge_base', 'started', 'Loading knowledge base');
+    console.log('📦 Setting up knowledge base...');
+    try {
+      await this.marketDataService.setupKnowledgeBase();
+    } catch (error: any) {
+      console.error('❌ Knowledge base unavailable:', error.message);
+      return {
+        ok: false,
+        stage: 'knowledge_base',
+        code: 'KNOWLEDGE_BASE_UNAVAILABLE',
+        error: 'Market data is temporarily unavailable. Please try again later.',
+        durationMs: Date.now() - startTime
+      };
+    }
+    emit('knowledge_base', 'completed', 'Knowledge base loaded');
+
+    emit('token_detection', 'started', 'Detecting tokens in query');
+    const detectionResult = await this.marketDataService.retrieveCoinIDs(validation.sanitizedQuery, {
+      choices: options.tokenChoices,
+      autoPick: options.autoPick
+    });
+    // A follow-up that names no coin ("and the staking yield?") continues with the previous turn's assets
+    const sessionAssets = session
+      ? lastTurnAssets(session).map(({ resolution, ...asset }) => asset)
+      : [];
+    let detectedAssets: DetectedAsset[];
+    if (!('error' in detectionResult)) {
+      detectedAssets = detectionResult.length === 0 && sessionAssets.length > 0 ? sessionAssets : detectionResult;
+    } else if (sessionAssets.length > 0 && !detectionResult.ambiguities?.length) {
+      console.log(`🧵 No coin detected in the follow-up, continuing with ${sessionAssets.map(asset => asset.name).join(', ')}`);
+      detectedAssets = sessionAssets;
+    } else {
+      const ambiguities = detectionResult.ambiguities;
+      return {
+        ok: false,
+        stage: 'token_detection',
+        code: ambiguities?.length ? 'AMBIGUOUS_TOKEN' : 'TOKEN_DETECTION_FAILED',
+        error: detectionResult.error,
+        suggestions: detectionResult.suggestions || [],
+        ...(ambiguities?.length ? { ambiguities } : {}),
+        durationMs: Date.now() - startTime
+      };
+    }
+    console.log(`🪙 Detected ${detectedAssets.length} relevant coins`);
+    emit('token_detection', 'completed', `Detected ${detectedAssets.length} relevant coins`, { detectedAssets });
+
+    emit('synonyms', 'started', 'Generating search queries');
+    const synonymResponse = await this.synonymGeneratorService.generateSynonyms(validation.sanitizedQuery);
+    console.log(`📝 Generated ${synonymResponse.synonyms.length} search queries`);
+    emit('synonyms', 'completed', `Generated ${synonymResponse.synonyms.length} search queries`, { synonyms: synonymResponse.synonyms });
+
+    emit('search', 'started', `Searching with ${searchEngine}`);
+    const allQueries = [validation.sanitizedQuery, ...synonymResponse.synonyms];
+    let searchResults: any;
+    switch (searchEngine) {
+      case 'exa':
+        searchResults = await this.searchService.searchExaOnly(allQueries);
+        break;
+      case 'tavily':
+        searchResults = await this.searchService.searchTavilyOnly(allQueries);
+        break;
+      case 'dual':
+      default:
+        searchResults = await this.searchService.searchDualEngine(allQueries);
+        break;
+    }
+    console.log(`🔍 Found ${searchResults.urls.length} URLs from ${searchEngine} search`);
+    emit('search', 'completed', `Found ${searchResults.urls.length} URLs from ${searchEngine} search`, { urlCount: searchResults.urls.length });
+
+    emit('scrape', 'started', `Scraping up to ${maxUrls} URLs`);
+    const knownUrls = new Set(session?.sources.map(source => source.url) || []);
+    const newUrls: string[] = searchResults.urls.filter((url: string) => !knownUrls.has(url)).slice(0, maxUrls);
+    const scrapedContents: ScrapedContent[] = [];
+    let scrapeOutcomes: ScrapeOutcome[] = [];
+    try {
+      const scrapeReport = await this.webScraper.scrapeAll(newUrls, getScrapingConfig(searchEngine));
+      scrapeOutcomes = scrapeReport.outcomes;
+
+      for (const result of scrapeReport.results) {
+        scrapedContents.push({
+          url: result.url,
+          title: result.title,
+          content: result.content,
+          timestamp: new Date(),
+          publishedDate: result.publishedDate ? new Date(result.publishedDate) : undefined,
+          publishedDateString: result.publishedDate || undefined
+        });
+      }
+    } catch (error) {
+      console.error('Scraping failed:', error);
+    }
+    const reusedSources = (session?.sources || [])
+      .slice(0, Math.max(0, config.sessions.maxSources - scrapedContents.length))
+      .map(fromSessionSource);
+    if (reusedSources.length > 0) {
+      console.log(`🧵 Reusing ${reusedSources.length} sources from earlier turns`);
+      scrapedContents.push(...reusedSources);
+    }
+    emit('scrape', 'completed', `Scraped ${scrapedContents.length - reusedSources.length} sources${reusedSources.length > 0 ? `, reused ${reusedSources.length}` : ''}`, {
+      sources: scrapedContents.map(content => ({ url: content.url, title: content.title })),
+      outcomes: scrapeOutcomes
+    });
+
+    emit('retrieval', 'started', 'Retrieving relevant passages from scraped content');
+    let excerpts: Record<string, RetrievedChunk[]> = {};
+    try {
+      const retrievalQueries = buildRetrievalQueries(validation.sanitizedQuery, detectedAssets, synonymResponse.synonyms);
+      const retrieval = await this.contentRetriever.retrieve(scrapedContents, retrievalQueries);
+      excerpts = retrieval.excerpts;
+      emit('retrieval', 'completed', `Retrieved excerpts for ${Object.keys(excerpts).length} sources`, {
+        store: retrieval.store,
+        embeddingModel: retrieval.embeddingModel,
+        chunkCount: retrieval.chunkCount
+      });
+    } catch (error: any) {
+      console.warn('⚠️ Vector retrieval failed, using leading page content instead:', error.message);
+      emit('retrieval', 'completed', 'Retrieval unavailable, using leading page content');
+    }
+
+    emit('market_data', 'started', 'Fetching live market data');
+    const marketData: Record<string, any> = {};
+    for (const asset of detectedAssets) {
+      const snapshot = session?.marketSnapshots[asset.id];
+      if (snapshot && Date.now() - Date.parse(snapshot.capturedAt) < config.sessions.marketDataMaxAgeMs) {
+        marketData[asset.id] = snapshot.data;
+      }
+    }
+    const staleAssets = detectedAssets.filter(asset => !marketData[asset.id]);
+    if (staleAssets.length > 0) {
+      Object.assign(marketData, await this.marketDataService.fetchDetailedCoinData(staleAssets));
+    }
+    emit('market_data', 'completed', `Fetched market data for ${Object.keys(marketData).length} coins`);
+
+    emit('indicators', 'started', 'Computing technical indicators from historical OHLC data');
+    const technicalSnapshots = await this.technicalAnalysisService.analyzeAssets(detectedAssets);
+    emit('indicators', 'completed', `Computed technical indicators for ${technicalSnapshots.length} coins`);
+
+    emit('correlation', 'started', 'Comparing returns with BTC and ETH');
+    const crossAsset = await this.correlationService.analyzeAssets(detectedAssets);
+    emit('correlation', 'completed', crossAsset ? `Computed correlation and beta for ${crossAsset.assets.length} coins` : 'No price history for a correlation analysis');
+
+    let onChainMetrics: OnChainTransferMetrics[] = [];
+    if (this.onChainService.enabled) {
+      emit('onchain', 'started', 'Reading ERC-20 transfer activity from the chain');
+      onChainMetrics = await this.onChainService.analyzeAssets(detectedAssets, marketData);
+      emit('onchain', 'completed', `Analyzed on-chain transfers for ${onChainMetrics.length} tokens`, {
+        tokens: onChainMetrics.map(item => ({ id: item.assetId, address: item.token.address, transfers: item.transferCount, largeTransfers: item.largeTransfers.length }))
+      });
+    }
+
+    let holderDistributions: HolderDistribution[] = [];
+    if (this.holderDistributionService.enabled) {
+      emit('holders', 'started', 'Computing token holder distribution');
+      holderDistributions = await this.holderDistributionService.analyzeAssets(detectedAssets);
+      emit('holders', 'completed', `Computed holder distribution for ${holderDistributions.length} tokens`, {
+        holders: holderDistributions.map(item => ({ id: item.assetId, holders: item.current.holderCount, top10: item.current.topShares.top10, gini: item.current.gini }))
+      });
+    }
+
+    let dexLiquidity: DexLiquidityAnalysis[] = [];
+    if (this.dexLiquidityService.enabled) {
+      emit('liquidity', 'started', 'Reading DEX pool liquidity and price impact');
+      dexLiquidity = await this.dexLiquidityService.analyzeAssets(detectedAssets, marketData);
+      emit('liquidity', 'completed', `Analyzed DEX liquidity for ${dexLiquidity.length} tokens`, {
+        liquidity: dexLiquidity.map(item => ({ id: item.assetId, pools: item.pools.length, tvlUsd: item.totalTvlUsd, priceDeviation: item.priceDeviation }))
+      });
+    }
+
+    let socialSentiment: AssetSentiment[] = [];
+    if (this.socialSentimentService.enabled) {
+      emit('sentiment', 'started', 'Collecting social posts and scoring sentiment');
+      socialSentiment = await this.socialSentimentService.analyzeAssets(detectedAssets);
+      emit('sentiment', 'completed', `Scored social sentiment for ${socialSentiment.length} coins`, {
+        sentiment: socialSentiment.map(item => ({ id: item.id, label: item.label, score: item.score, posts: item.postCount, flagged: item.flaggedCount }))
+      });
+    }
+
+    let quoteCurrency: { code: string; rate: number } | null = null;
+    const currency = (options.currency || 'usd').toLowerCase();
+    if (currency !== 'usd') {
+      try {
+        quoteCurrency = { code: currency, rate: await this.marketDataService.getExchangeRate(currency) };
+      } catch (error: any) {
+        console.warn(`⚠️ No exchange rate for ${currency.toUpperCase()}, reporting prices in USD:`, error.message);
+      }
+    }
+
+    emit('analysis', 'started', 'Generating final analysis');
+    const prompt = createAnalysisPrompt(scrapedContents, synonymResponse, marketData, technicalSnapshots, excerpts, socialSentiment, onChainMetrics, holderDistributions, dexLiquidity, session?.turns || [], quoteCurrency, crossAsset);
+    let analysis: string;
+    let report: AnalysisReport | null = null;
+    let citationIssues: CitationIssue[] = [];
+    try {
+      const generated = await this.analysisGenerator.generateReport(prompt, detectedAssets.map(asset => asset.id));
+      report = attachReferences(generated.report, scrapedContents);
+      if (holderDistributions.length > 0) report.holderDistributions = holderDistributions;
+      if (quoteCurrency) report.currency = quoteCurrency.code;
+      if (crossAsset) report.crossAsset = crossAsset;
+      report.tokenResolutions = detectedAssets.filter(asset => asset.resolution).map(asset => ({ ...asset, resolution: asset.resolution! }));
+      analysis = renderReportMarkdown(report);
+      citationIssues = report.citationIssues || [];
+    } catch (error) {
+      console.error('⚠️ Structured report generation failed, falling back to free-form analysis:', error);
+      try {
+        analysis = await this.analysisGenerator.generateFinalAnalysis(prompt);
+        const references = buildReferences(scrapedContents);
+        const cited = new Set(extractInlineCitations(analysis));
+        citationIssues = checkMarkdownCitations(analysis, references);
+        analysis += renderTokenResolutions(detectedAssets);
+        if (holderDistributions.length > 0) {
+          analysis += `\n\n## Holder Distribution\n\n${renderHolderSection(holderDistributions)}`;
+        }
+        if (crossAsset) {
+          analysis += `\n\n## Relative Performance & Correlation\n\n${renderCrossAssetSection(crossAsset)}`;
+        }
+        analysis += renderReferences(references.filter(reference => cited.has(reference.index)));
+        analysis += renderCitationIssues(citationIssues);
+      } catch (fallbackError) {
+        console.error('Failed to generate analysis:', fallbackError);
+        analysis = 'Analysis generation failed.';
+      }
+    }
+    if (citationIssues.length > 0) {
+      console.warn(`⚠️ Citation check flagged ${citationIssues.length} issues`);
+    }
+    emit('analysis', 'completed', report ? 'Structured report generated' : 'Analysis generated', {
+      structured: !!report,
+      citationIssues: citationIssues.length
+    });
+
+    return {
+      ok: true,
+      query,
+      resolvedQuery,
+      sanitizedQuery: validation.sanitizedQuery,
+      searchEngine,
+      currency: quoteCurrency?.code ?? 'usd',
+      exchangeRate: quoteCurrency?.rate ?? 1,
+      detectedAssets,
+      synonyms: synonymResponse.synonyms,
+      sources: scrapedContents,
+      reusedSourceCount: reusedSources.length,
+      scrapeOutcomes,
+      marketData,
+      technicalSnapshots,
+      crossAsset,
+      onChainMetrics,
+      holderDistributions,
+      dexLiquidity,
+      socialSentiment,
+      prompt,
+      report,
+      analysis,
+      citationIssues,
+      durationMs: Date.now() - startTime
+    };
+  }
+
+  async cleanup(): Promise<void> {
+    await this.webScraper.cleanup();
+  }
+}
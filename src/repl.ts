@@ -0,0 +1,237 @@
+import { createInterface, Interface } from 'readline/promises';
+import { AnalysisPipeline, PipelineResult, PipelineSuccess, resolveSearchEngine, SearchEngine } from './pipeline.js';
+import { MarketDataService } from './services/market-data.js';
+import { formatForFile, parseReportFormats, ReportExporter } from './services/report-export.js';
+import { recordSessionTurn, SessionStore } from './services/sessions.js';
+import { AnalysisSession, TokenAmbiguity } from './types/index.js';
+
+export function formatUsdCompact(value: number | null): string {
+  if (!value) return 'N/A';
+  return value >= 1e9 ? `$${(value / 1e9).toFixed(2)}B` : `$${(value / 1e6).toFixed(1)}M`;
+}
+
+/**
+ * Lets the user pick a candidate for each ambiguous token; Enter takes the best-ranked one
+ */
+export async function promptForChoices(ambiguities: TokenAmbiguity[], rl?: Interface): Promise<Record<string, string>> {
+  const readline = rl || createInterface({ input: process.stdin, output: process.stdout });
+  const choices: Record<string, string> = {};
+  try {
+    for (const ambiguity of ambiguities) {
+      console.log(`\n🔀 "${ambiguity.token}" matches several coins:`);
+      ambiguity.candidates.forEach((candidate, index) => {
+        console.log(`   ${index + 1}. ${candidate.name} (${candidate.symbol.toUpperCase()}) - ID: ${candidate.id}, market cap ${formatUsdCompact(candidate.marketCap)}, 24h volume ${formatUsdCompact(candidate.volume)}`);
+      });
+      const answer = (await readline.question(`Choose 1-${ambiguity.candidates.length} [1]: `)).trim();
+      const index = answer ? parseInt(answer, 10) - 1 : 0;
+      const candidate = ambiguity.candidates[index] || ambiguity.candidates[0];
+      choices[ambiguity.token] = candidate.id;
+    }
+  } finally {
+    if (!rl) readline.close();
+  }
+  return choices;
+}
+
+const COMMANDS: Array<[string, string]> = [
+  ['/assets', 'coins detected by the last query, with price and 24h change'],
+  ['/sources', 'sources used by the last query, with published dates'],
+  ['/prompt', 'the analysis prompt built for the last query'],
+  ['/engine [exa|tavily|dual]', 'show or switch the search engine'],
+  ['/refresh', 'reload the knowledge base from the market data provider'],
+  ['/export [formats|file]', 'save the last analysis as a report (markdown, html, json, or a .md/.html/.json path)'],
+  ['/session', 'show the conversation session id'],
+  ['/new', 'start a new conversation session'],
+  ['/help', 'show this list'],
+  ['/exit', 'leave the shell']
+];
+
+/**
+ * Interactive shell: queries run through one long-lived pipeline, so the knowledge base, token index and
+ * browser stay warm, and consecutive queries form a conversation session
+ */
+export class AnalysisRepl {
+  private marketDataService = new MarketDataService();
+  private pipeline = new AnalysisPipeline({ marketDataService: this.marketDataService });
+  private sessionStore = new SessionStore();
+  private exporter = new ReportExporter();
+  private session: AnalysisSession;
+  private engine: SearchEngine;
+  private last: PipelineSuccess | null = null;
+  private rl!: Interface;
+  private abort = new AbortController();
+
+  constructor(searchEngine?: string) {
+    this.engine = resolveSearchEngine(searchEngine);
+    this.session = this.sessionStore.create();
+  }
+
+  async start(): Promise<void> {
+    this.rl = createInterface({ input: process.stdin, output: process.stdout });
+    this.rl.on('close', () => this.abort.abort());
+    this.rl.on('SIGINT', () => this.rl.close());
+
+    console.log('🧠 Crypto analysis shell. Type a question, or /help for commands.');
+    console.log(`🔍 Search Engine: ${this.engine.toUpperCase()}`);
+    try {
+      await this.marketDataService.setupKnowledgeBase();
+    } catch (error: any) {
+      console.warn('⚠️ Knowledge base unavailable, it will be retried with the first query:', error.message);
+    }
+
+    try {
+      while (true) {
+        let line: string;
+        try {
+          line = (await this.rl.question('\ncrypto> ', { signal: this.abort.signal })).trim();
+        } catch {
+          break;
+        }
+        if (!line) continue;
+
+        try {
+          if (line.startsWith('/')) {
+            if (!(await this.command(line))) break;
+          } else {
+            await this.analyze(line);
+          }
+        } catch (error: any) {
+          console.error('❌', error?.message || error);
+        }
+      }
+    } finally {
+      this.rl.close();
+      await this.pipeline.cleanup();
+      console.log('👋 Bye');
+    }
+  }
+
+  private async analyze(query: string): Promise<void> {
+    const started = Date.now();
+    const options = { searchEngine: this.engine, session: this.session };
+    let result: PipelineResult = await this.pipeline.run(query, options);
+
+    if (!result.ok && result.code === 'AMBIGUOUS_TOKEN' && result.ambiguities) {
+      const tokenChoices = await promptForChoices(result.ambiguities, this.rl);
+      result = await this.pipeline.run(query, { ...options, tokenChoices });
+    }
+
+    if (!result.ok) {
+      console.log(`❌ ${result.error}`);
+      if (result.suggestions && result.suggestions.length > 0) {
+        console.log(`💡 Did you mean: ${result.suggestions.map(suggestion => `${suggestion.name} (${suggestion.id})`).join(', ')}?`);
+      }
+      return;
+    }
+
+    this.last = result;
+    console.log('\n📊 FINAL ANALYSIS:\n');
+    console.log(result.analysis);
+
+    recordSessionTurn(this.session, result);
+    await this.sessionStore.save(this.session).catch(error => console.warn('⚠️ Could not save session:', error.message));
+    console.log(`\n⏱️ ${((Date.now() - started) / 1000).toFixed(1)}s · ${result.sources.length} sources · /sources /prompt /export`);
+  }
+
+  /**
+   * Runs a slash command; returns false when the shell should exit
+   */
+  private async command(line: string): Promise<boolean> {
+    const [name, ...args] = line.split(/\s+/);
+
+    switch (name.toLowerCase()) {
+      case '/help':
+        for (const [usage, description] of COMMANDS) {
+          console.log(`   ${usage.padEnd(28)} ${description}`);
+        }
+        console.log('   Follow-up questions ("and its staking yield?") continue the current session.');
+        return true;
+
+      case '/assets': {
+        if (!this.last) {
+          console.log('No query has run yet.');
+          return true;
+        }
+        for (const asset of this.last.detectedAssets) {
+          const quote = this.last.marketData[asset.id];
+          const change = typeof quote?.price_change_24h === 'number' ? ` (${quote.price_change_24h > 0 ? '+' : ''}${quote.price_change_24h.toFixed(2)}% 24h)` : '';
+          const picked = asset.resolution && asset.resolution.method !== 'unique' ? ` · "${asset.resolution.token}" ${asset.resolution.method === 'choice' ? 'chosen' : 'auto-picked'}` : '';
+          console.log(`🪙 ${asset.name} (${asset.symbol.toUpperCase()}) - ${asset.id}${quote ? ` · $${quote.current_price}${change}` : ''}${picked}`);
+        }
+        if (this.last.detectedAssets.length === 0) console.log('No coins were detected.');
+        return true;
+      }
+
+      case '/sources': {
+        if (!this.last) {
+          console.log('No query has run yet.');
+          return true;
+        }
+        const reusedFrom = this.last.sources.length - this.last.reusedSourceCount;
+        this.last.sources.forEach((source, index) => {
+          const reused = index >= reusedFrom ? ' (from an earlier turn)' : '';
+          console.log(`${index + 1}. ${source.title}${reused}`);
+          console.log(`   ${source.url} · published ${source.publishedDateString || 'unknown'}`);
+        });
+        if (this.last.sources.length === 0) console.log('No sources were scraped.');
+        return true;
+      }
+
+      case '/prompt':
+        console.log(this.last ? this.last.prompt : 'No query has run yet.');
+        return true;
+
+      case '/engine': {
+        if (args.length === 0) {
+          console.log(`🔍 Search Engine: ${this.engine.toUpperCase()}`);
+          return true;
+        }
+        const requested = args[0].toLowerCase();
+        if (!['exa', 'tavily', 'dual'].includes(requested)) {
+          console.log('Usage: /engine exa|tavily|dual');
+          return true;
+        }
+        this.engine = resolveSearchEngine(requested);
+        console.log(`🔍 Search Engine: ${this.engine.toUpperCase()}${this.engine !== requested ? ` (${requested} needs ENABLE_EXA=true)` : ''}`);
+        return true;
+      }
+
+      case '/refresh':
+        await this.marketDataService.setupKnowledgeBase(true);
+        console.log(`🔄 Knowledge base reloaded (${this.marketDataService.knowledgeBaseSize} assets)`);
+        return true;
+
+      case '/export': {
+        if (!this.last) {
+          console.log('No analysis to export yet.');
+          return true;
+        }
+        const files = args.length === 1 && formatForFile(args[0])
+          ? [await this.exporter.exportTo(this.last, args[0])]
+          : await this.exporter.export(this.last, parseReportFormats(args.join(',') || undefined));
+        for (const file of files) {
+          console.log(`💾 Exported to ${file}`);
+        }
+        return true;
+      }
+
+      case '/session':
+        console.log(`🧵 Session ${this.session.id} (${this.session.turns.length} turns). Resume later with: npm start -- --session ${this.session.id} "..."`);
+        return true;
+
+      case '/new':
+        this.session = this.sessionStore.create();
+        this.last = null;
+        console.log(`🧵 Started session ${this.session.id}`);
+        return true;
+
+      case '/exit':
+      case '/quit':
+        return false;
+
+      default:
+        console.log(`Unknown command ${name}. Type /help for the list.`);
+        return true;
+    }
+  }
+}
@@ -0,0 +1,387 @@
+import "dotenv/config";
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { config } from './config.js';
+import { AnalysisPipeline, PipelineProgressEvent, PipelineResult } from './pipeline.js';
+import { recordSessionTurn, SessionStore } from './services/sessions.js';
+import { AnalysisSession } from './types/index.js';
+
+interface AnalysisRun {
+  id: string;
+  query: string;
+  searchEngine?: string;
+  tokenChoices?: Record<string, string>;
+  autoPick?: boolean;
+  sessionId?: string;
+  status: 'running' | 'completed' | 'failed';
+  createdAt: Date;
+  events: Array<{ event: string; data: unknown }>;
+  subscribers: Set<ServerResponse>;
+  result?: PipelineResult;
+}
+
+const runs = new Map<string, AnalysisRun>();
+// Sessions with a turn in flight, claimed before the session is loaded so two requests cannot both start one
+const busySessions = new Set<string>();
+const pipeline = new AnalysisPipeline();
+const sessionStore = new SessionStore();
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, statusCode: number, code: string, message: string, extra: Record<string, unknown> = {}): void {
+  sendJson(res, statusCode, { error: { code, message, ...extra } });
+}
+
+function writeSseEvent(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > config.server.maxBodyBytes) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : {};
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringMap(value: unknown): value is Record<string, string> {
+  return isPlainObject(value) && Object.values(value).every(item => typeof item === 'string');
+}
+
+function toErrorBody(result: PipelineResult): { error: Record<string, unknown> } | null {
+  if (result.ok) return null;
+  return {
+    error: {
+      code: result.code,
+      stage: result.stage,
+      message: result.error,
+      suggestions: result.suggestions?.map(s => ({ id: s.id, name: s.name, symbol: s.symbol.toUpperCase() })),
+      ambiguities: result.ambiguities
+    }
+  };
+}
+
+function serializeRun(run: AnalysisRun): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    runId: run.id,
+    query: run.query,
+    ...(run.sessionId ? { sessionId: run.sessionId } : {}),
+    status: run.status,
+    createdAt: run.createdAt.toISOString()
+  };
+
+  if (run.result?.ok) {
+    const { prompt, ...result } = run.result;
+    body.result = result;
+  } else if (run.result) {
+    Object.assign(body, toErrorBody(run.result));
+  }
+
+  return body;
+}
+
+function publish(run: AnalysisRun, event: string, data: unknown): void {
+  run.events.push({ event, data });
+  for (const subscriber of run.subscribers) {
+    writeSseEvent(subscriber, event, data);
+  }
+}
+
+function closeSubscribers(run: AnalysisRun): void {
+  for (const subscriber of run.subscribers) {
+    subscriber.end();
+  }
+  run.subscribers.clear();
+}
+
+function pruneRuns(): void {
+  const cutoff = Date.now() - config.server.runRetentionMs;
+  for (const [id, run] of runs) {
+    if (run.status !== 'running' && run.createdAt.getTime() < cutoff) {
+      runs.delete(id);
+    }
+  }
+}
+
+function startRun(query: string, searchEngine?: string, tokenChoices?: Record<string, string>, autoPick?: boolean, session?: AnalysisSession): AnalysisRun {
+  const run: AnalysisRun = {
+    id: randomUUID(),
+    query,
+    searchEngine,
+    tokenChoices,
+    autoPick,
+    sessionId: session?.id,
+    status: 'running',
+    createdAt: new Date(),
+    events: [],
+    subscribers: new Set()
+  };
+  runs.set(run.id, run);
+
+  pipeline.run(query, {
+    searchEngine: searchEngine || session?.searchEngine,
+    tokenChoices,
+    autoPick,
+    session,
+    onProgress: (event: PipelineProgressEvent) => publish(run, 'progress', event)
+  })
+    .then(async result => {
+      if (session && result.ok) {
+        recordSessionTurn(session, result);
+        await sessionStore.save(session).catch(error => console.warn(`⚠️ Could not save session ${session.id}:`, error.message));
+      }
+      run.result = result;
+      run.status = result.ok ? 'completed' : 'failed';
+      if (result.ok) {
+        publish(run, 'result', serializeRun(run).result);
+      } else {
+        publish(run, 'error', toErrorBody(result));
+      }
+    })
+    .catch((error: any) => {
+      console.error(`❌ Analysis run ${run.id} failed:`, error);
+      run.status = 'failed';
+      publish(run, 'error', { error: { code: 'PIPELINE_ERROR', message: error?.message || String(error) } });
+    })
+    .finally(() => {
+      if (session) busySessions.delete(session.id);
+      closeSubscribers(run);
+    });
+
+  return run;
+}
+
+async function handleAnalyze(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (error: any) {
+    sendError(res, 400, 'INVALID_REQUEST', error?.message || 'Invalid JSON body');
+    return;
+  }
+  if (!isPlainObject(body)) {
+    sendError(res, 400, 'INVALID_REQUEST', 'Request body must be a JSON object');
+    return;
+  }
+
+  const query = typeof body.query === 'string' ? body.query.trim() : '';
+  if (!query) {
+    sendError(res, 400, 'INVALID_REQUEST', 'Field "query" is required');
+    return;
+  }
+
+  const searchEngine = body.searchEngine;
+  if (searchEngine !== undefined && (typeof searchEngine !== 'string' || !['exa', 'tavily', 'dual'].includes(searchEngine))) {
+    sendError(res, 400, 'INVALID_REQUEST', 'Field "searchEngine" must be one of: exa, tavily, dual');
+    return;
+  }
+
+  const tokenChoices = body.tokenChoices;
+  if (tokenChoices !== undefined && !isStringMap(tokenChoices)) {
+    sendError(res, 400, 'INVALID_REQUEST', 'Field "tokenChoices" must map query tokens to coin ids, e.g. { "pear": "pear-protocol" }');
+    return;
+  }
+
+  const autoPick = body.autoPick;
+  if (autoPick !== undefined && typeof autoPick !== 'boolean') {
+    sendError(res, 400, 'INVALID_REQUEST', 'Field "autoPick" must be a boolean');
+    return;
+  }
+
+  const sessionId = body.sessionId;
+  let session: AnalysisSession | undefined;
+  if (sessionId !== undefined) {
+    if (typeof sessionId !== 'string') {
+      sendError(res, 400, 'INVALID_REQUEST', 'Field "sessionId" must be a string');
+      return;
+    }
+    // Turns of one session run one at a time, each building on the saved result of the previous one
+    if (busySessions.has(sessionId)) {
+      sendError(res, 409, 'SESSION_BUSY', `Session ${sessionId} already has a running analysis`);
+      return;
+    }
+    busySessions.add(sessionId);
+    try {
+      session = (await sessionStore.load(sessionId)) ?? undefined;
+    } finally {
+      // Once the run starts, it releases the session when it settles
+      if (!session) busySessions.delete(sessionId);
+    }
+    if (!session) {
+      sendError(res, 404, 'SESSION_NOT_FOUND', `No session with id ${sessionId}`);
+      return;
+    }
+  }
+
+  pruneRuns();
+  const run = startRun(query, searchEngine, tokenChoices, autoPick, session);
+  console.log(`🚀 Started analysis run ${run.id} for: "${query}"`);
+
+  sendJson(res, 202, {
+    runId: run.id,
+    status: run.status,
+    links: {
+      self: `/analyze/${run.id}`,
+      events: `/analyze/${run.id}/events`
+    }
+  });
+}
+
+function handleRunStatus(res: ServerResponse, run: AnalysisRun): void {
+  if (run.result && !run.result.ok) {
+    const statusCode = run.result.code === 'INVALID_QUERY' ? 400
+      : run.result.code === 'KNOWLEDGE_BASE_UNAVAILABLE' ? 503
+      : run.result.code === 'AMBIGUOUS_TOKEN' ? 409
+      : 422;
+    sendJson(res, statusCode, serializeRun(run));
+    return;
+  }
+  sendJson(res, 200, serializeRun(run));
+}
+
+function handleRunEvents(req: IncomingMessage, res: ServerResponse, run: AnalysisRun): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  for (const { event, data } of run.events) {
+    writeSseEvent(res, event, data);
+  }
+
+  if (run.status !== 'running') {
+    res.end();
+    return;
+  }
+
+  run.subscribers.add(res);
+  req.on('close', () => run.subscribers.delete(res));
+}
+
+async function handleSessions(req: IncomingMessage, res: ServerResponse, segments: string[]): Promise<void> {
+  if (segments.length === 1 && req.method === 'POST') {
+    const session = sessionStore.create();
+    await sessionStore.save(session);
+    sendJson(res, 201, { sessionId: session.id, links: { self: `/sessions/${session.id}` } });
+    return;
+  }
+
+  if (segments.length === 1 && req.method === 'GET') {
+    sendJson(res, 200, { sessions: await sessionStore.list() });
+    return;
+  }
+
+  if (segments.length === 2 && req.method === 'GET') {
+    const session = await sessionStore.load(segments[1]);
+    if (!session) {
+      sendError(res, 404, 'SESSION_NOT_FOUND', `No session with id ${segments[1]}`);
+      return;
+    }
+    // Page text stays on disk; clients only need to know what was read
+    sendJson(res, 200, {
+      ...session,
+      sources: session.sources.map(({ content, ...source }) => source)
+    });
+    return;
+  }
+
+  sendError(res, 404, 'NOT_FOUND', `No route for ${req.method} /${segments.join('/')}`);
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    sendJson(res, 200, {
+      status: 'healthy',
+      services: {
+        openai: !!config.openai.apiKey,
+        google: !!config.google.apiKey,
+        exa: !!config.exa.apiKey,
+        tavily: !!config.tavily.apiKey,
+        coingecko: !!config.coingecko.apiKey
+      },
+      activeRuns: [...runs.values()].filter(run => run.status === 'running').length
+    });
+    return;
+  }
+
+  if (segments[0] === 'sessions') {
+    await handleSessions(req, res, segments);
+    return;
+  }
+
+  if (segments[0] !== 'analyze') {
+    sendError(res, 404, 'NOT_FOUND', `No route for ${req.method} ${url.pathname}`);
+    return;
+  }
+
+  if (segments.length === 1) {
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Use POST /analyze');
+      return;
+    }
+    await handleAnalyze(req, res);
+    return;
+  }
+
+  const run = runs.get(segments[1]);
+  if (!run) {
+    sendError(res, 404, 'RUN_NOT_FOUND', `No analysis run with id ${segments[1]}`);
+    return;
+  }
+
+  if (req.method === 'GET' && segments.length === 2) {
+    handleRunStatus(res, run);
+    return;
+  }
+
+  if (req.method === 'GET' && segments.length === 3 && segments[2] === 'events') {
+    handleRunEvents(req, res, run);
+    return;
+  }
+
+  sendError(res, 404, 'NOT_FOUND', `No route for ${req.method} ${url.pathname}`);
+}
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    console.error('❌ Request handling failed:', error);
+    if (!res.headersSent) {
+      sendError(res, 500, 'INTERNAL_ERROR', 'Internal server error');
+    } else {
+      res.end();
+    }
+  });
+});
+
+server.listen(config.server.port, config.server.host, () => {
+  console.log(`🌐 Analysis API listening on http://${config.server.host}:${config.server.port}`);
+});
+
+async function shutdown() {
+  console.log('🛑 Shutting down analysis API...');
+  server.close();
+  await pipeline.cleanup();
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,82 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { AlertEngine } from './alerts.js';
+import type { MarketDataService } from './market-data.js';
+import { AlertsDefinition, AugmentedCoinData } from '../types/index.js';
+
+const BITCOIN = { id: 'bitcoin', symbol: 'btc', name: 'Bitcoin' };
+
+/** A market data stand-in that quotes whatever price the test sets */
+function fakeMarketData(price: { current: number }): MarketDataService {
+  return {
+    setupKnowledgeBase: async () => 1,
+    findAsset: (id: string) => (id === BITCOIN.id ? BITCOIN : undefined),
+    fetchDetailedCoinData: async () => ({ bitcoin: { ...BITCOIN, current_price: price.current } as unknown as AugmentedCoinData })
+  } as unknown as MarketDataService;
+}
+
+describe('AlertEngine delivery', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'alerts-'));
+  const received: unknown[] = [];
+  let webhookStatus = 400;
+  const webhook = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      if (webhookStatus === 200) received.push(JSON.parse(body));
+      response.statusCode = webhookStatus;
+      response.end();
+    });
+  });
+  let url = '';
+
+  before(async () => {
+    // Keep the engine's progress lines out of the test runner's output stream
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+    await new Promise<void>(resolve => webhook.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(webhook.address() as AddressInfo).port}/hook`;
+  });
+  after(async () => {
+    mock.restoreAll();
+    await new Promise(resolve => webhook.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('keeps the crossing and the cooldown uncommitted until a webhook accepts the alert', async () => {
+    const price = { current: 90 };
+    const definition: AlertsDefinition = {
+      webhooks: [{ id: 'ops', url }],
+      rules: [{ id: 'btc-100', assetId: 'bitcoin', type: 'price_cross', level: 100, cooldownMinutes: 60 }]
+    };
+    const statePath = path.join(directory, 'state.json');
+    const engine = new AlertEngine(definition, fakeMarketData(price), null, statePath);
+    await engine.init();
+
+    assert.equal((await engine.poll()).length, 0);
+
+    // The webhook rejects the crossing: nothing is committed
+    price.current = 110;
+    assert.equal((await engine.poll()).length, 1);
+    assert.deepEqual(received, []);
+    assert.deepEqual(JSON.parse(fs.readFileSync(statePath, 'utf8')), { 'btc-100': { lastSide: 'below' } });
+
+    // Still above the level once the webhook recovers, so the same crossing is delivered
+    webhookStatus = 200;
+    assert.equal((await engine.poll()).length, 1);
+    assert.equal(received.length, 1);
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf8'))['btc-100'];
+    assert.equal(state.lastSide, 'above');
+    assert.equal(state.lastFingerprint, 'btc-100:above');
+
+    // Delivered once: staying above does not fire again
+    assert.equal((await engine.poll()).length, 0);
+    assert.equal(received.length, 1);
+  });
+});
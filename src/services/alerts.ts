@@ -0,0 +1,414 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import axios from 'axios';
+import { config } from "../config.js";
+import type { MarketDataService } from "./market-data.js";
+import type { AnalysisPipeline } from "../pipeline.js";
+import {
+  AlertEvent,
+  AlertRule,
+  AlertsDefinition,
+  AlertWebhook,
+  AugmentedCoinData,
+  CoinInfo
+} from "../types/index.js";
+
+interface RuleState {
+  lastSide?: 'above' | 'below';
+  active?: boolean;
+  baselineRank?: number;
+  lastTriggeredAt?: string;
+  lastFingerprint?: string;
+}
+
+type AlertState = Record<string, RuleState>;
+
+export interface RuleEvaluation {
+  fingerprint: string;
+  message: string;
+  value: number;
+  threshold: number;
+}
+
+const RULE_TYPES = ['price_cross', 'change_24h', 'volume_spike', 'rank_change'];
+
+/**
+ * Reads and validates alert rules and webhooks; invalid entries are reported rather than silently dropped
+ */
+export async function loadAlerts(filePath: string = config.alerts.file): Promise<AlertsDefinition> {
+  let raw: any;
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read alerts from ${filePath}: ${error.message}`);
+  }
+
+  const webhooks: AlertWebhook[] = Array.isArray(raw?.webhooks) ? raw.webhooks : [];
+  const rules: AlertRule[] = Array.isArray(raw?.rules) ? raw.rules : [];
+  const errors: string[] = [];
+  const webhookIds = new Set(webhooks.map(webhook => webhook.id));
+
+  webhooks.forEach((webhook, index) => {
+    if (!webhook?.id) errors.push(`webhook #${index + 1}: "id" is required`);
+    if (!/^https?:\/\//.test(webhook?.url || '')) errors.push(`webhook ${webhook?.id || index + 1}: "url" must be http(s)`);
+  });
+
+  const ruleIds = new Set<string>();
+  rules.forEach((rule, index) => {
+    const label = rule?.id ? `rule "${rule.id}"` : `rule #${index + 1}`;
+    if (!rule?.id) errors.push(`${label}: "id" is required`);
+    else if (ruleIds.has(rule.id)) errors.push(`${label}: duplicate id`);
+    else ruleIds.add(rule.id);
+    if (!rule?.assetId) errors.push(`${label}: "assetId" (CoinGecko id) is required`);
+    if (!RULE_TYPES.includes(rule?.type)) errors.push(`${label}: "type" must be one of ${RULE_TYPES.join(', ')}`);
+    if (rule?.type === 'price_cross' && !(rule.level! > 0)) errors.push(`${label}: price_cross needs a positive "level"`);
+    if (rule?.type === 'change_24h' && !(rule.thresholdPercent! > 0)) errors.push(`${label}: change_24h needs a positive "thresholdPercent"`);
+    if (rule?.type === 'volume_spike' && !(rule.multiplier! > 1)) errors.push(`${label}: volume_spike needs a "multiplier" above 1`);
+    if (rule?.type === 'rank_change' && !(rule.minRankChange! >= 1)) errors.push(`${label}: rank_change needs "minRankChange" of at least 1`);
+    for (const webhookId of rule?.webhooks || []) {
+      if (!webhookIds.has(webhookId)) errors.push(`${label}: unknown webhook "${webhookId}"`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid alerts in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return { webhooks, rules };
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+/**
+ * Evaluates one rule against a fresh quote and updates its state. Conditions are edge-triggered: a rule fires when
+ * its condition becomes true and re-arms only once it has been false again. Returns null when nothing fired.
+ */
+export function evaluateRule(
+  rule: AlertRule,
+  quote: AugmentedCoinData,
+  state: RuleState,
+  trailingAverageVolume: number | null = null
+): RuleEvaluation | null {
+  const symbol = quote.symbol.toUpperCase();
+  const direction = rule.direction || 'either';
+
+  switch (rule.type) {
+    case 'price_cross': {
+      const level = rule.level!;
+      const side = quote.current_price >= level ? 'above' : 'below';
+      const previousSide = state.lastSide;
+      state.lastSide = side;
+      if (!previousSide || previousSide === side || (direction !== 'either' && direction !== side)) return null;
+      return {
+        fingerprint: `${rule.id}:${side}`,
+        message: `${symbol} crossed ${side} $${level} (now $${quote.current_price})`,
+        value: quote.current_price,
+        threshold: level
+      };
+    }
+
+    case 'change_24h': {
+      const change = quote.price_change_24h;
+      const threshold = rule.thresholdPercent!;
+      const condition = direction === 'above' ? change >= threshold
+        : direction === 'below' ? change <= -threshold
+        : Math.abs(change) >= threshold;
+      const wasActive = state.active;
+      state.active = condition;
+      if (!condition || wasActive) return null;
+      return {
+        fingerprint: `${rule.id}:${change >= 0 ? 'up' : 'down'}`,
+        message: `${symbol} moved ${formatPercent(change)} in 24h (threshold ${threshold}%)`,
+        value: change,
+        threshold
+      };
+    }
+
+    case 'volume_spike': {
+      if (!quote.total_volume || !trailingAverageVolume) return null;
+      const ratio = quote.total_volume / trailingAverageVolume;
+      const condition = ratio >= rule.multiplier!;
+      const wasActive = state.active;
+      state.active = condition;
+      if (!condition || wasActive) return null;
+      return {
+        fingerprint: `${rule.id}:spike`,
+        message: `${symbol} 24h volume is ${ratio.toFixed(2)}x its ${rule.windowDays || 30}-day average ($${Math.round(quote.total_volume).toLocaleString()})`,
+        value: ratio,
+        threshold: rule.multiplier!
+      };
+    }
+
+    case 'rank_change': {
+      const rank = quote.market_cap_rank;
+      if (!rank) return null;
+      if (state.baselineRank === undefined) {
+        state.baselineRank = rank;
+        return null;
+      }
+      const moved = state.baselineRank - rank;
+      if (Math.abs(moved) < rule.minRankChange!) return null;
+      const baseline = state.baselineRank;
+      state.baselineRank = rank;
+      return {
+        fingerprint: `${rule.id}:${rank}`,
+        message: `${symbol} market-cap rank moved ${moved > 0 ? 'up' : 'down'} ${Math.abs(moved)} places (#${baseline} → #${rank})`,
+        value: rank,
+        threshold: rule.minRankChange!
+      };
+    }
+  }
+}
+
+function webhookPayload(webhook: AlertWebhook, kind: 'alert' | 'analysis', body: Record<string, any>, text: string): any {
+  return webhook.format === 'slack' ? { text } : { event: kind, ...body };
+}
+
+/**
+ * Polls quotes for every rule's asset, evaluates the rules and delivers triggered alerts to webhooks
+ */
+export class AlertEngine {
+  private state: AlertState = {};
+  private assets = new Map<string, CoinInfo>();
+  private volumeAverages = new Map<string, { value: number | null; fetchedAt: number }>();
+  private analysisQueue: AlertEvent[] = [];
+  private analyzing = false;
+  private polling = false;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private definition: AlertsDefinition,
+    private marketDataService: MarketDataService,
+    private pipeline: AnalysisPipeline | null = null,
+    private statePath: string = config.alerts.stateFile
+  ) {}
+
+  /**
+   * Loads the knowledge base and persisted rule state; rules for ids that are not in the knowledge base are disabled
+   */
+  async init(): Promise<void> {
+    await this.marketDataService.setupKnowledgeBase();
+    for (const rule of this.activeRules()) {
+      const asset = this.marketDataService.findAsset(rule.assetId);
+      if (asset) {
+        this.assets.set(asset.id, asset);
+      } else {
+        console.warn(`⚠️ Alert rule ${rule.id}: "${rule.assetId}" is not in the knowledge base, rule disabled`);
+      }
+    }
+
+    try {
+      this.state = JSON.parse(await fs.readFile(this.statePath, 'utf8'));
+    } catch {
+      this.state = {};
+    }
+  }
+
+  private activeRules(): AlertRule[] {
+    return this.definition.rules.filter(rule => rule.enabled !== false);
+  }
+
+  private async saveState(): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    await fs.writeFile(this.statePath, JSON.stringify(this.state, null, 2));
+  }
+
+  private async trailingAverageVolume(asset: CoinInfo, windowDays: number): Promise<number | null> {
+    const key = `${asset.id}:${windowDays}`;
+    const cached = this.volumeAverages.get(key);
+    if (cached && Date.now() - cached.fetchedAt < 6 * 60 * 60 * 1000) return cached.value;
+
+    let value: number | null = null;
+    try {
+      // Drop the last (still forming) day so the spike is measured against completed days only
+      const candles = (await this.marketDataService.getProvider().getHistory(asset, windowDays + 1)).slice(0, -1);
+      const volumes = candles.map(candle => candle.volume).filter(volume => volume > 0).slice(-windowDays);
+      value = volumes.length > 0 ? volumes.reduce((sum, volume) => sum + volume, 0) / volumes.length : null;
+    } catch (error: any) {
+      console.warn(`⚠️ Could not load volume history for ${asset.id}:`, error.message);
+    }
+    this.volumeAverages.set(key, { value, fetchedAt: Date.now() });
+    return value;
+  }
+
+  /**
+   * One evaluation pass. With `dryRun`, triggered alerts are returned and logged but not delivered, and state is not saved
+   */
+  async poll(options: { dryRun?: boolean } = {}): Promise<AlertEvent[]> {
+    const rules = this.activeRules().filter(rule => this.assets.has(rule.assetId));
+    if (rules.length === 0) return [];
+
+    const quotes = await this.marketDataService.fetchDetailedCoinData([...new Set(rules.map(rule => rule.assetId))].map(id => this.assets.get(id)!));
+    const now = new Date();
+    const triggered: AlertEvent[] = [];
+
+    for (const rule of rules) {
+      const quote = quotes[rule.assetId];
+      if (!quote) {
+        console.warn(`⚠️ No quote for ${rule.assetId}, skipping rule ${rule.id}`);
+        continue;
+      }
+
+      const state = this.state[rule.id] || (this.state[rule.id] = {});
+      const average = rule.type === 'volume_spike'
+        ? await this.trailingAverageVolume(this.assets.get(rule.assetId)!, rule.windowDays || 30)
+        : null;
+      // Evaluate against a copy: a firing edge is only kept once the alert is delivered, so a crossing
+      // suppressed by the cooldown fires on the first poll after it if the condition still holds
+      const next = { ...state };
+      const evaluation = evaluateRule(rule, quote, next, average);
+      if (!evaluation) {
+        Object.assign(state, next);
+        continue;
+      }
+
+      const cooldownMs = (rule.cooldownMinutes ?? config.alerts.defaultCooldownMinutes) * 60 * 1000;
+      const sinceLast = state.lastTriggeredAt ? now.getTime() - new Date(state.lastTriggeredAt).getTime() : Infinity;
+      if (sinceLast < cooldownMs) {
+        const reason = evaluation.fingerprint === state.lastFingerprint ? 'duplicate' : 'cooldown';
+        console.log(`🔕 Suppressed alert ${rule.id} (${reason}, ${Math.round((cooldownMs - sinceLast) / 60000)}m left): ${evaluation.message}`);
+        continue;
+      }
+
+      const asset = this.assets.get(rule.assetId)!;
+      const event: AlertEvent = {
+        ruleId: rule.id,
+        assetId: rule.assetId,
+        name: asset.name,
+        symbol: asset.symbol,
+        type: rule.type,
+        ...evaluation,
+        triggeredAt: now.toISOString(),
+        quote
+      };
+      triggered.push(event);
+      console.log(`🚨 ${event.message}`);
+
+      if (!options.dryRun) {
+        if (!(await this.deliver(rule, 'alert', { alert: event }, `🚨 ${event.message}`))) {
+          console.warn(`⚠️ Alert ${rule.id} was not delivered; it fires again on the next poll if the condition still holds`);
+          continue;
+        }
+        Object.assign(state, next, { lastTriggeredAt: event.triggeredAt, lastFingerprint: event.fingerprint });
+        if (rule.analyze) this.enqueueAnalysis(event);
+      }
+    }
+
+    if (!options.dryRun) await this.saveState();
+    return triggered;
+  }
+
+  private targetWebhooks(rule: AlertRule): AlertWebhook[] {
+    return rule.webhooks?.length
+      ? this.definition.webhooks.filter(webhook => rule.webhooks!.includes(webhook.id))
+      : this.definition.webhooks;
+  }
+
+  async sendWebhook(webhook: AlertWebhook, payload: any): Promise<void> {
+    let lastError: any;
+    for (let attempt = 1; attempt <= config.alerts.webhookRetries; attempt++) {
+      try {
+        await axios.post(webhook.url, payload, {
+          timeout: config.alerts.webhookTimeout,
+          headers: { 'Content-Type': 'application/json', ...(webhook.headers || {}) }
+        });
+        return;
+      } catch (error: any) {
+        lastError = error;
+        const status = error?.response?.status;
+        if (status && status < 500 && status !== 429) break;
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+      }
+    }
+    throw new Error(`Webhook ${webhook.id} failed: ${lastError?.response?.status ? `HTTP ${lastError.response.status}` : lastError?.message}`);
+  }
+
+  /**
+   * Posts to the rule's webhooks. Returns true when at least one accepted it, or when the rule has none and the console line is the alert
+   */
+  private async deliver(rule: AlertRule, kind: 'alert' | 'analysis', body: Record<string, any>, text: string): Promise<boolean> {
+    const webhooks = this.targetWebhooks(rule);
+    if (webhooks.length === 0) {
+      console.warn(`⚠️ Alert rule ${rule.id} has no webhooks configured`);
+      return true;
+    }
+    const delivered = await Promise.all(webhooks.map(async webhook => {
+      try {
+        await this.sendWebhook(webhook, webhookPayload(webhook, kind, body, text));
+        console.log(`📨 Delivered ${kind} for ${rule.id} to ${webhook.id}`);
+        return true;
+      } catch (error: any) {
+        console.error(`❌ ${error.message}`);
+        return false;
+      }
+    }));
+    return delivered.some(Boolean);
+  }
+
+  private enqueueAnalysis(event: AlertEvent): void {
+    if (!this.pipeline) {
+      console.warn(`⚠️ Rule ${event.ruleId} requests an analysis but no pipeline is configured`);
+      return;
+    }
+    if (this.analysisQueue.some(queued => queued.assetId === event.assetId)) return;
+    this.analysisQueue.push(event);
+    void this.drainAnalyses();
+  }
+
+  private async drainAnalyses(): Promise<void> {
+    if (this.analyzing || !this.pipeline) return;
+    this.analyzing = true;
+    try {
+      let event: AlertEvent | undefined;
+      while ((event = this.analysisQueue.shift())) {
+        const rule = this.definition.rules.find(item => item.id === event!.ruleId)!;
+        const query = `Technical analysis on ${event.name}`;
+        console.log(`🔬 Alert ${event.ruleId} triggered an analysis: "${query}"`);
+        try {
+          const result = await this.pipeline.run(query, { autoPick: true });
+          const summary = result.ok
+            ? result.report?.executiveSummary || result.analysis.substring(0, 1500)
+            : `Analysis failed: ${result.error}`;
+          await this.deliver(rule, 'analysis', {
+            alert: { ruleId: event.ruleId, assetId: event.assetId, message: event.message },
+            analysis: {
+              ok: result.ok,
+              summary,
+              outlook: result.ok ? result.report?.assets.find(asset => asset.assetId === event!.assetId)?.outlook ?? null : null,
+              markdown: result.ok ? result.analysis : null
+            }
+          }, `🔬 ${event.symbol.toUpperCase()} analysis after "${event.message}":\n${summary}`);
+        } catch (error: any) {
+          console.error(`❌ Alert analysis for ${event.assetId} failed:`, error.message);
+        }
+      }
+    } finally {
+      this.analyzing = false;
+    }
+  }
+
+  start(): void {
+    const tick = async () => {
+      if (this.polling) return;
+      this.polling = true;
+      try {
+        const triggered = await this.poll();
+        console.log(`🔔 Alert check at ${new Date().toLocaleTimeString()}: ${triggered.length} triggered`);
+      } catch (error: any) {
+        console.error('❌ Alert polling failed:', error.message);
+      } finally {
+        this.polling = false;
+      }
+    };
+
+    console.log(`🔔 Alert engine watching ${this.assets.size} assets with ${this.activeRules().length} rules every ${Math.round(config.alerts.pollIntervalMs / 1000)}s`);
+    void tick();
+    this.timer = setInterval(tick, config.alerts.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
@@ -0,0 +1,317 @@
+import { renderCitationIssues, renderReferences } from "./citations.js";
+import { renderHolderDistribution } from "./holders.js";
+import { renderCrossAssetSection } from "./correlation.js";
+import {
+  AnalysisReport,
+  CoinInfo,
+  ReportScenario,
+  TokenResolution
+} from "../types/index.js";
+
+export const ANALYSIS_REPORT_FORMAT = `Respond with ONLY a single valid JSON object (no markdown fences, no commentary) matching this TypeScript type:
+
+{
+  "title": string,
+  "executiveSummary": string,                  // 3-6 sentences of key findings, each ending with inline citations like [1] or [2][4]
+  "assets": Array<{
+    "assetId": string,                         // CoinGecko id from the market data, e.g. "bitcoin"
+    "name": string,
+    "symbol": string,
+    "currentPrice": number | null,             // USD, copied from the market data
+    "outlook": "bullish" | "bearish" | "neutral",
+    "summary": string,
+    "citations": number[],                     // research source numbers supporting the summary
+    "keyLevels": {
+      "support": Array<{ "price": number, "label"?: string }>,
+      "resistance": Array<{ "price": number, "label"?: string }>
+    },
+    "scenarios": {
+      "bullish": { "probability": number, "priceTarget": number, "timeframe": string, "thesis": string, "entry"?: number, "stopLoss"?: number, "citations": number[] },
+      "bearish": { "probability": number, "priceTarget": number, "timeframe": string, "thesis": string, "entry"?: number, "stopLoss"?: number, "citations": number[] }
+    }
+  }>,
+  "catalysts": Array<{ "description": string, "impact": "positive" | "negative" | "neutral", "assetIds": string[], "citations": number[] }>,
+  "risks": Array<{ "description": string, "severity": "low" | "medium" | "high", "assetIds": string[], "citations": number[] }>
+}
+
+Rules:
+- All prices are plain USD numbers (no "$", no commas, no ranges).
+- Scenario probabilities are percentages between 0 and 100.
+- The bullish price target must be at or above the bearish price target.
+- "citations" lists the numbers of the RESEARCH SOURCES that support the claim. Only cite numbers that appear in that list; never invent sources.
+- Include one entry in "assets" for every asset in the LIVE MARKET DATA section.`;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isOneOf(value: unknown, options: readonly string[]): boolean {
+  return typeof value === 'string' && options.includes(value);
+}
+
+function validateKeyLevels(levels: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(levels)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+  levels.forEach((level: unknown, index) => {
+    if (!isRecord(level) || !isFiniteNumber(level.price) || level.price <= 0) {
+      errors.push(`${path}[${index}].price must be a positive number`);
+    }
+    if (isRecord(level) && level.label !== undefined && typeof level.label !== 'string') {
+      errors.push(`${path}[${index}].label must be a string`);
+    }
+  });
+}
+
+function validateCitations(citations: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(citations) || citations.some(citation => !Number.isInteger(citation) || citation < 1)) {
+    errors.push(`${path} must be an array of positive integers`);
+  }
+}
+
+function validateScenario(scenario: unknown, path: string, errors: string[]): void {
+  if (!isRecord(scenario)) {
+    errors.push(`${path} is required`);
+    return;
+  }
+  if (!isFiniteNumber(scenario.probability) || scenario.probability < 0 || scenario.probability > 100) {
+    errors.push(`${path}.probability must be a number between 0 and 100`);
+  }
+  if (!isFiniteNumber(scenario.priceTarget) || scenario.priceTarget <= 0) {
+    errors.push(`${path}.priceTarget must be a positive number`);
+  }
+  if (!isNonEmptyString(scenario.timeframe)) {
+    errors.push(`${path}.timeframe must be a non-empty string`);
+  }
+  if (!isNonEmptyString(scenario.thesis)) {
+    errors.push(`${path}.thesis must be a non-empty string`);
+  }
+  validateCitations(scenario.citations, `${path}.citations`, errors);
+  for (const field of ['entry', 'stopLoss'] as const) {
+    const value = scenario[field];
+    if (value !== undefined && (!isFiniteNumber(value) || value <= 0)) {
+      errors.push(`${path}.${field} must be a positive number when present`);
+    }
+  }
+}
+
+function validateAsset(asset: unknown, path: string, errors: string[]): void {
+  if (!isRecord(asset)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  for (const field of ['assetId', 'name', 'symbol', 'summary'] as const) {
+    if (!isNonEmptyString(asset[field])) {
+      errors.push(`${path}.${field} must be a non-empty string`);
+    }
+  }
+  if (asset.currentPrice !== null && !isFiniteNumber(asset.currentPrice)) {
+    errors.push(`${path}.currentPrice must be a number or null`);
+  }
+  validateCitations(asset.citations, `${path}.citations`, errors);
+  if (!isOneOf(asset.outlook, ['bullish', 'bearish', 'neutral'])) {
+    errors.push(`${path}.outlook must be one of: bullish, bearish, neutral`);
+  }
+  if (!isRecord(asset.keyLevels)) {
+    errors.push(`${path}.keyLevels is required`);
+  } else {
+    validateKeyLevels(asset.keyLevels.support, `${path}.keyLevels.support`, errors);
+    validateKeyLevels(asset.keyLevels.resistance, `${path}.keyLevels.resistance`, errors);
+  }
+  if (!isRecord(asset.scenarios)) {
+    errors.push(`${path}.scenarios is required`);
+    return;
+  }
+  const { bullish, bearish } = asset.scenarios;
+  validateScenario(bullish, `${path}.scenarios.bullish`, errors);
+  validateScenario(bearish, `${path}.scenarios.bearish`, errors);
+
+  const bullishTarget = isRecord(bullish) ? bullish.priceTarget : undefined;
+  const bearishTarget = isRecord(bearish) ? bearish.priceTarget : undefined;
+  if (isFiniteNumber(bullishTarget) && isFiniteNumber(bearishTarget) && bullishTarget < bearishTarget) {
+    errors.push(`${path}.scenarios.bullish.priceTarget (${bullishTarget}) must be at or above the bearish priceTarget (${bearishTarget})`);
+  }
+}
+
+/**
+ * Checks a parsed model response against the AnalysisReport schema and returns a list of human-readable errors
+ */
+export function validateAnalysisReport(
+  candidate: unknown,
+  expectedAssetIds: string[] = []
+): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(candidate)) {
+    return ['Response must be a JSON object'];
+  }
+  if (!isNonEmptyString(candidate.title)) {
+    errors.push('title must be a non-empty string');
+  }
+  if (!isNonEmptyString(candidate.executiveSummary)) {
+    errors.push('executiveSummary must be a non-empty string');
+  }
+
+  if (!Array.isArray(candidate.assets) || candidate.assets.length === 0) {
+    errors.push('assets must be a non-empty array');
+  } else {
+    candidate.assets.forEach((asset: unknown, index: number) => validateAsset(asset, `assets[${index}]`, errors));
+    const reportedIds = new Set(candidate.assets.map((asset: unknown) => isRecord(asset) ? asset.assetId : undefined));
+    for (const id of expectedAssetIds) {
+      if (!reportedIds.has(id)) {
+        errors.push(`assets is missing an entry for "${id}"`);
+      }
+    }
+  }
+
+  if (!Array.isArray(candidate.catalysts)) {
+    errors.push('catalysts must be an array');
+  } else {
+    candidate.catalysts.forEach((catalyst: unknown, index: number) => {
+      const item = isRecord(catalyst) ? catalyst : {};
+      if (!isNonEmptyString(item.description)) errors.push(`catalysts[${index}].description must be a non-empty string`);
+      if (!isOneOf(item.impact, ['positive', 'negative', 'neutral'])) errors.push(`catalysts[${index}].impact must be one of: positive, negative, neutral`);
+      if (!Array.isArray(item.assetIds)) errors.push(`catalysts[${index}].assetIds must be an array`);
+      validateCitations(item.citations, `catalysts[${index}].citations`, errors);
+    });
+  }
+
+  if (!Array.isArray(candidate.risks)) {
+    errors.push('risks must be an array');
+  } else {
+    candidate.risks.forEach((risk: unknown, index: number) => {
+      const item = isRecord(risk) ? risk : {};
+      if (!isNonEmptyString(item.description)) errors.push(`risks[${index}].description must be a non-empty string`);
+      if (!isOneOf(item.severity, ['low', 'medium', 'high'])) errors.push(`risks[${index}].severity must be one of: low, medium, high`);
+      if (!Array.isArray(item.assetIds)) errors.push(`risks[${index}].assetIds must be an array`);
+      validateCitations(item.citations, `risks[${index}].citations`, errors);
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Extracts the JSON object from a model response, tolerating markdown fences and surrounding prose
+ */
+export function parseAnalysisReport(response: string): { report?: AnalysisReport; errors: string[] } {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { errors: ['Response did not contain a JSON object'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error: any) {
+    return { errors: [`Response is not valid JSON: ${error.message}`] };
+  }
+  if (!isRecord(parsed)) {
+    return { errors: ['Response must be a JSON object'] };
+  }
+  // Only the object shape is checked here; validateAnalysisReport checks the fields
+  return { report: { sources: [], ...parsed } as unknown as AnalysisReport, errors: [] };
+}
+
+export function formatPrice(value: number | null | undefined, currency: string = 'usd'): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return 'N/A';
+  const digits = value >= 1 ? 2 : 6;
+  const amount = value.toLocaleString('en-US', { maximumFractionDigits: digits });
+  return currency === 'usd' ? `$${amount}` : `${amount} ${currency.toUpperCase()}`;
+}
+
+function citationMarkers(citations: number[] | undefined): string {
+  return citations && citations.length > 0 ? ` ${citations.map(citation => `[${citation}]`).join('')}` : '';
+}
+
+function renderScenario(label: string, scenario: ReportScenario, currency?: string): string {
+  let line = `- **${label}** (${scenario.probability}%, ${scenario.timeframe}): target ${formatPrice(scenario.priceTarget, currency)}`;
+  if (scenario.entry !== undefined) line += `, entry ${formatPrice(scenario.entry, currency)}`;
+  if (scenario.stopLoss !== undefined) line += `, stop-loss ${formatPrice(scenario.stopLoss, currency)}`;
+  return `${line}\n  ${scenario.thesis}${citationMarkers(scenario.citations)}\n`;
+}
+
+/**
+ * Lists how ambiguous query tokens were resolved, so a wrong same-ticker pick is visible in the report
+ */
+export function renderTokenResolutions(assets: Array<CoinInfo & { resolution?: TokenResolution }>): string {
+  const resolved = assets.filter(asset => asset.resolution && (asset.resolution.method !== 'unique' || asset.resolution.matchType === 'fuzzy'));
+  if (resolved.length === 0) return '';
+
+  let markdown = `\n## Token Resolution\n`;
+  for (const asset of resolved) {
+    const resolution = asset.resolution!;
+    const how = resolution.method === 'choice'
+      ? 'chosen by the requester'
+      : resolution.method === 'unique'
+        ? 'closest spelling match'
+        : `auto-picked (leads the runner-up by ${(resolution.margin * 100).toFixed(0)}% of its score)`;
+    const others = resolution.alternatives.map(alternative => `${alternative.name} (${alternative.id})`).join(', ');
+    markdown += `- "${resolution.token}" → **${asset.name}** (${asset.id}), ${how}${others ? `; other candidates: ${others}` : ''}\n`;
+  }
+  return markdown;
+}
+
+/**
+ * Renders a validated AnalysisReport as markdown for console and file output
+ */
+export function renderReportMarkdown(report: AnalysisReport): string {
+  let markdown = `# ${report.title}\n\n## Executive Summary\n${report.executiveSummary}\n`;
+  markdown += renderTokenResolutions(report.tokenResolutions || []);
+
+  for (const asset of report.assets) {
+    markdown += `\n## ${asset.name} (${asset.symbol.toUpperCase()})\n`;
+    markdown += `**Current Price:** ${formatPrice(asset.currentPrice, report.currency)} | **Outlook:** ${asset.outlook.toUpperCase()}\n\n`;
+    markdown += `${asset.summary}${citationMarkers(asset.citations)}\n\n`;
+
+    markdown += `### Key Levels\n`;
+    markdown += `| Type | Price | Note |\n|------|-------|------|\n`;
+    for (const level of asset.keyLevels.resistance) {
+      markdown += `| Resistance | ${formatPrice(level.price, report.currency)} | ${level.label || ''} |\n`;
+    }
+    for (const level of asset.keyLevels.support) {
+      markdown += `| Support | ${formatPrice(level.price, report.currency)} | ${level.label || ''} |\n`;
+    }
+
+    markdown += `\n### Scenarios\n`;
+    markdown += renderScenario('Bullish', asset.scenarios.bullish, report.currency);
+    markdown += renderScenario('Bearish', asset.scenarios.bearish, report.currency);
+
+    const holders = report.holderDistributions?.find(distribution => distribution.assetId === asset.assetId);
+    if (holders) {
+      markdown += `\n### Holder Distribution\n${renderHolderDistribution(holders)}`;
+    }
+  }
+
+  if (report.crossAsset) {
+    markdown += `\n## Relative Performance & Correlation\n${renderCrossAssetSection(report.crossAsset)}`;
+  }
+
+  if (report.catalysts.length > 0) {
+    markdown += `\n## Catalysts\n`;
+    for (const catalyst of report.catalysts) {
+      markdown += `- [${catalyst.impact}] ${catalyst.description}${citationMarkers(catalyst.citations)}\n`;
+    }
+  }
+
+  if (report.risks.length > 0) {
+    markdown += `\n## Risks\n`;
+    for (const risk of report.risks) {
+      markdown += `- [${risk.severity}] ${risk.description}${citationMarkers(risk.citations)}\n`;
+    }
+  }
+
+  markdown += renderReferences(report.sources);
+  markdown += renderCitationIssues(report.citationIssues || []);
+
+  return markdown;
+}
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkReportCitations, splitSentences } from './citations.js';
+import { AnalysisReport } from '../types/index.js';
+
+const references = [1, 2].map(index => ({ index, title: `Source ${index}`, url: `https://example.com/${index}` }));
+
+const report = (executiveSummary: string): AnalysisReport => ({
+  title: 'Bitcoin outlook',
+  executiveSummary,
+  assets: [],
+  catalysts: [],
+  risks: [],
+  sources: references
+});
+
+describe('splitSentences', () => {
+  it('keeps decimals and abbreviations inside their sentence', () => {
+    assert.deepEqual(splitSentences('BTC trades at $64,250.50 after ETF inflows [1]. Flows from e.g. spot ETFs rose 2.5% [2]. Risks remain'), [
+      'BTC trades at $64,250.50 after ETF inflows [1].',
+      'Flows from e.g. spot ETFs rose 2.5% [2].',
+      'Risks remain'
+    ]);
+  });
+
+  it('keeps citation markers after the terminator with their sentence', () => {
+    assert.deepEqual(splitSentences('Funding turned positive. [1][2] What next? Volatility [2]!'), [
+      'Funding turned positive. [1][2]',
+      'What next?',
+      'Volatility [2]!'
+    ]);
+  });
+});
+
+describe('checkReportCitations', () => {
+  it('does not flag cited sentences with prices as uncited', () => {
+    const summary = 'BTC trades at $64,250.50 after ETF inflows [1]. ETH holds $3,100.25, i.e. above its 200-day average [2].';
+    assert.deepEqual(checkReportCitations(report(summary), references), []);
+  });
+
+  it('flags uncited sentences and citations of unknown sources', () => {
+    const summary = 'BTC trades at $64,250.50 [1]. Sentiment is improving. Miners sold 1.2k BTC [7].';
+    assert.deepEqual(checkReportCitations(report(summary), references), [
+      { type: 'uncited_claim', location: 'executiveSummary[1]', excerpt: 'Sentiment is improving.' },
+      { type: 'unknown_source', location: 'executiveSummary[2]', excerpt: 'Miners sold 1.2k BTC [7].', citation: 7 }
+    ]);
+  });
+});
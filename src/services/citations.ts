@@ -0,0 +1,156 @@
+import { AnalysisReport, CitationIssue, ReportSource } from "../types/index.js";
+
+const CITATION_PATTERN = /\[(\d{1,3})\]/g;
+
+// A sentence ends at ".", "!" or "?" (and any [n] markers after it) followed by a capitalised word or the end of the text,
+// so decimals ("$64,250.50") and abbreviations ("e.g.", "vs.") stay inside their sentence
+const SENTENCE_END = /(?<!\b(?:e\.g|i\.e|vs|approx))[.!?]+(?:\s*\[\d{1,3}\])*(?=\s+["'(]?[A-Z]|\s*$)/g;
+
+interface CitableSource {
+  url: string;
+  title: string;
+  publishedDateString?: string;
+}
+
+interface ReportClaim {
+  location: string;
+  text: string;
+  citations: number[];
+}
+
+function excerpt(text: string, maxLength: number = 120): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.substring(0, maxLength - 3)}...` : singleLine;
+}
+
+export function extractInlineCitations(text: string): number[] {
+  return [...text.matchAll(CITATION_PATTERN)].map(match => parseInt(match[1], 10));
+}
+
+/**
+ * Builds the numbered reference list in the same order the sources were listed in the analysis prompt
+ */
+export function buildReferences(sources: CitableSource[]): ReportSource[] {
+  return sources.map((source, index) => ({
+    index: index + 1,
+    title: source.title,
+    url: source.url,
+    publishedDate: source.publishedDateString
+  }));
+}
+
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    sentences.push(text.substring(start, end));
+    start = end;
+  }
+  sentences.push(text.substring(start));
+  return sentences.map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+}
+
+function collectReportClaims(report: AnalysisReport): ReportClaim[] {
+  const claims: ReportClaim[] = [];
+
+  splitSentences(report.executiveSummary).forEach((sentence, index) => {
+    claims.push({ location: `executiveSummary[${index}]`, text: sentence, citations: extractInlineCitations(sentence) });
+  });
+
+  report.assets.forEach(asset => {
+    claims.push({ location: `${asset.assetId}.summary`, text: asset.summary, citations: asset.citations || [] });
+    claims.push({ location: `${asset.assetId}.scenarios.bullish`, text: asset.scenarios.bullish.thesis, citations: asset.scenarios.bullish.citations || [] });
+    claims.push({ location: `${asset.assetId}.scenarios.bearish`, text: asset.scenarios.bearish.thesis, citations: asset.scenarios.bearish.citations || [] });
+  });
+
+  report.catalysts.forEach((catalyst, index) => {
+    claims.push({ location: `catalysts[${index}]`, text: catalyst.description, citations: catalyst.citations || [] });
+  });
+
+  report.risks.forEach((risk, index) => {
+    claims.push({ location: `risks[${index}]`, text: risk.description, citations: risk.citations || [] });
+  });
+
+  return claims;
+}
+
+function checkClaims(claims: ReportClaim[], references: ReportSource[]): CitationIssue[] {
+  const knownIndexes = new Set(references.map(reference => reference.index));
+  const issues: CitationIssue[] = [];
+
+  for (const claim of claims) {
+    if (claim.citations.length === 0) {
+      issues.push({ type: 'uncited_claim', location: claim.location, excerpt: excerpt(claim.text) });
+      continue;
+    }
+    for (const citation of new Set(claim.citations)) {
+      if (!knownIndexes.has(citation)) {
+        issues.push({ type: 'unknown_source', location: claim.location, excerpt: excerpt(claim.text), citation });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Flags citations in a structured report that point at non-existent sources and claims that cite nothing
+ */
+export function checkReportCitations(report: AnalysisReport, references: ReportSource[]): CitationIssue[] {
+  return checkClaims(collectReportClaims(report), references);
+}
+
+/**
+ * Same checks as checkReportCitations for free-form markdown: every paragraph or bullet is treated as a claim
+ */
+export function checkMarkdownCitations(markdown: string, references: ReportSource[]): CitationIssue[] {
+  const claims: ReportClaim[] = [];
+
+  markdown.split(/\n\s*\n|\n(?=\s*[-*]\s|\s*\d+\.\s)/).forEach((block, index) => {
+    const text = block.trim();
+    if (!text || text.startsWith('#') || text.startsWith('|') || text.length < 40) return;
+    claims.push({ location: `block[${index}]`, text, citations: extractInlineCitations(text) });
+  });
+
+  return checkClaims(claims, references);
+}
+
+/**
+ * Replaces the report's source list with the scraped references it actually cites and records citation issues
+ */
+export function attachReferences(report: AnalysisReport, sources: CitableSource[]): AnalysisReport {
+  const references = buildReferences(sources);
+  const cited = new Set(collectReportClaims(report).flatMap(claim => claim.citations));
+
+  return {
+    ...report,
+    sources: references.filter(reference => cited.has(reference.index)),
+    citationIssues: checkReportCitations(report, references)
+  };
+}
+
+export function renderReferences(references: ReportSource[]): string {
+  if (references.length === 0) return '';
+
+  let markdown = `\n## References\n`;
+  for (const reference of [...references].sort((a, b) => a.index - b.index)) {
+    const published = reference.publishedDate ? ` (published ${reference.publishedDate})` : '';
+    markdown += `[${reference.index}] [${reference.title || reference.url}](${reference.url})${published}\n`;
+  }
+  return markdown;
+}
+
+export function renderCitationIssues(issues: CitationIssue[]): string {
+  if (issues.length === 0) return '';
+
+  let markdown = `\n## Citation Check\n`;
+  for (const issue of issues) {
+    if (issue.type === 'unknown_source') {
+      markdown += `- ⚠️ ${issue.location} cites [${issue.citation}], which is not a known source: "${issue.excerpt}"\n`;
+    } else {
+      markdown += `- ⚠️ ${issue.location} has no citation: "${issue.excerpt}"\n`;
+    }
+  }
+  return markdown;
+}
@@ -0,0 +1,104 @@
+import { randomUUID } from 'crypto';
+import { config } from "../config.js";
+import { chunkText, createVectorStore, EmbeddingService } from "./vector-store.js";
+import { ContentChunk, RetrievedChunk, VectorStore } from "../types/index.js";
+
+export interface RetrievalSource {
+  url: string;
+  title: string;
+  content: string;
+}
+
+export interface RetrievalResult {
+  store: string;
+  embeddingModel: string;
+  chunkCount: number;
+  excerpts: Record<string, RetrievedChunk[]>;
+}
+
+/**
+ * Chunks and embeds scraped pages, then pulls the most relevant passages per asset and per search query
+ */
+export class ContentRetriever {
+  private embeddings: EmbeddingService;
+  private store: VectorStore;
+
+  constructor(embeddings: EmbeddingService = new EmbeddingService(), store?: VectorStore) {
+    this.embeddings = embeddings;
+    this.store = store || createVectorStore(embeddings.dimensions);
+  }
+
+  async retrieve(
+    sources: RetrievalSource[],
+    queries: string[],
+    topK: number = config.vector.topK
+  ): Promise<RetrievalResult> {
+    const runId = randomUUID();
+    const chunks: ContentChunk[] = sources.flatMap(source =>
+      chunkText(source.content).map((text, position) => ({
+        id: `${runId}:${source.url}#${position}`,
+        sourceUrl: source.url,
+        sourceTitle: source.title,
+        position,
+        text
+      }))
+    );
+
+    const result: RetrievalResult = {
+      store: this.store.name,
+      embeddingModel: this.embeddings.model,
+      chunkCount: chunks.length,
+      excerpts: {}
+    };
+    if (chunks.length === 0 || queries.length === 0) return result;
+
+    console.log(`🧩 Indexing ${chunks.length} chunks from ${sources.length} sources (${this.store.name}, ${this.embeddings.model})`);
+    await this.store.upsert(runId, chunks, await this.embeddings.embed(chunks.map(chunk => chunk.text)));
+
+    try {
+      const best = new Map<string, RetrievedChunk>();
+      const queryVectors = await this.embeddings.embed(queries);
+
+      for (let i = 0; i < queries.length; i++) {
+        const hits = await this.store.search(runId, queryVectors[i], topK);
+        for (const { chunk, score } of hits) {
+          const existing = best.get(chunk.id);
+          if (!existing || existing.score < score) {
+            best.set(chunk.id, { ...chunk, score, query: queries[i] });
+          }
+        }
+      }
+
+      const bySource = new Map<string, RetrievedChunk[]>();
+      for (const chunk of best.values()) {
+        bySource.set(chunk.sourceUrl, [...(bySource.get(chunk.sourceUrl) || []), chunk]);
+      }
+      for (const [url, retrieved] of bySource) {
+        result.excerpts[url] = retrieved
+          .sort((a, b) => b.score - a.score)
+          .slice(0, config.vector.maxChunksPerSource)
+          .sort((a, b) => a.position - b.position);
+      }
+
+      console.log(`🧩 Retrieved ${best.size} relevant chunks for ${queries.length} queries`);
+      return result;
+    } finally {
+      await this.store.clear(runId).catch(error => console.warn('⚠️ Failed to clear vector store run:', error.message));
+    }
+  }
+}
+
+/**
+ * Retrieval queries: one per detected asset (anchored to the user query) plus every generated synonym
+ */
+export function buildRetrievalQueries(
+  query: string,
+  assets: Array<{ name: string; symbol: string }>,
+  synonyms: string[]
+): string[] {
+  const queries = [
+    ...assets.map(asset => `${asset.name} ${asset.symbol.toUpperCase()} ${query}`),
+    ...synonyms
+  ];
+  return [...new Set(queries.length > 0 ? queries : [query])];
+}
@@ -0,0 +1,68 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContractResolver, extractContractReferences } from './contract-resolver.js';
+import { ContractListing, MarketDataProvider } from '../types/index.js';
+
+const USDC_ARBITRUM = '0xaf88d065e77c8cc2239327c5edb3a432268e5831';
+const JUNK = '0x00000000000000000000000000000000000000aa';
+
+const listings: ContractListing[] = [
+  { id: 'usd-coin', symbol: 'usdc', name: 'USDC', platforms: { 'ethereum': '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', 'arbitrum-one': USDC_ARBITRUM } },
+  // Unvetted tokens named after ordinary words, outside the knowledge base
+  { id: 'analysis-token', symbol: 'analysis', name: 'Analysis', platforms: { 'ethereum': JUNK } },
+  { id: 'staking-token', symbol: 'staking', name: 'Staking', platforms: { 'ethereum': JUNK } },
+  { id: 'pepe-on-arb', symbol: 'pepe', name: 'Pepe', platforms: { 'arbitrum-one': JUNK } }
+];
+
+const provider = { name: 'fixture', listContracts: async () => listings } as unknown as MarketDataProvider;
+const knowledgeBase = [{ id: 'bitcoin' }, { id: 'usd-coin' }];
+
+describe('extractContractReferences', () => {
+  it('reads chain-qualified tickers and marks $ or capitals as deliberate', () => {
+    assert.deepEqual(extractContractReferences('USDC on Arbitrum liquidity'), [
+      { text: 'USDC on Arbitrum', kind: 'symbol_on_chain', symbol: 'usdc', platform: 'arbitrum-one', deliberate: true }
+    ]);
+    assert.equal(extractContractReferences('$pepe on arbitrum')[0].deliberate, true);
+    assert.equal(extractContractReferences('usdc on arbitrum')[0].deliberate, false);
+  });
+
+  it('ignores filler words in front of a chain name', () => {
+    assert.deepEqual(extractContractReferences('Technical analysis on Ethereum'), []);
+    assert.deepEqual(extractContractReferences('latest news on Solana'), []);
+  });
+});
+
+describe('ContractResolver', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'contracts-'));
+  const resolver = new ContractResolver(provider, path.join(directory, 'contracts.json'));
+  // Keep the resolver's progress lines out of the test runner's output stream
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('resolves "USDC on Arbitrum" to the coin and its contract on that chain', async () => {
+    const resolution = await resolver.resolve('USDC on Arbitrum liquidity', knowledgeBase);
+    assert.deepEqual(resolution.assets, [
+      { id: 'usd-coin', symbol: 'usdc', name: 'USDC', platform: 'arbitrum-one', contractAddress: USDC_ARBITRUM }
+    ]);
+    assert.equal(resolution.remainingQuery, 'liquidity');
+  });
+
+  it('leaves plain words alone even when an unlisted token shares the name', async () => {
+    for (const query of ['Technical analysis on Ethereum', 'staking on Ethereum', 'pepe on arbitrum']) {
+      const resolution = await resolver.resolve(query, knowledgeBase);
+      assert.deepEqual(resolution.assets, [], query);
+      assert.equal(resolution.remainingQuery, query);
+    }
+  });
+
+  it('still resolves a deliberate ticker outside the knowledge base', async () => {
+    const resolution = await resolver.resolve('$PEPE on Arbitrum', knowledgeBase);
+    assert.deepEqual(resolution.assets.map(asset => asset.id), ['pepe-on-arb']);
+  });
+});
@@ -0,0 +1,221 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from "../config.js";
+import { cassette } from "../utils/cassette.js";
+import { isFillerWord } from "./token-matcher.js";
+import { ContractListing, ContractReference, DetectedAsset, MarketDataProvider } from "../types/index.js";
+
+/**
+ * Chain names users type, keyed by CoinGecko platform id
+ */
+export const CHAIN_ALIASES: Record<string, string[]> = {
+  'ethereum': ['ethereum', 'eth', 'mainnet', 'erc20', 'erc-20'],
+  'arbitrum-one': ['arbitrum one', 'arbitrum', 'arb'],
+  'optimistic-ethereum': ['op mainnet', 'optimism'],
+  'base': ['base'],
+  'polygon-pos': ['polygon pos', 'polygon', 'matic'],
+  'binance-smart-chain': ['binance smart chain', 'bnb smart chain', 'bnb chain', 'bsc', 'bep20', 'bep-20'],
+  'avalanche': ['avalanche c-chain', 'avalanche', 'avax'],
+  'fantom': ['fantom', 'ftm'],
+  'zksync': ['zksync era', 'zksync'],
+  'linea': ['linea'],
+  'scroll': ['scroll'],
+  'solana': ['solana', 'sol', 'spl'],
+  'tron': ['tron', 'trc20', 'trc-20']
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest aliases first so "arbitrum one" wins over "arbitrum"
+const ALIAS_PATTERN = Object.values(CHAIN_ALIASES).flat()
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+
+const EVM_ADDRESS = /\b0x[0-9a-fA-F]{40}\b/g;
+const SOLANA_MINT = /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g;
+const SYMBOL_ON_CHAIN = new RegExp(`(?<![\\w$])\\$?([A-Za-z][A-Za-z0-9.]{1,19})\\s+on\\s+(${ALIAS_PATTERN})\\b`, 'gi');
+const CHAIN_AFTER = new RegExp(`^\\s+on\\s+(${ALIAS_PATTERN})\\b`, 'i');
+const CHAIN_BEFORE = new RegExp(`\\b(${ALIAS_PATTERN})\\s*[:/]\\s*$`, 'i');
+
+export function platformForChain(name: string): string | undefined {
+  const lower = name.trim().toLowerCase();
+  return Object.keys(CHAIN_ALIASES).find(platform => platform === lower || CHAIN_ALIASES[platform].includes(lower));
+}
+
+/**
+ * Finds contract addresses, Solana mints and chain-qualified symbols ("USDC on Arbitrum") in a query.
+ * A "word on Chain" is only a symbol when it is not a filler word ("analysis on Ethereum", "news on Solana");
+ * written as $TICKER or in capitals it is marked deliberate and may name a token outside the knowledge base.
+ */
+export function extractContractReferences(query: string): ContractReference[] {
+  const references: ContractReference[] = [];
+
+  for (const match of query.matchAll(EVM_ADDRESS)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const after = query.substring(end).match(CHAIN_AFTER);
+    const before = query.substring(0, start).match(CHAIN_BEFORE);
+    const chain = after?.[1] || before?.[1];
+    references.push({
+      text: query.substring(before ? start - before[0].length : start, after ? end + after[0].length : end),
+      kind: 'evm_address',
+      address: match[0].toLowerCase(),
+      ...(chain ? { platform: platformForChain(chain) } : {})
+    });
+  }
+
+  for (const match of query.matchAll(SOLANA_MINT)) {
+    // Base58 excludes 0, so EVM addresses never match here; require a digit to skip long plain words
+    if (!/\d/.test(match[0])) continue;
+    references.push({ text: match[0], kind: 'solana_mint', address: match[0], platform: 'solana' });
+  }
+
+  for (const match of query.matchAll(SYMBOL_ON_CHAIN)) {
+    const dollar = match[0].startsWith('$');
+    if (!dollar && isFillerWord(match[1])) continue;
+    const deliberate = dollar || (match[1] === match[1].toUpperCase() && /[A-Z]/.test(match[1]));
+    references.push({ text: match[0], kind: 'symbol_on_chain', symbol: match[1].toLowerCase(), platform: platformForChain(match[2]), deliberate });
+  }
+
+  return references;
+}
+
+interface ContractIndex {
+  byAddress: Map<string, Array<{ listing: ContractListing; platform: string }>>;
+  bySymbolOrName: Map<string, ContractListing[]>;
+}
+
+export interface ContractResolution {
+  references: ContractReference[];
+  assets: DetectedAsset[];
+  unresolved: ContractReference[];
+  /** The query with resolved references removed, for regular symbol/name matching */
+  remainingQuery: string;
+}
+
+const addressKey = (address: string) => (address.startsWith('0x') ? address.toLowerCase() : address);
+
+/**
+ * Maps contract addresses and chain-qualified symbols to exact coin ids using the provider's platform mappings
+ */
+export class ContractResolver {
+  private index: Promise<ContractIndex> | null = null;
+
+  constructor(
+    private provider: MarketDataProvider,
+    private cacheFile: string = config.marketData.contractsCacheFile
+  ) {}
+
+  private async loadListings(): Promise<ContractListing[]> {
+    if (!this.provider.listContracts) return [];
+    const cacheFile = this.cacheFile;
+
+    if (!cassette.active) {
+      try {
+        const stats = await fs.stat(cacheFile);
+        if (Date.now() - stats.mtime.getTime() < config.marketData.contractsCacheTimeout) {
+          return JSON.parse(await fs.readFile(cacheFile, 'utf8'));
+        }
+      } catch {
+        // No usable cache, fetch below
+      }
+    }
+
+    console.log(`📇 Fetching contract address listings from ${this.provider.name}...`);
+    const listings = await this.provider.listContracts();
+    if (!cassette.active) {
+      try {
+        await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+        await fs.writeFile(cacheFile, JSON.stringify(listings));
+      } catch (error: any) {
+        console.warn('⚠️ Could not cache contract listings:', error.message);
+      }
+    }
+    return listings;
+  }
+
+  private getIndex(): Promise<ContractIndex> {
+    if (!this.index) {
+      this.index = this.loadListings().then(listings => {
+        const index: ContractIndex = { byAddress: new Map(), bySymbolOrName: new Map() };
+        for (const listing of listings) {
+          for (const [platform, address] of Object.entries(listing.platforms)) {
+            const key = addressKey(address);
+            index.byAddress.set(key, [...(index.byAddress.get(key) || []), { listing, platform }]);
+          }
+          if (Object.keys(listing.platforms).length === 0) continue;
+          for (const key of new Set([listing.symbol.toLowerCase(), listing.name.toLowerCase()])) {
+            index.bySymbolOrName.set(key, [...(index.bySymbolOrName.get(key) || []), listing]);
+          }
+        }
+        return index;
+      }).catch(error => {
+        this.index = null;
+        throw error;
+      });
+    }
+    return this.index;
+  }
+
+  /**
+   * Resolves every reference in the query; candidates are ranked by their position in the (market-cap ordered) knowledge base.
+   * A symbol that was not written deliberately ("usdc on arbitrum") only resolves to knowledge base coins, so a plain
+   * word never picks an unvetted token that happens to share its name.
+   */
+  async resolve(query: string, knowledgeBase: Array<{ id: string }> = []): Promise<ContractResolution> {
+    const references = extractContractReferences(query);
+    if (references.length === 0) {
+      return { references, assets: [], unresolved: [], remainingQuery: query };
+    }
+
+    let index: ContractIndex;
+    try {
+      index = await this.getIndex();
+    } catch (error: any) {
+      console.warn('⚠️ Contract listings unavailable:', error.message);
+      return { references, assets: [], unresolved: references, remainingQuery: query };
+    }
+
+    const rank = new Map(knowledgeBase.map((asset, position) => [asset.id, position]));
+    const byRank = <T>(items: T[], id: (item: T) => string) =>
+      [...items].sort((a, b) => (rank.get(id(a)) ?? Infinity) - (rank.get(id(b)) ?? Infinity));
+
+    const assets: DetectedAsset[] = [];
+    const unresolved: ContractReference[] = [];
+    let remainingQuery = query;
+
+    for (const reference of references) {
+      let resolved: DetectedAsset | null = null;
+
+      if (reference.address) {
+        const candidates = (index.byAddress.get(addressKey(reference.address)) || [])
+          .filter(candidate => !reference.platform || candidate.platform === reference.platform);
+        const best = byRank(candidates, candidate => candidate.listing.id)[0];
+        if (best) {
+          resolved = { id: best.listing.id, symbol: best.listing.symbol, name: best.listing.name, platform: best.platform, contractAddress: reference.address };
+        }
+      } else if (reference.symbol && reference.platform) {
+        const platform = reference.platform;
+        const candidates = (index.bySymbolOrName.get(reference.symbol) || [])
+          .filter(listing => listing.platforms[platform] && (reference.deliberate || rank.has(listing.id)));
+        const best = byRank(candidates, listing => listing.id)[0];
+        if (best) {
+          resolved = { id: best.id, symbol: best.symbol, name: best.name, platform, contractAddress: addressKey(best.platforms[platform]) };
+        }
+      }
+
+      if (!resolved) {
+        unresolved.push(reference);
+        continue;
+      }
+      console.log(`📇 Resolved "${reference.text}" to ${resolved.name} (${resolved.id}) on ${resolved.platform}`);
+      remainingQuery = remainingQuery.replace(reference.text, ' ');
+      if (!assets.some(asset => asset.id === resolved!.id)) {
+        assets.push(resolved);
+      }
+    }
+
+    return { references, assets, unresolved, remainingQuery: remainingQuery.replace(/\s+/g, ' ').trim() };
+  }
+}
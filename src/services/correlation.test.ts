@@ -0,0 +1,153 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  alignReturns,
+  compareWithBenchmark,
+  correlationMatrix,
+  covariance,
+  dailyReturns,
+  pearson,
+  rollingCorrelation,
+  windowPerformance
+} from './correlation.js';
+import { OhlcCandle } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const series = (closes: number[], firstDay: number = 0): OhlcCandle[] =>
+  closes.map((close, i) => ({ timestamp: (firstDay + i) * DAY_MS, open: close, high: close, low: close, close, volume: 0 }));
+
+// Closes whose daily log returns are exactly the given values
+const fromLogReturns = (returns: number[]): OhlcCandle[] =>
+  series(returns.reduce((closes, value) => [...closes, closes[closes.length - 1] * Math.exp(value)], [100]));
+
+const history = (id: string, candles: OhlcCandle[]) => ({ asset: { id, symbol: id, name: id }, candles });
+
+const near = (actual: number | null | undefined, expected: number) => {
+  assert.ok(actual !== null && actual !== undefined, `expected ${expected}, got ${actual}`);
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+};
+
+describe('dailyReturns', () => {
+  it('keys log returns by the later candle and skips non-positive closes', () => {
+    const returns = dailyReturns(series([100, 110, 99, 0, 50]));
+    assert.deepEqual([...returns.keys()], [1 * DAY_MS, 2 * DAY_MS]);
+    near(returns.get(1 * DAY_MS), Math.log(1.1));
+    near(returns.get(2 * DAY_MS), Math.log(0.9));
+  });
+});
+
+describe('covariance and pearson', () => {
+  it('uses the sample covariance', () => {
+    assert.equal(covariance([1, 2, 3], [1, 2, 3]), 1);
+    assert.equal(covariance([1, 2, 3], [2, 4, 6]), 2);
+  });
+
+  it('is 1 or -1 for perfectly linear series', () => {
+    near(pearson([1, 2, 3], [2, 4, 6]), 1);
+    near(pearson([1, 2, 3], [6, 4, 2]), -1);
+  });
+
+  it('is null for short, mismatched or flat series', () => {
+    assert.equal(pearson([1, 2], [1, 2]), null);
+    assert.equal(pearson([1, 2, 3], [1, 2]), null);
+    assert.equal(pearson([1, 2, 3], [5, 5, 5]), null);
+  });
+});
+
+describe('alignReturns', () => {
+  it('keeps only the days both series have, oldest first', () => {
+    const a = new Map([[3, 0.3], [1, 0.1], [2, 0.2]]);
+    const b = new Map([[1, -0.1], [3, -0.3], [4, -0.4]]);
+    assert.deepEqual(alignReturns(a, b), { a: [0.1, 0.3], b: [-0.1, -0.3] });
+  });
+});
+
+describe('windowPerformance', () => {
+  it('reports the return and the largest peak-to-trough decline', () => {
+    const performance = windowPerformance(series([100, 120, 90, 110, 80, 100]), 5);
+    near(performance.returnPercent, 0);
+    // Peak 120, trough 80
+    near(performance.maxDrawdownPercent, (80 / 120 - 1) * 100);
+  });
+
+  it('only looks at the last windowDays + 1 closes', () => {
+    const performance = windowPerformance(series([100, 50, 60, 66, 72.6, 79.86, 87.846]), 5);
+    near(performance.returnPercent, (87.846 / 50 - 1) * 100);
+    near(performance.maxDrawdownPercent, 0);
+  });
+
+  it('is null without enough history', () => {
+    assert.deepEqual(windowPerformance(series([100, 120, 90]), 5), { windowDays: 5, returnPercent: null, maxDrawdownPercent: null });
+  });
+});
+
+describe('compareWithBenchmark', () => {
+  // The asset's log returns are exactly twice the benchmark's
+  const benchmark = history('btc', series([100, 110, 121, 110, 121, 133.1]));
+  const asset = series([100, 121, 146.41, 121, 146.41, 177.1561]);
+
+  it('computes correlation, beta and relative strength over the window', () => {
+    const comparison = compareWithBenchmark(asset, benchmark, 5);
+    assert.equal(comparison.observations, 5);
+    near(comparison.correlation, 1);
+    near(comparison.beta, 2);
+    // +77.1561% against +33.1%
+    near(comparison.relativeStrength, 77.1561 - 33.1);
+  });
+
+  it('needs 90% of the window (at least 5 returns) to report anything', () => {
+    const nineReturns = fromLogReturns([0.01, -0.02, 0.03, 0.01, -0.01, 0.02, 0.015, -0.005, 0.01]);
+    const doubled = fromLogReturns([0.02, -0.04, 0.06, 0.02, -0.02, 0.04, 0.03, -0.01, 0.02]);
+    near(compareWithBenchmark(doubled, history('btc', nineReturns), 10).beta, 2);
+
+    const short = compareWithBenchmark(doubled.slice(1), history('btc', nineReturns), 10);
+    assert.equal(short.observations, 8);
+    assert.deepEqual([short.correlation, short.beta, short.relativeStrength], [null, null, null]);
+
+    assert.equal(compareWithBenchmark(asset, benchmark, 7).beta, null);
+  });
+});
+
+describe('rollingCorrelation', () => {
+  // Windows of 3: (1,2,3) vs (1,2,3) → 1; (2,3,5) vs (2,3,1) → -√(3/7); (3,5,4) vs (3,1,2) → -1
+  const benchmark = history('btc', fromLogReturns([0.01, 0.02, 0.03, 0.01, 0.02]));
+  const asset = fromLogReturns([0.01, 0.02, 0.03, 0.05, 0.04]);
+
+  it('tracks the latest, lowest and highest trailing correlation', () => {
+    const rolling = rollingCorrelation(asset, benchmark, 3, 3);
+    assert.ok(rolling);
+    assert.equal(rolling.spanDays, 3);
+    near(rolling.latest, -1);
+    near(rolling.min, -1);
+    near(rolling.max, 1);
+  });
+
+  it('limits the evaluation to the last spanDays', () => {
+    const rolling = rollingCorrelation(asset, benchmark, 3, 2);
+    assert.equal(rolling?.spanDays, 2);
+    near(rolling?.max, -Math.sqrt(3 / 7));
+  });
+
+  it('is null with fewer than two windows', () => {
+    assert.equal(rollingCorrelation(asset, benchmark, 5, 5), null);
+  });
+});
+
+describe('correlationMatrix', () => {
+  it('has a unit diagonal and null for pairs without enough shared days', () => {
+    const base = [0.01, -0.02, 0.03, 0.01, -0.01];
+    const matrix = correlationMatrix([
+      history('a', fromLogReturns(base)),
+      history('b', fromLogReturns(base.map(value => -3 * value))),
+      history('c', fromLogReturns(base).slice(0, 3))
+    ], 5);
+
+    assert.deepEqual(matrix.assets.map(asset => asset.id), ['a', 'b', 'c']);
+    assert.equal(matrix.values[0][0], 1);
+    near(matrix.values[0][1], -1);
+    near(matrix.values[1][0], -1);
+    assert.equal(matrix.values[0][2], null);
+    assert.equal(matrix.values[2][2], 1);
+  });
+});
@@ -0,0 +1,252 @@
+import { config } from "../config.js";
+import { createMarketDataProvider } from "./market-data-providers.js";
+import {
+  BenchmarkComparison,
+  CoinInfo,
+  CorrelationMatrix,
+  CrossAssetAnalysis,
+  CrossAssetReport,
+  MarketDataProvider,
+  OhlcCandle,
+  RollingCorrelation,
+  WindowPerformance
+} from "../types/index.js";
+
+interface AssetHistory {
+  asset: CoinInfo;
+  candles: OhlcCandle[];
+}
+
+/**
+ * Daily log returns keyed by candle timestamp, so series of different coins can be aligned
+ */
+export function dailyReturns(candles: OhlcCandle[]): Map<number, number> {
+  const returns = new Map<number, number>();
+  for (let i = 1; i < candles.length; i++) {
+    const previous = candles[i - 1].close;
+    const current = candles[i].close;
+    if (previous > 0 && current > 0) returns.set(candles[i].timestamp, Math.log(current / previous));
+  }
+  return returns;
+}
+
+export function covariance(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  return a.reduce((sum, value, i) => sum + (value - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+}
+
+export function pearson(a: number[], b: number[]): number | null {
+  if (a.length < 3 || a.length !== b.length) return null;
+  const denominator = Math.sqrt(covariance(a, a) * covariance(b, b));
+  return denominator > 0 ? covariance(a, b) / denominator : null;
+}
+
+/**
+ * Returns of both series on the days both have one, oldest first
+ */
+export function alignReturns(a: Map<number, number>, b: Map<number, number>): { a: number[]; b: number[] } {
+  const days = [...a.keys()].filter(day => b.has(day)).sort((x, y) => x - y);
+  return { a: days.map(day => a.get(day)!), b: days.map(day => b.get(day)!) };
+}
+
+// A window is reported when at least 90% of its days have data, so a 90-day window still works with 89 returns
+function enoughObservations(count: number, windowDays: number): boolean {
+  return count >= Math.max(5, Math.ceil(windowDays * 0.9));
+}
+
+const compoundPercent = (logReturns: number[]) => (Math.exp(logReturns.reduce((sum, value) => sum + value, 0)) - 1) * 100;
+
+export function windowPerformance(candles: OhlcCandle[], windowDays: number): WindowPerformance {
+  const closes = candles.map(candle => candle.close).filter(close => close > 0);
+  if (!enoughObservations(closes.length - 1, windowDays)) {
+    return { windowDays, returnPercent: null, maxDrawdownPercent: null };
+  }
+
+  const window = closes.slice(-(windowDays + 1));
+  let peak = window[0];
+  let maxDrawdown = 0;
+  for (const close of window) {
+    peak = Math.max(peak, close);
+    maxDrawdown = Math.min(maxDrawdown, (close / peak - 1) * 100);
+  }
+  return { windowDays, returnPercent: (window[window.length - 1] / window[0] - 1) * 100, maxDrawdownPercent: maxDrawdown };
+}
+
+/**
+ * Correlation, beta and relative strength of an asset against a benchmark over the last windowDays aligned returns
+ */
+export function compareWithBenchmark(assetCandles: OhlcCandle[], benchmark: AssetHistory, windowDays: number): BenchmarkComparison {
+  const aligned = alignReturns(dailyReturns(assetCandles), dailyReturns(benchmark.candles));
+  const a = aligned.a.slice(-windowDays);
+  const b = aligned.b.slice(-windowDays);
+  const comparison: BenchmarkComparison = {
+    benchmarkId: benchmark.asset.id,
+    benchmarkSymbol: benchmark.asset.symbol,
+    windowDays,
+    correlation: null,
+    beta: null,
+    relativeStrength: null,
+    observations: a.length
+  };
+  if (!enoughObservations(a.length, windowDays)) return comparison;
+
+  const benchmarkVariance = covariance(b, b);
+  return {
+    ...comparison,
+    correlation: pearson(a, b),
+    beta: benchmarkVariance > 0 ? covariance(a, b) / benchmarkVariance : null,
+    relativeStrength: compoundPercent(a) - compoundPercent(b)
+  };
+}
+
+/**
+ * Trailing windowDays correlation evaluated for each of the last spanDays days; null without enough history
+ */
+export function rollingCorrelation(assetCandles: OhlcCandle[], benchmark: AssetHistory, windowDays: number, spanDays: number): RollingCorrelation | null {
+  const aligned = alignReturns(dailyReturns(assetCandles), dailyReturns(benchmark.candles));
+  const values: number[] = [];
+  for (let end = Math.max(windowDays, aligned.a.length - spanDays + 1); end <= aligned.a.length; end++) {
+    const value = pearson(aligned.a.slice(end - windowDays, end), aligned.b.slice(end - windowDays, end));
+    if (value !== null) values.push(value);
+  }
+  if (values.length < 2) return null;
+
+  return {
+    benchmarkId: benchmark.asset.id,
+    benchmarkSymbol: benchmark.asset.symbol,
+    windowDays,
+    latest: values[values.length - 1],
+    min: Math.min(...values),
+    max: Math.max(...values),
+    spanDays: values.length
+  };
+}
+
+export function correlationMatrix(histories: AssetHistory[], windowDays: number): CorrelationMatrix {
+  const returns = histories.map(history => dailyReturns(history.candles));
+  const values = returns.map((a, i) => returns.map((b, j) => {
+    if (i === j) return 1;
+    const aligned = alignReturns(a, b);
+    const x = aligned.a.slice(-windowDays);
+    return enoughObservations(x.length, windowDays) ? pearson(x, aligned.b.slice(-windowDays)) : null;
+  }));
+  return { windowDays, assets: histories.map(history => history.asset), values };
+}
+
+export function computeCrossAssetAnalysis(
+  history: AssetHistory,
+  benchmarks: AssetHistory[],
+  windows: number[] = config.correlation.windows,
+  rollingWindowDays: number = config.correlation.rollingWindowDays
+): CrossAssetAnalysis {
+  const { asset, candles } = history;
+  const others = benchmarks.filter(benchmark => benchmark.asset.id !== asset.id);
+  const longestWindow = Math.max(...windows);
+
+  return {
+    id: asset.id,
+    name: asset.name,
+    symbol: asset.symbol,
+    performance: windows.map(windowDays => windowPerformance(candles, windowDays)),
+    comparisons: others.flatMap(benchmark => windows.map(windowDays => compareWithBenchmark(candles, benchmark, windowDays))),
+    rollingCorrelations: others
+      .map(benchmark => rollingCorrelation(candles, benchmark, rollingWindowDays, longestWindow))
+      .filter((rolling): rolling is RollingCorrelation => rolling !== null),
+    candleCount: candles.length,
+    from: candles.length > 0 ? new Date(candles[0].timestamp).toISOString().split('T')[0] : '',
+    to: candles.length > 0 ? new Date(candles[candles.length - 1].timestamp).toISOString().split('T')[0] : ''
+  };
+}
+
+const fixed = (value: number | null, digits: number = 2) => (value === null ? 'N/A' : value.toFixed(digits));
+const signed = (value: number | null, suffix: string) => (value === null ? 'N/A' : `${value > 0 ? '+' : ''}${value.toFixed(1)}${suffix}`);
+
+/**
+ * Renders window performance, benchmark comparisons and the correlation matrix as markdown for the prompt and report
+ */
+export function renderCrossAssetSection(report: CrossAssetReport): string {
+  const windows = report.assets[0]?.performance.map(item => item.windowDays) || config.correlation.windows;
+  const rows = [...report.assets, ...report.benchmarks.filter(benchmark => !report.assets.some(asset => asset.id === benchmark.id))];
+
+  let markdown = `| Asset | ${windows.map(days => `${days}d Return | ${days}d Max Drawdown`).join(' | ')} |\n`;
+  markdown += `|---|${windows.map(() => '---|---').join('|')}|\n`;
+  for (const item of rows) {
+    markdown += `| ${item.symbol.toUpperCase()} | ${item.performance.map(window => `${signed(window.returnPercent, '%')} | ${signed(window.maxDrawdownPercent, '%')}`).join(' | ')} |\n`;
+  }
+
+  const compared = report.assets.filter(item => item.comparisons.length > 0);
+  if (compared.length > 0) {
+    markdown += `\nCorrelation (ρ), beta (β) and relative strength (RS, return minus the benchmark's) of daily returns:\n\n`;
+    markdown += `| Asset | vs | ${windows.map(days => `${days}d`).join(' | ')} |\n|---|---|${windows.map(() => '---').join('|')}|\n`;
+    for (const item of compared) {
+      for (const benchmarkId of [...new Set(item.comparisons.map(comparison => comparison.benchmarkId))]) {
+        const comparisons = item.comparisons.filter(comparison => comparison.benchmarkId === benchmarkId);
+        const cells = comparisons.map(comparison => `ρ ${fixed(comparison.correlation)} · β ${fixed(comparison.beta)} · RS ${signed(comparison.relativeStrength, 'pp')}`);
+        markdown += `| ${item.symbol.toUpperCase()} | ${comparisons[0].benchmarkSymbol.toUpperCase()} | ${cells.join(' | ')} |\n`;
+      }
+    }
+  }
+
+  const rolling = report.assets.flatMap(item => item.rollingCorrelations.map(value => ({ item, value })));
+  if (rolling.length > 0) {
+    markdown += `\n`;
+    for (const { item, value } of rolling) {
+      markdown += `- ${item.symbol.toUpperCase()} vs ${value.benchmarkSymbol.toUpperCase()}: ${value.windowDays}-day rolling correlation ranged ${value.min.toFixed(2)} to ${value.max.toFixed(2)} over the last ${value.spanDays} days, now ${value.latest.toFixed(2)}\n`;
+    }
+  }
+
+  const { matrix } = report;
+  if (matrix.assets.length > 1) {
+    markdown += `\n${matrix.windowDays}-day correlation matrix:\n\n`;
+    markdown += `| | ${matrix.assets.map(asset => asset.symbol.toUpperCase()).join(' | ')} |\n|---|${matrix.assets.map(() => '---').join('|')}|\n`;
+    matrix.values.forEach((row, i) => {
+      markdown += `| ${matrix.assets[i].symbol.toUpperCase()} | ${row.map(value => fixed(value)).join(' | ')} |\n`;
+    });
+  }
+
+  markdown += `\nComputed from daily closes: ${rows.map(item => `${item.symbol.toUpperCase()} ${item.candleCount} days (${item.from} to ${item.to})`).join('; ')}\n`;
+  return markdown;
+}
+
+/**
+ * Pulls daily history for the detected assets and the BTC/ETH benchmarks and computes how they move together
+ */
+export class CorrelationService {
+  constructor(private provider: MarketDataProvider = createMarketDataProvider()) {}
+
+  private async fetchHistory(asset: CoinInfo): Promise<AssetHistory | null> {
+    try {
+      return { asset, candles: await this.provider.getHistory(asset, config.correlation.historyDays) };
+    } catch (error: any) {
+      console.warn(`⚠️ No price history for ${asset.id}, leaving it out of the correlation analysis:`, error.message);
+      return null;
+    }
+  }
+
+  async analyzeAssets(assets: CoinInfo[]): Promise<CrossAssetReport | null> {
+    if (assets.length === 0) return null;
+    console.log(`🔗 Computing correlation and beta against ${config.correlation.benchmarks.map(benchmark => benchmark.symbol.toUpperCase()).join('/')}...`);
+
+    const histories = new Map<string, AssetHistory>();
+    for (const asset of [...config.correlation.benchmarks, ...assets]) {
+      if (histories.has(asset.id)) continue;
+      const history = await this.fetchHistory(asset);
+      if (history && history.candles.length > 1) histories.set(asset.id, history);
+    }
+
+    const benchmarks = config.correlation.benchmarks
+      .map(benchmark => histories.get(benchmark.id))
+      .filter((history): history is AssetHistory => !!history);
+    const detected = assets
+      .map(asset => histories.get(asset.id))
+      .filter((history): history is AssetHistory => !!history);
+    if (benchmarks.length === 0 || detected.length === 0) return null;
+
+    return {
+      benchmarks: benchmarks.map(history => computeCrossAssetAnalysis(history, [])),
+      assets: detected.map(history => computeCrossAssetAnalysis(history, benchmarks)),
+      matrix: correlationMatrix([...histories.values()], config.correlation.matrixWindowDays)
+    };
+  }
+}
@@ -0,0 +1,413 @@
+import { config } from "../config.js";
+import { createMarketDataProvider } from "./market-data-providers.js";
+import { EvmRpcClient, formatUnits, topicToAddress, ZERO_ADDRESS } from "./evm-rpc.js";
+import { OnChainService } from "./onchain.js";
+import {
+  AugmentedCoinData,
+  CoinInfo,
+  DexLiquidityAnalysis,
+  DexPoolLiquidity,
+  DexQuoteToken,
+  Erc20Token,
+  MarketDataProvider,
+  PriceImpactEstimate
+} from "../types/index.js";
+
+const SELECTORS = {
+  getPair: '0xe6a43905',
+  getPool: '0x1698ee82',
+  token0: '0x0dfe1681',
+  getReserves: '0x0902f1ac',
+  slot0: '0x3850c7bd',
+  liquidity: '0x1a686502',
+  tickSpacing: '0xd0c93a7c',
+  tickBitmap: '0x5339c296',
+  ticks: '0xf30dba93',
+  balanceOf: '0x70a08231'
+};
+
+const Q96 = 2 ** 96;
+
+const encodeWord = (value: number | bigint | string) => typeof value === 'string'
+  ? value.toLowerCase().replace(/^0x/, '').padStart(64, '0')
+  : BigInt.asUintN(256, BigInt(value)).toString(16).padStart(64, '0');
+
+function decodeWord(hex: string, index: number, signed: boolean = false): bigint {
+  const word = hex.replace(/^0x/, '').substring(index * 64, (index + 1) * 64);
+  if (word.length < 64) throw new Error(`Malformed ABI response (${hex.length} chars)`);
+  const value = BigInt(`0x${word}`);
+  return signed ? BigInt.asIntN(256, value) : value;
+}
+
+const tickToSqrtPrice = (tick: number) => Math.pow(1.0001, tick / 2);
+
+export function parseQuoteTokens(value: string = config.dex.quoteTokens): DexQuoteToken[] {
+  const tokens: DexQuoteToken[] = [];
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const match = entry.match(/^([^=]+)=(0x[0-9a-fA-F]{40}):(\d+):(.+)$/);
+    if (!match) {
+      console.warn(`⚠️ Ignoring invalid DEX_QUOTE_TOKENS entry "${entry}"`);
+      continue;
+    }
+    tokens.push({ symbol: match[1].trim(), address: match[2].toLowerCase(), decimals: parseInt(match[3], 10), coinId: match[4].trim() });
+  }
+  return tokens;
+}
+
+/**
+ * Constant-product output for `amountIn` against reserves, after the pool fee
+ */
+export function constantProductOut(amountIn: number, reserveIn: number, reserveOut: number, feePpm: number): number {
+  const effectiveIn = amountIn * (1 - feePpm / 1_000_000);
+  return (effectiveIn * reserveOut) / (reserveIn + effectiveIn);
+}
+
+export interface ConcentratedLiquidityState {
+  sqrtPrice: number;
+  tick: number;
+  liquidity: number;
+  /** Initialized ticks with their liquidityNet, sorted ascending */
+  ticks: Array<{ tick: number; liquidityNet: number }>;
+  /** Tick range covered by the scanned bitmap words; liquidity beyond it is unknown */
+  minTick: number;
+  maxTick: number;
+}
+
+/**
+ * Simulates a Uniswap v3 swap across initialized ticks in raw token units (float math, good enough for impact estimates).
+ * Returns null when the trade needs liquidity outside the scanned tick range.
+ */
+export function concentratedLiquidityOut(state: ConcentratedLiquidityState, amountIn: number, zeroForOne: boolean, feePpm: number): number | null {
+  let remaining = amountIn * (1 - feePpm / 1_000_000);
+  let sqrtPrice = state.sqrtPrice;
+  let liquidity = state.liquidity;
+  let out = 0;
+
+  const boundaries = zeroForOne
+    ? state.ticks.filter(item => item.tick <= state.tick).reverse()
+    : state.ticks.filter(item => item.tick > state.tick);
+  let next = 0;
+
+  while (remaining > 0) {
+    const boundary = boundaries[next];
+    const targetTick = boundary ? boundary.tick : (zeroForOne ? state.minTick : state.maxTick);
+    const target = tickToSqrtPrice(targetTick);
+
+    if (liquidity > 0) {
+      if (zeroForOne) {
+        const needed = liquidity * (1 / target - 1 / sqrtPrice);
+        if (remaining <= needed) {
+          const finalPrice = 1 / (1 / sqrtPrice + remaining / liquidity);
+          return out + liquidity * (sqrtPrice - finalPrice);
+        }
+        out += liquidity * (sqrtPrice - target);
+        remaining -= needed;
+      } else {
+        const needed = liquidity * (target - sqrtPrice);
+        if (remaining <= needed) {
+          const finalPrice = sqrtPrice + remaining / liquidity;
+          return out + liquidity * (1 / sqrtPrice - 1 / finalPrice);
+        }
+        out += liquidity * (1 / sqrtPrice - 1 / target);
+        remaining -= needed;
+      }
+    }
+
+    if (!boundary) return null;
+    sqrtPrice = target;
+    liquidity += zeroForOne ? -boundary.liquidityNet : boundary.liquidityNet;
+    next++;
+  }
+
+  return out;
+}
+
+interface PoolModel {
+  dex: DexPoolLiquidity['dex'];
+  address: string;
+  feePpm: number;
+  tokenIsToken0: boolean;
+  tokenReserve: number;
+  quoteReserve: number;
+  /** Price of one token in quote units */
+  spotPrice: number;
+  tick?: number;
+  /** Raw-unit output for a raw-unit input, null when liquidity data runs out */
+  swap: (amountInRaw: number, tokenIn: boolean) => number | null;
+}
+
+/**
+ * Buy and sell price impact for each USD trade size; buys spend the quote token, sells spend the analyzed token
+ */
+export function estimatePriceImpacts(
+  pool: PoolModel,
+  token: Erc20Token,
+  quote: DexQuoteToken,
+  quoteUsd: number,
+  sizesUsd: number[] = config.dex.tradeSizesUsd
+): PriceImpactEstimate[] {
+  const estimates: PriceImpactEstimate[] = [];
+  for (const sizeUsd of sizesUsd) {
+    const quoteIn = sizeUsd / quoteUsd;
+    const tokensOut = pool.swap(quoteIn * 10 ** quote.decimals, false);
+    estimates.push({
+      sizeUsd,
+      side: 'buy',
+      priceImpact: tokensOut && tokensOut > 0 ? (quoteIn / (tokensOut / 10 ** token.decimals)) / pool.spotPrice - 1 : null
+    });
+
+    const tokenIn = quoteIn / pool.spotPrice;
+    const quoteOut = pool.swap(tokenIn * 10 ** token.decimals, true);
+    estimates.push({
+      sizeUsd,
+      side: 'sell',
+      priceImpact: quoteOut !== null ? 1 - (quoteOut / 10 ** quote.decimals / tokenIn) / pool.spotPrice : null
+    });
+  }
+  return estimates;
+}
+
+/**
+ * Finds Uniswap v2/v3 pools for detected tokens and measures their liquidity and price impact
+ */
+export class DexLiquidityService {
+  private quoteTokens: DexQuoteToken[];
+
+  constructor(
+    private onChain: OnChainService = new OnChainService(),
+    private provider: MarketDataProvider = createMarketDataProvider()
+  ) {
+    this.quoteTokens = parseQuoteTokens();
+  }
+
+  get enabled(): boolean {
+    return config.dex.enabled && this.onChain.enabled && this.quoteTokens.length > 0 && !!(config.dex.v2Factory || config.dex.v3Factory);
+  }
+
+  private get rpc(): EvmRpcClient {
+    return this.onChain.rpc!;
+  }
+
+  private async callAddress(to: string, data: string): Promise<string> {
+    const result = await this.rpc.call(to, data);
+    return topicToAddress(result);
+  }
+
+  private async balanceOf(token: string, holder: string): Promise<bigint> {
+    return BigInt(await this.rpc.call(token, `${SELECTORS.balanceOf}${encodeWord(holder)}`));
+  }
+
+  private async loadV2Pool(token: Erc20Token, quote: DexQuoteToken): Promise<PoolModel | null> {
+    const pair = await this.callAddress(config.dex.v2Factory, `${SELECTORS.getPair}${encodeWord(token.address)}${encodeWord(quote.address)}`);
+    if (pair === ZERO_ADDRESS) return null;
+
+    const token0 = await this.callAddress(pair, SELECTORS.token0);
+    const reserves = await this.rpc.call(pair, SELECTORS.getReserves);
+    const tokenIsToken0 = token0 === token.address;
+    const tokenRaw = Number(decodeWord(reserves, tokenIsToken0 ? 0 : 1));
+    const quoteRaw = Number(decodeWord(reserves, tokenIsToken0 ? 1 : 0));
+    if (tokenRaw === 0 || quoteRaw === 0) return null;
+
+    const tokenReserve = tokenRaw / 10 ** token.decimals;
+    const quoteReserve = quoteRaw / 10 ** quote.decimals;
+    return {
+      dex: 'uniswap-v2',
+      address: pair,
+      feePpm: config.dex.v2FeePpm,
+      tokenIsToken0,
+      tokenReserve,
+      quoteReserve,
+      spotPrice: quoteReserve / tokenReserve,
+      swap: (amountIn, tokenIn) => tokenIn
+        ? constantProductOut(amountIn, tokenRaw, quoteRaw, config.dex.v2FeePpm)
+        : constantProductOut(amountIn, quoteRaw, tokenRaw, config.dex.v2FeePpm)
+    };
+  }
+
+  private async loadTicks(pool: string, tick: number, tickSpacing: number): Promise<ConcentratedLiquidityState['ticks']> {
+    const compressed = Math.floor(tick / tickSpacing);
+    const centerWord = compressed >> 8;
+    const initialized: number[] = [];
+
+    for (let word = centerWord - config.dex.tickWords; word <= centerWord + config.dex.tickWords; word++) {
+      const bitmap = BigInt(await this.rpc.call(pool, `${SELECTORS.tickBitmap}${encodeWord(word)}`));
+      if (bitmap === 0n) continue;
+      for (let bit = 0; bit < 256; bit++) {
+        if ((bitmap >> BigInt(bit)) & 1n) initialized.push((word * 256 + bit) * tickSpacing);
+      }
+    }
+
+    return Promise.all(initialized.map(async item => {
+      const info = await this.rpc.call(pool, `${SELECTORS.ticks}${encodeWord(item)}`);
+      return { tick: item, liquidityNet: Number(decodeWord(info, 1, true)) };
+    }));
+  }
+
+  private async loadV3Pool(token: Erc20Token, quote: DexQuoteToken, feePpm: number): Promise<PoolModel | null> {
+    const pool = await this.callAddress(config.dex.v3Factory, `${SELECTORS.getPool}${encodeWord(token.address)}${encodeWord(quote.address)}${encodeWord(feePpm)}`);
+    if (pool === ZERO_ADDRESS) return null;
+
+    const liquidity = Number(BigInt(await this.rpc.call(pool, SELECTORS.liquidity)));
+    if (liquidity === 0) return null;
+
+    const token0 = await this.callAddress(pool, SELECTORS.token0);
+    const slot0 = await this.rpc.call(pool, SELECTORS.slot0);
+    const tickSpacing = Number(decodeWord(await this.rpc.call(pool, SELECTORS.tickSpacing), 0, true));
+    const sqrtPrice = Number(decodeWord(slot0, 0)) / Q96;
+    const tick = Number(decodeWord(slot0, 1, true));
+    const ticks = await this.loadTicks(pool, tick, tickSpacing);
+    const centerWord = Math.floor(tick / tickSpacing) >> 8;
+    const state: ConcentratedLiquidityState = {
+      sqrtPrice,
+      tick,
+      liquidity,
+      ticks: ticks.sort((a, b) => a.tick - b.tick),
+      minTick: (centerWord - config.dex.tickWords) * 256 * tickSpacing,
+      maxTick: ((centerWord + config.dex.tickWords + 1) * 256 - 1) * tickSpacing
+    };
+
+    const tokenIsToken0 = token0 === token.address;
+    const [decimals0, decimals1] = tokenIsToken0 ? [token.decimals, quote.decimals] : [quote.decimals, token.decimals];
+    const price0In1 = sqrtPrice * sqrtPrice * 10 ** (decimals0 - decimals1);
+    const [tokenBalance, quoteBalance] = await Promise.all([this.balanceOf(token.address, pool), this.balanceOf(quote.address, pool)]);
+
+    return {
+      dex: 'uniswap-v3',
+      address: pool,
+      feePpm,
+      tokenIsToken0,
+      tokenReserve: formatUnits(tokenBalance, token.decimals),
+      quoteReserve: formatUnits(quoteBalance, quote.decimals),
+      spotPrice: tokenIsToken0 ? price0In1 : 1 / price0In1,
+      tick,
+      // Spending token0 pushes the price down (zeroForOne)
+      swap: (amountIn, tokenIn) => concentratedLiquidityOut(state, amountIn, tokenIn === tokenIsToken0, feePpm)
+    };
+  }
+
+  private async findPools(token: Erc20Token, quote: DexQuoteToken): Promise<PoolModel[]> {
+    const pools: PoolModel[] = [];
+    const attempts: Array<() => Promise<PoolModel | null>> = [];
+    if (config.dex.v2Factory) attempts.push(() => this.loadV2Pool(token, quote));
+    if (config.dex.v3Factory) {
+      for (const fee of config.dex.v3FeeTiers) attempts.push(() => this.loadV3Pool(token, quote, fee));
+    }
+    for (const attempt of attempts) {
+      try {
+        const pool = await attempt();
+        if (pool) pools.push(pool);
+      } catch (error: any) {
+        console.warn(`⚠️ Could not read ${token.symbol}/${quote.symbol} pool:`, error.message);
+      }
+    }
+    return pools;
+  }
+
+  private async getQuoteUsdPrices(): Promise<Record<string, number>> {
+    const assets = this.quoteTokens.map(quote => ({ id: quote.coinId, symbol: quote.symbol.toLowerCase(), name: quote.symbol }));
+    try {
+      const quotes = await this.provider.getQuotes(assets);
+      return Object.fromEntries(Object.entries(quotes).map(([id, coin]) => [id, coin.current_price]));
+    } catch (error: any) {
+      console.warn('⚠️ Could not price DEX quote tokens:', error.message);
+      return {};
+    }
+  }
+
+  async analyzeToken(asset: CoinInfo, token: Erc20Token, marketPriceUsd: number | null, quoteUsd: Record<string, number>): Promise<DexLiquidityAnalysis> {
+    const pools: DexPoolLiquidity[] = [];
+
+    for (const quote of this.quoteTokens) {
+      if (quote.address === token.address) continue;
+      const usd = quoteUsd[quote.coinId] ?? null;
+      for (const pool of await this.findPools(token, quote)) {
+        pools.push({
+          dex: pool.dex,
+          address: pool.address,
+          quoteSymbol: quote.symbol,
+          feePpm: pool.feePpm,
+          spotPrice: pool.spotPrice,
+          spotPriceUsd: usd !== null ? pool.spotPrice * usd : null,
+          tokenReserve: pool.tokenReserve,
+          quoteReserve: pool.quoteReserve,
+          tvlUsd: usd !== null ? (pool.tokenReserve * pool.spotPrice + pool.quoteReserve) * usd : null,
+          ...(pool.tick !== undefined ? { tick: pool.tick } : {}),
+          priceImpacts: usd !== null ? estimatePriceImpacts(pool, token, quote, usd) : []
+        });
+      }
+    }
+
+    pools.sort((a, b) => (b.tvlUsd ?? 0) - (a.tvlUsd ?? 0));
+    const dexPriceUsd = pools.find(pool => pool.spotPriceUsd !== null)?.spotPriceUsd ?? null;
+
+    return {
+      assetId: asset.id,
+      name: asset.name,
+      symbol: asset.symbol,
+      token,
+      pools: pools.slice(0, config.dex.maxPools),
+      totalTvlUsd: pools.reduce((sum, pool) => sum + (pool.tvlUsd ?? 0), 0),
+      dexPriceUsd,
+      marketPriceUsd,
+      priceDeviation: dexPriceUsd !== null && marketPriceUsd ? dexPriceUsd / marketPriceUsd - 1 : null
+    };
+  }
+
+  async analyzeAssets(assets: CoinInfo[], marketData: Record<string, AugmentedCoinData> = {}): Promise<DexLiquidityAnalysis[]> {
+    if (!this.enabled) return [];
+    const results: DexLiquidityAnalysis[] = [];
+    let quoteUsd: Record<string, number> | null = null;
+
+    for (const asset of assets) {
+      try {
+        const address = await this.onChain.resolveContractAddress(asset);
+        if (!address) {
+          console.log(`💧 ${asset.name} has no ERC-20 contract on ${config.onchain.platform}, skipping DEX liquidity`);
+          continue;
+        }
+        quoteUsd ??= await this.getQuoteUsdPrices();
+        const token = await this.onChain.readToken(address);
+        const analysis = await this.analyzeToken(asset, token, marketData[asset.id]?.current_price ?? null, quoteUsd);
+        console.log(`💧 ${asset.symbol.toUpperCase()}: ${analysis.pools.length} DEX pools, $${Math.round(analysis.totalTvlUsd).toLocaleString('en-US')} TVL`);
+        results.push(analysis);
+      } catch (error: any) {
+        console.warn(`⚠️ DEX liquidity analysis failed for ${asset.id}:`, error.message);
+      }
+    }
+
+    return results;
+  }
+}
+
+const usd = (value: number | null) => value === null ? 'N/A' : `$${value.toLocaleString('en-US', { maximumFractionDigits: value >= 1 ? 2 : 8 })}`;
+const percent = (value: number | null) => value === null ? 'beyond scanned liquidity' : `${(value * 100).toFixed(2)}%`;
+
+/**
+ * Renders DEX liquidity analyses as a prompt section
+ */
+export function renderDexLiquiditySection(analyses: DexLiquidityAnalysis[]): string {
+  let section = '';
+  for (const analysis of analyses) {
+    section += `### ${analysis.name} (${analysis.symbol.toUpperCase()})\n`;
+    if (analysis.pools.length === 0) {
+      section += `No Uniswap v2/v3 pools found against the configured quote tokens.\n\n`;
+      continue;
+    }
+    section += `**Total DEX TVL:** ${usd(analysis.totalTvlUsd)}\n`;
+    if (analysis.priceDeviation !== null) {
+      section += `**DEX price vs market price:** ${usd(analysis.dexPriceUsd)} vs ${usd(analysis.marketPriceUsd)} (${analysis.priceDeviation >= 0 ? '+' : ''}${(analysis.priceDeviation * 100).toFixed(2)}%)\n`;
+    }
+    section += `| Pool | Fee | Spot Price | TVL | ${config.dex.tradeSizesUsd.map(size => `Buy/Sell $${size.toLocaleString('en-US')}`).join(' | ')} |\n`;
+    section += `|------|-----|------------|-----|${config.dex.tradeSizesUsd.map(() => '------').join('|')}|\n`;
+    for (const pool of analysis.pools) {
+      const impacts = config.dex.tradeSizesUsd.map(size => {
+        const buy = pool.priceImpacts.find(item => item.sizeUsd === size && item.side === 'buy');
+        const sell = pool.priceImpacts.find(item => item.sizeUsd === size && item.side === 'sell');
+        return buy && sell ? `${percent(buy.priceImpact)} / ${percent(sell.priceImpact)}` : 'N/A';
+      });
+      section += `| ${pool.dex} ${analysis.symbol.toUpperCase()}/${pool.quoteSymbol} ${pool.address} | ${(pool.feePpm / 10000).toFixed(2)}% | ${usd(pool.spotPriceUsd)} | ${usd(pool.tvlUsd)} | ${impacts.join(' | ')} |\n`;
+    }
+    section += '\n';
+  }
+  return section;
+}
@@ -0,0 +1,147 @@
+import axios, { AxiosInstance } from 'axios';
+import { config } from "../config.js";
+import { recordable } from "../utils/cassette.js";
+
+export const ERC20_TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface EvmLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export class JsonRpcError extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: any) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+const toHex = (value: number | bigint) => `0x${value.toString(16)}`;
+
+export function topicToAddress(topic: string): string {
+  return `0x${topic.slice(-40)}`.toLowerCase();
+}
+
+export function addressToTopic(address: string): string {
+  return `0x${address.toLowerCase().replace(/^0x/, '').padStart(64, '0')}`;
+}
+
+/**
+ * Decodes an ABI-encoded `string` return value, falling back to a right-padded bytes32 (older tokens such as MKR)
+ */
+export function decodeAbiString(hex: string): string {
+  const data = hex.replace(/^0x/, '');
+  if (data.length === 64) {
+    return Buffer.from(data, 'hex').toString('utf8').replace(/\0+$/, '');
+  }
+  if (data.length < 128) return '';
+  const offset = parseInt(data.substring(0, 64), 16) * 2;
+  const length = parseInt(data.substring(offset, offset + 64), 16);
+  return Buffer.from(data.substring(offset + 64, offset + 64 + length * 2), 'hex').toString('utf8');
+}
+
+/**
+ * Scales a raw integer token amount by its decimals into a JS number (precision loss is acceptable for analytics)
+ */
+export function formatUnits(raw: bigint, decimals: number): number {
+  const base = 10n ** BigInt(decimals);
+  return Number(raw / base) + Number(raw % base) / Number(base);
+}
+
+function isRangeTooLarge(error: any): boolean {
+  const message = `${error?.message || ''} ${JSON.stringify(error?.data || '')}`.toLowerCase();
+  return /range|too many|more than|limit exceeded|10000 results|query timeout|response size/.test(message)
+    || error?.code === -32005;
+}
+
+/**
+ * Minimal EVM JSON-RPC client (works with any node: mainnet providers, anvil, hardhat)
+ */
+export class EvmRpcClient {
+  private client: AxiosInstance;
+  private nextId = 1;
+
+  constructor(readonly url: string = config.onchain.rpcUrl) {
+    this.client = axios.create({
+      timeout: config.onchain.requestTimeout,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async request<T = any>(method: string, params: any[] = []): Promise<T> {
+    return recordable('chain', { url: this.url, method, params }, async () => {
+      const { data } = await this.client.post(this.url, { jsonrpc: '2.0', id: this.nextId++, method, params });
+      if (data?.error) {
+        throw new JsonRpcError(data.error.code, `${method} failed: ${data.error.message}`, data.error.data);
+      }
+      return data?.result as T;
+    });
+  }
+
+  async blockNumber(): Promise<number> {
+    return parseInt(await this.request<string>('eth_blockNumber'), 16);
+  }
+
+  async getBlockTimestamp(blockNumber: number): Promise<Date | null> {
+    const block = await this.request<any>('eth_getBlockByNumber', [toHex(blockNumber), false]);
+    return block?.timestamp ? new Date(parseInt(block.timestamp, 16) * 1000) : null;
+  }
+
+  /**
+   * eth_call at the latest block, or at a past block (which needs an archive node on real networks)
+   */
+  async call(to: string, data: string, blockTag: number | 'latest' = 'latest'): Promise<string> {
+    return this.request<string>('eth_call', [{ to, data }, blockTag === 'latest' ? blockTag : toHex(blockTag)]);
+  }
+
+  /**
+   * eth_getLogs over [fromBlock, toBlock] in chunks, halving the chunk whenever the node rejects a range as too large
+   */
+  async getLogs(
+    filter: { address: string; topics: Array<string | null> },
+    fromBlock: number,
+    toBlock: number,
+    maxBlocksPerQuery: number = config.onchain.maxBlocksPerQuery
+  ): Promise<EvmLog[]> {
+    const logs: EvmLog[] = [];
+    let chunk = Math.max(1, maxBlocksPerQuery);
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      const end = Math.min(toBlock, start + chunk - 1);
+      try {
+        const raw = await this.request<any[]>('eth_getLogs', [{
+          address: filter.address,
+          topics: filter.topics,
+          fromBlock: toHex(start),
+          toBlock: toHex(end)
+        }]);
+        for (const log of raw || []) {
+          logs.push({
+            address: log.address.toLowerCase(),
+            topics: log.topics,
+            data: log.data,
+            blockNumber: parseInt(log.blockNumber, 16),
+            transactionHash: log.transactionHash,
+            logIndex: parseInt(log.logIndex, 16)
+          });
+        }
+        start = end + 1;
+      } catch (error: any) {
+        if (chunk > 1 && isRangeTooLarge(error)) {
+          chunk = Math.max(1, Math.floor(chunk / 2));
+          console.warn(`⚠️ eth_getLogs range too large, retrying with ${chunk} blocks per query`);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return logs;
+  }
+}
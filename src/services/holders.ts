@@ -0,0 +1,313 @@
+import fs from 'fs/promises';
+import { config } from "../config.js";
+import { addressToTopic, ERC20_TRANSFER_TOPIC, EvmRpcClient, formatUnits, topicToAddress, ZERO_ADDRESS } from "./evm-rpc.js";
+import { OnChainService } from "./onchain.js";
+import {
+  AddressLabel,
+  AddressLabelCategory,
+  CoinInfo,
+  Erc20Token,
+  HolderConcentrationSnapshot,
+  HolderDistribution
+} from "../types/index.js";
+
+const BALANCE_OF_SELECTOR = '0x70a08231';
+const TOTAL_SUPPLY_SELECTOR = '0x18160ddd';
+const LABEL_CATEGORIES: AddressLabelCategory[] = ['exchange', 'bridge', 'treasury', 'team', 'burn', 'contract', 'other'];
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Loads known address labels; a missing file just means no labels
+ */
+export async function loadAddressLabels(filePath: string = config.holders.labelsFile): Promise<Map<string, AddressLabel>> {
+  let raw: any;
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      console.log(`🏷️ No address label file at ${filePath}, holders will be unlabelled`);
+      return new Map();
+    }
+    throw new Error(`Could not read address labels from ${filePath}: ${error.message}`);
+  }
+
+  const entries: any[] = Array.isArray(raw) ? raw : raw?.labels;
+  if (!Array.isArray(entries)) {
+    throw new Error(`${filePath} must contain an array of labels or { "labels": [...] }`);
+  }
+
+  const errors: string[] = [];
+  const labels = new Map<string, AddressLabel>();
+  entries.forEach((entry, index) => {
+    const label = entry?.name ? `"${entry.name}"` : `#${index + 1}`;
+    if (typeof entry?.address !== 'string' || !ADDRESS_PATTERN.test(entry.address)) {
+      errors.push(`${label}: "address" must be a 0x-prefixed 20-byte hex address`);
+      return;
+    }
+    if (typeof entry?.name !== 'string' || !entry.name.trim()) {
+      errors.push(`${label}: "name" is required`);
+    }
+    if (!LABEL_CATEGORIES.includes(entry?.category)) {
+      errors.push(`${label}: "category" must be one of ${LABEL_CATEGORIES.join(', ')}`);
+    }
+    labels.set(entry.address.toLowerCase(), { address: entry.address.toLowerCase(), name: entry.name, category: entry.category });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid address labels in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return labels;
+}
+
+/**
+ * Gini coefficient of holder balances (0 = every holder has the same amount, approaching 1 as a few holders dominate)
+ */
+export function giniCoefficient(values: number[]): number {
+  const sorted = values.filter(value => value > 0).sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  if (n === 0 || total === 0) return 0;
+  const weighted = sorted.reduce((sum, value, index) => sum + (index + 1) * value, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+/**
+ * Concentration metrics for one balance snapshot; shares are fractions of `supplyRaw`
+ */
+export function buildConcentrationSnapshot(
+  block: number,
+  timestamp: string | null,
+  balances: Map<string, bigint>,
+  decimals: number,
+  supplyRaw: bigint,
+  labels: Map<string, AddressLabel> = new Map()
+): HolderConcentrationSnapshot {
+  const holders = [...balances.entries()]
+    .filter(([address, balance]) => address !== ZERO_ADDRESS && balance > 0n)
+    .sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0))
+    .map(([address, balance]) => ({ address, balance: formatUnits(balance, decimals) }));
+
+  const supply = formatUnits(supplyRaw, decimals);
+  const shareOf = (balance: number) => (supply > 0 ? balance / supply : 0);
+
+  const topShares: Record<string, number> = {};
+  for (const count of config.holders.topCounts) {
+    topShares[`top${count}`] = shareOf(holders.slice(0, count).reduce((sum, holder) => sum + holder.balance, 0));
+  }
+
+  const labelledShares: HolderConcentrationSnapshot['labelledShares'] = {};
+  for (const holder of holders) {
+    const label = labels.get(holder.address);
+    if (label) labelledShares[label.category] = (labelledShares[label.category] || 0) + shareOf(holder.balance);
+  }
+
+  return {
+    block,
+    timestamp,
+    supply,
+    holderCount: holders.length,
+    topShares,
+    gini: giniCoefficient(holders.map(holder => holder.balance)),
+    thresholdCounts: config.holders.thresholdShares.map(minShare => ({
+      minShare,
+      count: holders.filter(holder => shareOf(holder.balance) >= minShare).length
+    })),
+    labelledShares,
+    topHolders: holders.slice(0, config.holders.listTop).map(holder => ({
+      ...holder,
+      share: shareOf(holder.balance),
+      ...(labels.has(holder.address) ? { label: labels.get(holder.address) } : {})
+    }))
+  };
+}
+
+/**
+ * Replays Transfer logs into balances, returning the final balances and a copy taken at `snapshotBlock`
+ */
+export function replayTransfers(
+  logs: Array<{ topics: string[]; data: string; blockNumber: number; logIndex: number }>,
+  snapshotBlock: number | null = null
+): { balances: Map<string, bigint>; snapshot: Map<string, bigint> | null } {
+  const balances = new Map<string, bigint>();
+  let snapshot: Map<string, bigint> | null = null;
+  const ordered = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  for (const log of ordered) {
+    if (log.topics.length !== 3) continue;
+    if (snapshotBlock !== null && !snapshot && log.blockNumber > snapshotBlock) {
+      snapshot = new Map(balances);
+    }
+    const from = topicToAddress(log.topics[1]);
+    const to = topicToAddress(log.topics[2]);
+    const amount = log.data && log.data !== '0x' ? BigInt(log.data.substring(0, 66)) : 0n;
+    if (from !== ZERO_ADDRESS) balances.set(from, (balances.get(from) || 0n) - amount);
+    if (to !== ZERO_ADDRESS) balances.set(to, (balances.get(to) || 0n) + amount);
+  }
+
+  if (snapshotBlock !== null && !snapshot) snapshot = new Map(balances);
+  return { balances, snapshot };
+}
+
+const sumBalances = (balances: Map<string, bigint>) => [...balances.values()].reduce((sum, balance) => (balance > 0n ? sum + balance : sum), 0n);
+
+/**
+ * Computes holder distribution and concentration for detected ERC-20 tokens
+ */
+export class HolderDistributionService {
+  private labels: Promise<Map<string, AddressLabel>> | null = null;
+
+  constructor(
+    private onChain: OnChainService = new OnChainService(),
+    private addresses: string[] = config.holders.addresses.split(',').map(item => item.trim().toLowerCase()).filter(item => ADDRESS_PATTERN.test(item))
+  ) {}
+
+  get enabled(): boolean {
+    return config.holders.enabled && this.onChain.enabled;
+  }
+
+  private getLabels(): Promise<Map<string, AddressLabel>> {
+    if (!this.labels) this.labels = loadAddressLabels();
+    return this.labels;
+  }
+
+  /**
+   * Rebuilds every balance from the Transfer history since config.holders.fromBlock
+   */
+  private async fromTransfers(rpc: EvmRpcClient, token: Erc20Token, toBlock: number, compareBlock: number | null) {
+    const fromBlock = Math.min(config.holders.fromBlock, toBlock);
+    console.log(`🏦 Replaying ${token.symbol || token.address} transfers from block ${fromBlock} to ${toBlock}...`);
+    const logs = await rpc.getLogs({ address: token.address, topics: [ERC20_TRANSFER_TOPIC] }, fromBlock, toBlock);
+    const usableCompare = compareBlock !== null && compareBlock >= fromBlock ? compareBlock : null;
+    const { balances, snapshot } = replayTransfers(logs, usableCompare);
+    return {
+      current: { balances, supply: sumBalances(balances) },
+      previous: snapshot && usableCompare !== null ? { balances: snapshot, supply: sumBalances(snapshot) } : null
+    };
+  }
+
+  private async readBalances(rpc: EvmRpcClient, token: Erc20Token, block: number) {
+    const balances = new Map<string, bigint>();
+    for (const address of this.addresses) {
+      const result = await rpc.call(token.address, `${BALANCE_OF_SELECTOR}${addressToTopic(address).slice(2)}`, block);
+      balances.set(address, BigInt(result));
+    }
+    const supply = BigInt(await rpc.call(token.address, TOTAL_SUPPLY_SELECTOR, block));
+    return { balances, supply };
+  }
+
+  /**
+   * Reads balanceOf for the configured address list; the earlier block needs an archive node and is skipped otherwise
+   */
+  private async fromAddressList(rpc: EvmRpcClient, token: Erc20Token, toBlock: number, compareBlock: number | null) {
+    const current = await this.readBalances(rpc, token, toBlock);
+    let previous: typeof current | null = null;
+    if (compareBlock !== null) {
+      try {
+        previous = await this.readBalances(rpc, token, compareBlock);
+      } catch (error: any) {
+        console.warn(`⚠️ Could not read balances at block ${compareBlock} (archive node required):`, error.message);
+      }
+    }
+    return { current, previous };
+  }
+
+  async analyzeToken(asset: CoinInfo, token: Erc20Token): Promise<HolderDistribution> {
+    const rpc = this.onChain.rpc!;
+    const labels = await this.getLabels();
+    const toBlock = await rpc.blockNumber();
+    const compareBlock = config.holders.compareBlocks > 0 && toBlock - config.holders.compareBlocks >= 0
+      ? toBlock - config.holders.compareBlocks
+      : null;
+    const method = this.addresses.length > 0 ? 'balances' : 'transfers';
+    const { current, previous } = method === 'balances'
+      ? await this.fromAddressList(rpc, token, toBlock, compareBlock)
+      : await this.fromTransfers(rpc, token, toBlock, compareBlock);
+
+    const timestampOf = (block: number) => rpc.getBlockTimestamp(block).then(date => date?.toISOString() ?? null).catch(() => null);
+    const currentSnapshot = buildConcentrationSnapshot(toBlock, await timestampOf(toBlock), current.balances, token.decimals, current.supply, labels);
+    const previousSnapshot = previous && compareBlock !== null
+      ? buildConcentrationSnapshot(compareBlock, await timestampOf(compareBlock), previous.balances, token.decimals, previous.supply, labels)
+      : null;
+
+    return {
+      assetId: asset.id,
+      name: asset.name,
+      symbol: asset.symbol,
+      token,
+      method,
+      current: currentSnapshot,
+      previous: previousSnapshot,
+      change: previousSnapshot ? {
+        blocks: currentSnapshot.block - previousSnapshot.block,
+        holderCount: currentSnapshot.holderCount - previousSnapshot.holderCount,
+        gini: currentSnapshot.gini - previousSnapshot.gini,
+        topShares: Object.fromEntries(Object.entries(currentSnapshot.topShares)
+          .map(([key, share]) => [key, share - (previousSnapshot.topShares[key] ?? 0)]))
+      } : null
+    };
+  }
+
+  async analyzeAssets(assets: CoinInfo[]): Promise<HolderDistribution[]> {
+    if (!this.enabled) return [];
+    const results: HolderDistribution[] = [];
+
+    for (const asset of assets) {
+      try {
+        const address = await this.onChain.resolveContractAddress(asset);
+        if (!address) {
+          console.log(`🏦 ${asset.name} has no ERC-20 contract on ${config.onchain.platform}, skipping holder analysis`);
+          continue;
+        }
+        const token = await this.onChain.readToken(address);
+        const distribution = await this.analyzeToken(asset, token);
+        console.log(`🏦 ${asset.symbol.toUpperCase()}: ${distribution.current.holderCount} holders, top 10 hold ${(distribution.current.topShares.top10 * 100).toFixed(1)}%, Gini ${distribution.current.gini.toFixed(3)}`);
+        results.push(distribution);
+      } catch (error: any) {
+        console.warn(`⚠️ Holder analysis failed for ${asset.id}:`, error.message);
+      }
+    }
+
+    return results;
+  }
+}
+
+const percent = (share: number) => `${(share * 100).toFixed(2)}%`;
+const signedPoints = (delta: number) => `${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(2)} pts`;
+
+/**
+ * Renders one asset's holder distribution as markdown (used in both the prompt and the report)
+ */
+export function renderHolderDistribution(distribution: HolderDistribution): string {
+  const { current, previous, change } = distribution;
+  const symbol = distribution.symbol.toUpperCase();
+  const source = distribution.method === 'transfers' ? 'reconstructed from Transfer history' : 'balanceOf for a supplied address list';
+  let section = `**Holders:** ${current.holderCount} at block ${current.block} (${source})\n`;
+  section += `**Concentration:** ${Object.entries(current.topShares).map(([key, share]) => `${key.replace('top', 'top ')} hold ${percent(share)}`).join(', ')}; Gini ${current.gini.toFixed(3)}\n`;
+  section += `**Holders above thresholds:** ${current.thresholdCounts.map(item => `${item.count} with >= ${percent(item.minShare)}`).join(', ')}\n`;
+
+  const labelled = Object.entries(current.labelledShares);
+  if (labelled.length > 0) {
+    section += `**Labelled holdings:** ${labelled.map(([category, share]) => `${category} ${percent(share!)}`).join(', ')}\n`;
+  }
+
+  if (previous && change) {
+    section += `**Change over ${change.blocks} blocks:** holders ${change.holderCount >= 0 ? '+' : ''}${change.holderCount}, Gini ${change.gini >= 0 ? '+' : ''}${change.gini.toFixed(3)}, `;
+    section += `${Object.entries(change.topShares).map(([key, delta]) => `${key.replace('top', 'top ')} ${signedPoints(delta)}`).join(', ')}\n`;
+  }
+
+  if (current.topHolders.length > 0) {
+    section += `\n| # | Address | Label | Balance | Share |\n|---|---------|-------|---------|-------|\n`;
+    current.topHolders.forEach((holder, index) => {
+      const label = holder.label ? `${holder.label.name} (${holder.label.category})` : '';
+      section += `| ${index + 1} | ${holder.address} | ${label} | ${holder.balance.toLocaleString('en-US', { maximumFractionDigits: 0 })} ${symbol} | ${percent(holder.share)} |\n`;
+    });
+  }
+
+  return section;
+}
+
+export function renderHolderSection(distributions: HolderDistribution[]): string {
+  return distributions
+    .map(distribution => `### ${distribution.name} (${distribution.symbol.toUpperCase()}) - ${distribution.token.address}\n${renderHolderDistribution(distribution)}\n`)
+    .join('');
+}
@@ -3,3 +3,25 @@ export * from './scraper.js';
 export * from './market-data.js';
 export * from './prompt-builder.js';
 export * from './synonym-generator.js';
+export * from './analysis-report.js';
+export * from './citations.js';
+export * from './technical-indicators.js';
+export * from './market-data-providers.js';
+export * from './vector-store.js';
+export * from './content-retriever.js';
+export * from './scrape-scheduler.js';
+export * from './page-cache.js';
+export * from './watchlist.js';
+export * from './alerts.js';
+export * from './social-sentiment.js';
+export * from './evm-rpc.js';
+export * from './onchain.js';
+export * from './holders.js';
+export * from './dex-liquidity.js';
+export * from './contract-resolver.js';
+export * from './token-matcher.js';
+export * from './sessions.js';
+export * from './report-export.js';
+export * from './portfolio.js';
+export * from './correlation.js';
+export * from './predictions.js';
@@ -0,0 +1,526 @@
+import axios, { AxiosInstance } from 'axios';
+import * as fs from 'fs/promises';
+import { config } from "../config.js";
+import { cassette, recordable } from "../utils/cassette.js";
+import {
+  AugmentedCoinData,
+  CoinInfo,
+  ContractListing,
+  MarketData,
+  MarketDataProvider,
+  OhlcCandle
+} from "../types/index.js";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Aggregates timestamped price and volume samples (e.g. CoinGecko market_chart) into daily UTC candles
+ */
+export function aggregateDailyCandles(prices: Array<[number, number]>, volumes: Array<[number, number]>): OhlcCandle[] {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const candles = new Map<number, OhlcCandle>();
+
+  for (const [timestamp, price] of prices) {
+    const day = Math.floor(timestamp / dayMs) * dayMs;
+    const candle = candles.get(day);
+    if (!candle) {
+      candles.set(day, { timestamp: day, open: price, high: price, low: price, close: price, volume: 0 });
+    } else {
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+    }
+  }
+
+  for (const [timestamp, volume] of volumes) {
+    const candle = candles.get(Math.floor(timestamp / dayMs) * dayMs);
+    if (candle) candle.volume = volume;
+  }
+
+  return [...candles.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * CoinGecko markets API; uses the pro endpoint when COINGECKO_API_KEY is set and the public endpoint otherwise
+ */
+export class CoinGeckoProvider implements MarketDataProvider {
+  readonly name = 'coingecko';
+  private client: AxiosInstance;
+  private delayMs: number;
+
+  constructor(apiKey: string = config.coingecko.apiKey) {
+    this.client = axios.create({
+      baseURL: apiKey ? 'https://pro-api.coingecko.com/api/v3' : 'https://api.coingecko.com/api/v3',
+      headers: apiKey ? { 'x-cg-pro-api-key': apiKey } : undefined,
+      timeout: 15000
+    });
+    this.delayMs = apiKey ? 120 : 2500;
+  }
+
+  async listAssets({ minMarketCap, minVolume }: { minMarketCap: number; minVolume: number }): Promise<MarketData[]> {
+    const perPage = 250;
+    const results: MarketData[] = [];
+    let page = 1;
+    let retries = 0;
+
+    while (true) {
+      await sleep(this.delayMs);
+
+      try {
+        const resp = await this.client.get('/coins/markets', {
+          params: {
+            vs_currency: 'usd',
+            order: 'market_cap_desc',
+            per_page: perPage,
+            page
+          }
+        });
+        const data: MarketData[] = resp.data;
+        if (!Array.isArray(data) || data.length === 0) break;
+
+        const filtered = data.filter(
+          c =>
+            c.market_cap >= minMarketCap &&
+            c.total_volume >= minVolume
+        );
+        results.push(...filtered);
+
+        // Pages are ordered by market cap, so once a page ends below the threshold nothing later qualifies
+        if (data.length < perPage || (data[data.length - 1].market_cap ?? 0) < minMarketCap) break;
+        page++;
+        retries = 0;
+      } catch (err: any) {
+        if (err.response?.status === 429 && retries < config.marketData.maxRetries) {
+          retries++;
+          console.warn(`Rate limit hit on page ${page}, backing off...`);
+          await sleep(1000 * 2 ** retries);
+          continue;
+        }
+        throw err;
+      }
+    }
+
+    return results;
+  }
+
+  async getQuotes(assets: CoinInfo[]): Promise<Record<string, AugmentedCoinData>> {
+    if (assets.length === 0) return {};
+
+    const { data } = await this.client.get('/coins/markets', {
+      params: { vs_currency: 'usd', ids: assets.map(asset => asset.id).join(',') }
+    });
+
+    const quotes: Record<string, AugmentedCoinData> = {};
+    for (const item of data) {
+      quotes[item.id] = {
+        id: item.id,
+        name: item.name,
+        symbol: item.symbol,
+        current_price: item.current_price,
+        market_cap: item.market_cap,
+        total_volume: item.total_volume,
+        price_change_24h: item.price_change_percentage_24h,
+        high_24h: item.high_24h,
+        low_24h: item.low_24h,
+        market_cap_rank: item.market_cap_rank,
+        ath: item.ath,
+        ath_date: item.ath_date,
+        circulating_supply: item.circulating_supply,
+        source: this.name
+      };
+    }
+    return quotes;
+  }
+
+  async getHistory(asset: CoinInfo, days: number): Promise<OhlcCandle[]> {
+    const { data } = await this.client.get(`/coins/${encodeURIComponent(asset.id)}/market_chart`, {
+      params: { vs_currency: 'usd', days }
+    });
+    return aggregateDailyCandles(data.prices || [], data.total_volumes || []);
+  }
+
+  async getContractAddresses(asset: CoinInfo): Promise<Record<string, string>> {
+    const { data } = await this.client.get(`/coins/${encodeURIComponent(asset.id)}`, {
+      params: { localization: false, tickers: false, market_data: false, community_data: false, developer_data: false }
+    });
+    const addresses: Record<string, string> = {};
+    for (const [platform, address] of Object.entries(data.platforms || {})) {
+      if (platform && typeof address === 'string' && address) addresses[platform] = address;
+    }
+    return addresses;
+  }
+
+  async listContracts(): Promise<ContractListing[]> {
+    const { data } = await this.client.get('/coins/list', { params: { include_platform: true }, timeout: 60000 });
+    return (data as any[]).map(coin => ({
+      id: coin.id,
+      symbol: coin.symbol,
+      name: coin.name,
+      platforms: Object.fromEntries(Object.entries(coin.platforms || {}).filter(([platform, address]) => platform && typeof address === 'string' && address)) as Record<string, string>
+    }));
+  }
+
+  async getExchangeRate(currency: string): Promise<number> {
+    const code = currency.toLowerCase();
+    if (code === 'usd') return 1;
+    // Rates are quoted per BTC, so the USD rate converts them to per-USD
+    const { data } = await this.client.get('/exchange_rates');
+    const rate = data?.rates?.[code]?.value;
+    const usd = data?.rates?.usd?.value;
+    if (!rate || !usd) {
+      throw new Error(`CoinGecko has no exchange rate for "${currency}"`);
+    }
+    return rate / usd;
+  }
+}
+
+/**
+ * CoinPaprika public API (no key required). Paprika ids look like "btc-bitcoin"; they are mapped to
+ * CoinGecko-style ids by dropping the symbol prefix, and resolved back by symbol and name when that fails.
+ */
+export class CoinPaprikaProvider implements MarketDataProvider {
+  readonly name = 'coinpaprika';
+  private client: AxiosInstance;
+  private tickers?: { fetchedAt: number; data: any[] };
+
+  constructor() {
+    this.client = axios.create({ baseURL: 'https://api.coinpaprika.com/v1', timeout: 20000 });
+  }
+
+  static toCanonicalId(paprikaId: string, symbol: string): string {
+    const prefix = `${symbol.toLowerCase()}-`;
+    return paprikaId.startsWith(prefix) ? paprikaId.substring(prefix.length) : paprikaId;
+  }
+
+  private async fetchTickers(): Promise<any[]> {
+    if (this.tickers && Date.now() - this.tickers.fetchedAt < config.marketData.cacheTimeout) {
+      return this.tickers.data;
+    }
+    const { data } = await this.client.get('/tickers', { params: { quotes: 'USD' } });
+    this.tickers = { fetchedAt: Date.now(), data };
+    return data;
+  }
+
+  private async resolveTicker(asset: CoinInfo): Promise<any | undefined> {
+    const tickers = await this.fetchTickers();
+    const symbol = asset.symbol.toLowerCase();
+    const name = asset.name.toLowerCase();
+
+    return tickers.find(ticker => CoinPaprikaProvider.toCanonicalId(ticker.id, ticker.symbol) === asset.id)
+      || tickers.find(ticker => ticker.symbol.toLowerCase() === symbol && ticker.name.toLowerCase() === name);
+  }
+
+  private toQuote(asset: CoinInfo, ticker: any): AugmentedCoinData {
+    const usd = ticker.quotes?.USD || {};
+    return {
+      id: asset.id,
+      name: ticker.name,
+      symbol: ticker.symbol.toLowerCase(),
+      current_price: usd.price,
+      market_cap: usd.market_cap,
+      total_volume: usd.volume_24h,
+      price_change_24h: usd.percent_change_24h,
+      high_24h: null,
+      low_24h: null,
+      market_cap_rank: ticker.rank || null,
+      ath: usd.ath_price ?? null,
+      ath_date: usd.ath_date ?? null,
+      circulating_supply: ticker.circulating_supply ?? null,
+      source: this.name
+    };
+  }
+
+  async listAssets({ minMarketCap, minVolume }: { minMarketCap: number; minVolume: number }): Promise<MarketData[]> {
+    const tickers = await this.fetchTickers();
+
+    return tickers
+      .filter(ticker => (ticker.quotes?.USD?.market_cap ?? 0) >= minMarketCap && (ticker.quotes?.USD?.volume_24h ?? 0) >= minVolume)
+      .map(ticker => ({
+        id: CoinPaprikaProvider.toCanonicalId(ticker.id, ticker.symbol),
+        symbol: ticker.symbol.toLowerCase(),
+        name: ticker.name,
+        market_cap: ticker.quotes.USD.market_cap,
+        total_volume: ticker.quotes.USD.volume_24h,
+        current_price: ticker.quotes.USD.price,
+        price_change_percentage_24h: ticker.quotes.USD.percent_change_24h,
+        high_24h: null,
+        low_24h: null
+      }));
+  }
+
+  async getQuotes(assets: CoinInfo[]): Promise<Record<string, AugmentedCoinData>> {
+    const quotes: Record<string, AugmentedCoinData> = {};
+    for (const asset of assets) {
+      const ticker = await this.resolveTicker(asset);
+      if (ticker) {
+        quotes[asset.id] = this.toQuote(asset, ticker);
+      }
+    }
+    return quotes;
+  }
+
+  async getHistory(asset: CoinInfo, days: number): Promise<OhlcCandle[]> {
+    const ticker = await this.resolveTicker(asset);
+    if (!ticker) {
+      throw new Error(`No CoinPaprika ticker found for ${asset.id}`);
+    }
+
+    const start = new Date(cassette.now().getTime() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const { data } = await this.client.get(`/tickers/${ticker.id}/historical`, {
+      params: { start, interval: '1h', limit: 5000 }
+    });
+
+    const prices: Array<[number, number]> = data.map((point: any) => [Date.parse(point.timestamp), point.price]);
+    const volumes: Array<[number, number]> = data.map((point: any) => [Date.parse(point.timestamp), point.volume_24h]);
+    return aggregateDailyCandles(prices, volumes);
+  }
+}
+
+interface MarketDataFixture {
+  assets: MarketData[];
+  quotes?: Record<string, AugmentedCoinData>;
+  history?: Record<string, OhlcCandle[]>;
+  contracts?: Record<string, Record<string, string>>;
+  /** Units per 1 USD, keyed by lowercase currency code */
+  exchangeRates?: Record<string, number>;
+}
+
+/**
+ * Serves assets, quotes and history from a local JSON file so the pipeline can run without API keys or network
+ */
+export class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly name = 'fixture';
+  private fixture?: MarketDataFixture;
+
+  constructor(private filePath: string = config.marketData.fixturePath) {}
+
+  private async load(): Promise<MarketDataFixture> {
+    if (!this.fixture) {
+      const fixture = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      if (!Array.isArray(fixture.assets)) {
+        throw new Error(`Market data fixture ${this.filePath} has no "assets" array`);
+      }
+      this.fixture = fixture as MarketDataFixture;
+    }
+    return this.fixture;
+  }
+
+  async listAssets({ minMarketCap, minVolume }: { minMarketCap: number; minVolume: number }): Promise<MarketData[]> {
+    const { assets } = await this.load();
+    return assets.filter(asset => asset.market_cap >= minMarketCap && asset.total_volume >= minVolume);
+  }
+
+  async getQuotes(assets: CoinInfo[]): Promise<Record<string, AugmentedCoinData>> {
+    const fixture = await this.load();
+    const quotes: Record<string, AugmentedCoinData> = {};
+
+    for (const asset of assets) {
+      const quote = fixture.quotes?.[asset.id];
+      const listed = fixture.assets.find(item => item.id === asset.id);
+      if (quote) {
+        quotes[asset.id] = { ...quote, id: asset.id, source: this.name };
+      } else if (listed) {
+        quotes[asset.id] = {
+          id: listed.id,
+          name: listed.name,
+          symbol: listed.symbol,
+          current_price: listed.current_price,
+          market_cap: listed.market_cap,
+          total_volume: listed.total_volume,
+          price_change_24h: listed.price_change_percentage_24h,
+          high_24h: listed.high_24h,
+          low_24h: listed.low_24h,
+          source: this.name
+        };
+      }
+    }
+    return quotes;
+  }
+
+  async getHistory(asset: CoinInfo, days: number): Promise<OhlcCandle[]> {
+    const { history } = await this.load();
+    const candles = history?.[asset.id] || [];
+    return candles.slice(-days);
+  }
+
+  async getContractAddresses(asset: CoinInfo): Promise<Record<string, string>> {
+    const { contracts } = await this.load();
+    return contracts?.[asset.id] || {};
+  }
+
+  async listContracts(): Promise<ContractListing[]> {
+    const { assets, contracts } = await this.load();
+    return assets.map(asset => ({ id: asset.id, symbol: asset.symbol, name: asset.name, platforms: contracts?.[asset.id] || {} }));
+  }
+
+  async getExchangeRate(currency: string): Promise<number> {
+    const code = currency.toLowerCase();
+    if (code === 'usd') return 1;
+    const { exchangeRates } = await this.load();
+    const rate = exchangeRates?.[code];
+    if (!rate) {
+      throw new Error(`Market data fixture ${this.filePath} has no exchange rate for "${currency}"`);
+    }
+    return rate;
+  }
+}
+
+/**
+ * Tries each provider in order; quotes missing from one provider are filled in from the next
+ */
+export class FailoverMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+
+  constructor(private providers: MarketDataProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('FailoverMarketDataProvider needs at least one provider');
+    }
+    this.name = providers.map(provider => provider.name).join('>');
+  }
+
+  private async attempt<T>(operation: string, fn: (provider: MarketDataProvider) => Promise<T>): Promise<T> {
+    const failures: string[] = [];
+
+    for (const provider of this.providers) {
+      try {
+        return await fn(provider);
+      } catch (error: any) {
+        failures.push(`${provider.name}: ${error.message}`);
+        console.warn(`⚠️ Market data provider "${provider.name}" failed on ${operation}, trying next...`, error.message);
+      }
+    }
+
+    throw new Error(`All market data providers failed on ${operation} (${failures.join('; ')})`);
+  }
+
+  async listAssets(options: { minMarketCap: number; minVolume: number }): Promise<MarketData[]> {
+    return this.attempt('listAssets', async provider => {
+      const assets = await provider.listAssets(options);
+      if (assets.length === 0) {
+        throw new Error('Provider returned an empty asset list');
+      }
+      console.log(`✅ Asset list served by ${provider.name}`);
+      return assets;
+    });
+  }
+
+  async getQuotes(assets: CoinInfo[]): Promise<Record<string, AugmentedCoinData>> {
+    const quotes: Record<string, AugmentedCoinData> = {};
+    let missing = assets;
+
+    for (const provider of this.providers) {
+      if (missing.length === 0) break;
+      try {
+        Object.assign(quotes, await provider.getQuotes(missing));
+      } catch (error: any) {
+        console.warn(`⚠️ Market data provider "${provider.name}" failed on getQuotes, trying next...`, error.message);
+      }
+      missing = missing.filter(asset => !quotes[asset.id]);
+    }
+
+    return quotes;
+  }
+
+  async getHistory(asset: CoinInfo, days: number): Promise<OhlcCandle[]> {
+    return this.attempt(`getHistory(${asset.id})`, async provider => {
+      const candles = await provider.getHistory(asset, days);
+      if (candles.length === 0) {
+        throw new Error('Provider returned no history');
+      }
+      return candles;
+    });
+  }
+
+  async getContractAddresses(asset: CoinInfo): Promise<Record<string, string>> {
+    const capable = this.providers.filter(provider => provider.getContractAddresses);
+    if (capable.length === 0) return {};
+    return new FailoverMarketDataProvider(capable).attempt(`getContractAddresses(${asset.id})`, provider => provider.getContractAddresses!(asset));
+  }
+
+  async listContracts(): Promise<ContractListing[]> {
+    const capable = this.providers.filter(provider => provider.listContracts);
+    if (capable.length === 0) return [];
+    return new FailoverMarketDataProvider(capable).attempt('listContracts', provider => provider.listContracts!());
+  }
+
+  async getExchangeRate(currency: string): Promise<number> {
+    if (currency.toLowerCase() === 'usd') return 1;
+    const capable = this.providers.filter(provider => provider.getExchangeRate);
+    if (capable.length === 0) {
+      throw new Error(`No market data provider offers exchange rates (${this.name})`);
+    }
+    return new FailoverMarketDataProvider(capable).attempt(`getExchangeRate(${currency})`, provider => provider.getExchangeRate!(currency));
+  }
+}
+
+/**
+ * Routes another provider's calls through the record/replay cassette
+ */
+export class RecordingMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+
+  constructor(private provider: MarketDataProvider) {
+    this.name = provider.name;
+  }
+
+  listAssets(options: { minMarketCap: number; minVolume: number }): Promise<MarketData[]> {
+    return recordable('market', { provider: this.name, method: 'listAssets', options }, () => this.provider.listAssets(options));
+  }
+
+  getQuotes(assets: CoinInfo[]): Promise<Record<string, AugmentedCoinData>> {
+    const ids = assets.map(asset => asset.id);
+    return recordable('market', { provider: this.name, method: 'getQuotes', ids }, () => this.provider.getQuotes(assets));
+  }
+
+  getHistory(asset: CoinInfo, days: number): Promise<OhlcCandle[]> {
+    return recordable('market', { provider: this.name, method: 'getHistory', id: asset.id, days }, () => this.provider.getHistory(asset, days));
+  }
+
+  async getContractAddresses(asset: CoinInfo): Promise<Record<string, string>> {
+    const provider = this.provider;
+    if (!provider.getContractAddresses) return {};
+    return recordable('market', { provider: this.name, method: 'getContractAddresses', id: asset.id }, () => provider.getContractAddresses!(asset));
+  }
+
+  async listContracts(): Promise<ContractListing[]> {
+    const provider = this.provider;
+    if (!provider.listContracts) return [];
+    return recordable('market', { provider: this.name, method: 'listContracts' }, () => provider.listContracts!());
+  }
+
+  async getExchangeRate(currency: string): Promise<number> {
+    const provider = this.provider;
+    if (!provider.getExchangeRate) {
+      throw new Error(`Market data provider "${this.name}" offers no exchange rates`);
+    }
+    return recordable('market', { provider: this.name, method: 'getExchangeRate', currency: currency.toLowerCase() }, () => provider.getExchangeRate!(currency));
+  }
+}
+
+export function createMarketDataProvider(names: string[] = config.marketData.providers): MarketDataProvider {
+  const providers: MarketDataProvider[] = [];
+
+  for (const name of names) {
+    switch (name.trim().toLowerCase()) {
+      case 'coingecko':
+        providers.push(new CoinGeckoProvider());
+        break;
+      case 'coinpaprika':
+        providers.push(new CoinPaprikaProvider());
+        break;
+      case 'fixture':
+        providers.push(new FixtureMarketDataProvider());
+        break;
+      default:
+        console.warn(`⚠️ Unknown market data provider "${name}", skipping`);
+    }
+  }
+
+  if (providers.length === 0) {
+    console.warn('⚠️ No valid market data providers configured, defaulting to CoinGecko');
+    providers.push(new CoinGeckoProvider());
+  }
+
+  const provider = providers.length === 1 ? providers[0] : new FailoverMarketDataProvider(providers);
+  return cassette.active ? new RecordingMarketDataProvider(provider) : provider;
+}
@@ -1,102 +1,76 @@
-import axios, { AxiosInstance } from 'axios';
 import { AgentBuilder } from "@iqai/adk";
 import { openai } from "@ai-sdk/openai";
-import { removeStopwords, eng } from 'stopword';
 import { config } from "../config.js";
-
-interface MarketData {
-  id: string;
-  symbol: string;
-  name: string;
-  market_cap: number;
-  total_volume: number;
-  current_price: number;
-  price_change_percentage_24h: number;
-  high_24h: number;
-  low_24h: number;
+import { createMarketDataProvider } from "./market-data-providers.js";
+import { ContractResolver } from "./contract-resolver.js";
+import { loadTokenAliases, normalizeTokenText, TokenMatcher } from "./token-matcher.js";
+import { cassette, recordable } from "../utils/cassette.js";
+import {
+  AugmentedCoinData,
+  DetectedAsset,
+  DisambiguationOptions,
+  KnowledgeBaseEntry,
+  MarketDataProvider,
+  TokenAmbiguity,
+  TokenCandidate,
+  TokenResolution
+} from "../types/index.js";
+
+/**
+ * Caches written before candidates were ranked by market cap and volume lack both fields; every shared ticker would tie
+ */
+function hasRankingFields(entries: KnowledgeBaseEntry[]): boolean {
+  return entries.some(entry => 'market_cap' in entry && 'total_volume' in entry);
 }
 
-async function fetchFilteredMarketData({
-  apiKey,
-  perPage = 250,
-  minMarketCap = 1_000_000,
-  minVolume = 10_000,
-  delayMs = 120
-}: {
-  apiKey: string;
-  perPage?: number;
-  minMarketCap?: number;
-  minVolume?: number;
-  delayMs?: number;
-}): Promise<MarketData[]> {
-  const client: AxiosInstance = axios.create({
-    baseURL: 'https://pro-api.coingecko.com/api/v3',
-    headers: { 'x-cg-pro-api-key': apiKey }
-  });
-  const results: MarketData[] = [];
-  let page = 1;
-
-  while (true) {
-    await new Promise(r => setTimeout(r, delayMs));
-
+export async function getCachedKnowledgeBase(provider: MarketDataProvider = createMarketDataProvider(), forceRefresh: boolean = false) {
+  const CACHE_FILE = config.marketData.knowledgeBaseCacheFile;
+  const CACHE_TTL = config.marketData.cacheTimeout;
+  
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  
+  if (cassette.active) {
+    // Cassette runs must see the provider's (recorded) asset list, not whatever is in the local cache
+    return await setupFilteredKnowledgeBase(provider);
+  }
+  
+  if (forceRefresh) {
+    console.log('🔄 Refreshing knowledge base...');
+  } else {
     try {
-      const resp = await client.get('/coins/markets', {
-        params: {
-          vs_currency: 'usd',
-          order: 'market_cap_desc',
-          per_page: perPage,
-          page
-        }
-      });
-      const data: MarketData[] = resp.data;
-      if (!Array.isArray(data) || data.length === 0) break;
-
-      const filtered = data.filter(
-        c =>
-          c.market_cap >= minMarketCap &&
-          c.total_volume >= minVolume
-      );
-      results.push(...filtered);
-
-      if (data.length < perPage) break;
-      page++;
-    } catch (err: any) {
-      if (err.response?.status === 429) {
-        console.warn(`Rate limit hit on page ${page}, backing off...`);
-        await new Promise(r => setTimeout(r, 1000));
-        continue;
+      const stats = await fs.stat(CACHE_FILE);
+      const isExpired = Date.now() - stats.mtime.getTime() > CACHE_TTL;
+    
+      const cached: KnowledgeBaseEntry[] | null = isExpired ? null : JSON.parse(await fs.readFile(CACHE_FILE, 'utf8'));
+      if (cached && hasRankingFields(cached)) {
+        console.log(`✅ Using cached knowledge base (${cached.length} filtered coins) - Cache age: ${Math.round((Date.now() - stats.mtime.getTime()) / (1000 * 60))} minutes`);
+        return cached;
+      } else if (cached) {
+        console.log('🔄 Cache predates market cap and volume ranking, fetching fresh data...');
+      } else {
+        console.log('🔄 Cache expired, fetching fresh data...');
       }
-      throw err;
+    } catch (error) {
+      console.log('📦 No cache found, creating fresh knowledge base...');
     }
   }
-
-  return results;
-}
-
-export async function getCachedKnowledgeBase() {
-  const CACHE_FILE = 'data/cache/knowledge_base_filtered.json';
-  const CACHE_TTL = 30 * 60 * 1000;
-  
-  const fs = await import('fs/promises');
   
+  let freshData: KnowledgeBaseEntry[];
   try {
-    const stats = await fs.stat(CACHE_FILE);
-    const isExpired = Date.now() - stats.mtime.getTime() > CACHE_TTL;
-    
-    if (!isExpired) {
-      const cached = JSON.parse(await fs.readFile(CACHE_FILE, 'utf8'));
-      console.log(`✅ Using cached knowledge base (${cached.length} filtered coins) - Cache age: ${Math.round((Date.now() - stats.mtime.getTime()) / (1000 * 60))} minutes`);
-      return cached;
-    } else {
-      console.log('🔄 Cache expired, fetching fresh data...');
+    freshData = await setupFilteredKnowledgeBase(provider);
+  } catch (error: any) {
+    try {
+      const stale = JSON.parse(await fs.readFile(CACHE_FILE, 'utf8'));
+      console.warn(`⚠️ Could not refresh knowledge base (${error.message}), falling back to stale cache (${stale.length} coins)`);
+      return stale;
+    } catch {
+      throw new Error(`Knowledge base unavailable: ${error.message}`);
     }
-  } catch (error) {
-    console.log('📦 No cache found, creating fresh knowledge base...');
   }
   
-  const freshData = await setupFilteredKnowledgeBase();
-  
   try {
+    await fs.mkdir(path.dirname(CACHE_FILE), { recursive: true });
     await fs.writeFile(CACHE_FILE, JSON.stringify(freshData, null, 2));
     console.log('💾 Filtered knowledge base cached for future runs');
   } catch (error: any) {
@@ -106,81 +80,79 @@ export async function getCachedKnowledgeBase() {
   return freshData;
 }
 
-async function setupFilteredKnowledgeBase() {
-  try {
-    console.log("Setting up filtered knowledge base: fetching high-quality CoinGecko assets...");
-    const apiKey = process.env.COINGECKO_API_KEY;
-    if (!apiKey) {
-      throw new Error('❌ COINGECKO_API_KEY environment variable not set.');
-    }
-    
-    console.log("Fetching filtered market data (>$1M market cap, >$10K volume)...");
-    const filteredMarketData = await fetchFilteredMarketData({ 
-      apiKey, 
-      minMarketCap: 1_000_000, 
-      minVolume: 10_000 
-    });
+async function setupFilteredKnowledgeBase(provider: MarketDataProvider) {
+  console.log(`Setting up filtered knowledge base: fetching high-quality assets from ${provider.name}...`);
+  
+  console.log("Fetching filtered market data (>$1M market cap, >$10K volume)...");
+  const filteredMarketData = await provider.listAssets({
+    minMarketCap: config.marketData.minMarketCap,
+    minVolume: config.marketData.minVolume
+  });
 
-    console.log(`✅ Retrieved ${filteredMarketData.length} high-quality coins (market cap >= $1M and volume >= $10K)`);
+  console.log(`✅ Retrieved ${filteredMarketData.length} high-quality coins (market cap >= $1M and volume >= $10K)`);
 
-    const filteredCoins = filteredMarketData.map(coin => ({
-      id: coin.id,
-      symbol: coin.symbol,
-      name: coin.name
-    }));
+  const filteredCoins: KnowledgeBaseEntry[] = filteredMarketData.map(coin => ({
+    id: coin.id,
+    symbol: coin.symbol,
+    name: coin.name,
+    market_cap: coin.market_cap,
+    total_volume: coin.total_volume
+  }));
 
-    return filteredCoins;
-  } catch (error) {
-    console.error("❌ Fatal Error: Could not fetch CoinGecko asset list. The application cannot continue.");
-    process.exit(1);
-  }
+  return filteredCoins;
 }
 
-function findTokenMatches(
-  potentialTokens: string[],
-  assetList: Array<{ id: string; symbol: string; name: string }>,
-  listType: string
-): Array<{ name: string; id: string; symbol: string }> {
-  const matches: Array<{ name: string; id: string; symbol: string }> = [];
-  const foundIds = new Set<string>();
-  
-  for (const token of potentialTokens) {
-    const lowerToken = token.toLowerCase();
-    
-    const commonWords = ['protocol', 'token', 'coin', 'network', 'chain', 'finance'];
-    if (commonWords.includes(lowerToken)) {
-      console.log(`⏭️ Skipping common word: ${lowerToken}`);
+/**
+ * Picks one candidate per query token from a caller choice, a unique match, or a clear enough lead;
+ * everything else is returned as an ambiguity for the caller to resolve
+ */
+export function resolveTokenCandidates(
+  groups: TokenAmbiguity[],
+  options: DisambiguationOptions = {}
+): { matches: DetectedAsset[]; ambiguities: TokenAmbiguity[] } {
+  const choices = Object.fromEntries(Object.entries(options.choices || {}).map(([token, id]) => [token.toLowerCase(), id]));
+  const matches: DetectedAsset[] = [];
+  const ambiguities: TokenAmbiguity[] = [];
+
+  for (const group of groups) {
+    const choiceId = choices[group.token.toLowerCase()];
+    const chosen = choiceId ? group.candidates.find(candidate => candidate.id === choiceId) : undefined;
+    let method: TokenResolution['method'];
+    let pick: TokenCandidate;
+
+    if (chosen) {
+      method = 'choice';
+      pick = chosen;
+    } else if (group.candidates.length === 1) {
+      method = 'unique';
+      pick = group.candidates[0];
+    } else if (!choiceId && (options.autoPick || group.margin >= config.tokenMatching.autoPickMargin)) {
+      method = 'auto';
+      pick = group.candidates[0];
+    } else {
+      if (choiceId) console.warn(`⚠️ "${choiceId}" is not a candidate for "${group.token}"`);
+      ambiguities.push(group);
       continue;
     }
-    
-    for (const asset of assetList) {
-      const assetName = asset.name.toLowerCase();
-      const assetSymbol = asset.symbol.toLowerCase();
-      
-      if (assetSymbol === lowerToken && !foundIds.has(asset.id)) {
-        matches.push(asset);
-        foundIds.add(asset.id);
-        console.log(`🎯 Found exact symbol match in ${listType} data for "${token}": ${asset.name}`);
-        break;
-      }
-      
-      if (assetName === lowerToken && !foundIds.has(asset.id)) {
-        matches.push(asset);
-        foundIds.add(asset.id);
-        console.log(`🎯 Found exact name match in ${listType} data for "${token}": ${asset.name}`);
-        break;
-      }
-      
-      if (assetName.includes(lowerToken) && lowerToken.length > 2 && !foundIds.has(asset.id)) {
-        matches.push(asset);
-        foundIds.add(asset.id);
-        console.log(`🎯 Found partial match in ${listType} data for "${token}": ${asset.name}`);
-        break;
+
+    if (matches.some(match => match.id === pick.id)) continue;
+    matches.push({
+      id: pick.id,
+      symbol: pick.symbol,
+      name: pick.name,
+      resolution: {
+        token: group.token,
+        method,
+        matchType: pick.matchType,
+        margin: group.margin,
+        alternatives: group.candidates
+          .filter(candidate => candidate.id !== pick.id)
+          .map(({ id, symbol, name, score }) => ({ id, symbol, name, score }))
       }
-    }
+    });
   }
-  
-  return matches;
+
+  return { matches, ambiguities };
 }
 
 async function calculateMatchPercentageWithLLM(
@@ -243,7 +215,7 @@ Provide the confidence percentage (0-100%) based on semantic matching quality, t
       .withInstruction("You are a cryptocurrency expert who determines if user queries match found tokens with high semantic confidence.")
       .build();
 
-    const result = await agent.runner.ask(matchAnalysisPrompt);
+    const result = await recordable('llm', { agent: 'crypto_token_matcher', model: config.openai.model, prompt: matchAnalysisPrompt }, () => agent.runner.ask(matchAnalysisPrompt));
     const response = typeof result === 'string' ? result.trim() : 'CONFIDENCE: 0%\nDECISION: INVALID';
     
     const confidenceMatch = response.match(/CONFIDENCE:\s*(\d+)%/i);
@@ -257,7 +229,7 @@ Provide the confidence percentage (0-100%) based on semantic matching quality, t
     console.log(`🤖 LLM Semantic Analysis: ${decision} (Confidence: ${confidencePercentage}%)`);
     
     if (!isValid) {
-      const suggestions = foundMatches.slice(0, 3);
+      const suggestions = foundMatches;
       return { 
         isValid: false, 
         confidence: confidencePercentage,
@@ -280,17 +252,34 @@ Provide the confidence percentage (0-100%) based on semantic matching quality, t
   }
 }
 
+/**
+ * Detects the coins a query names; the LLM confidence check only runs for matches the index is unsure about
+ */
 export async function retrieveCoinIDs(
-  potentialTokens: string[],
-  knowledgeBase: Array<{ id: string; symbol: string; name: string }>
-): Promise<Array<{ name: string; id: string; symbol: string }> | { error: string; suggestions?: Array<{ name: string; id: string; symbol: string }> }> {
-  console.log('🔍 Searching for tokens:', potentialTokens);
-
-  if (potentialTokens.length === 0) {
+  query: string,
+  matcher: TokenMatcher,
+  options: DisambiguationOptions = {}
+): Promise<DetectedAsset[] | { error: string; suggestions?: Array<{ name: string; id: string; symbol: string }>; ambiguities?: TokenAmbiguity[] }> {
+  const { groups, unmatched } = matcher.match(query);
+  console.log('🔍 Matched query tokens:', groups.map(group => group.token), unmatched.length > 0 ? `(unmatched: ${unmatched.join(', ')})` : '');
+
+  if (groups.length === 0 && unmatched.length === 0) {
     return [];
   }
 
-  const matches = findTokenMatches(potentialTokens, knowledgeBase, 'filtered');
+  const { matches, ambiguities } = resolveTokenCandidates(groups, options);
+
+  if (ambiguities.length > 0) {
+    const described = ambiguities
+      .map(ambiguity => `"${ambiguity.token}" could be ${ambiguity.candidates.map(candidate => `${candidate.name} (${candidate.id})`).join(', ')}`)
+      .join('; ');
+    console.log(`🔀 Ambiguous tokens: ${described}`);
+    return {
+      error: `Ambiguous token${ambiguities.length > 1 ? 's' : ''}: ${described}. Choose one to continue.`,
+      suggestions: ambiguities.flatMap(ambiguity => ambiguity.candidates.map(({ id, name, symbol }) => ({ id, name, symbol }))),
+      ambiguities
+    };
+  }
   
   if (matches.length === 0) {
     console.log('❌ No matches found in filtered knowledge base');
@@ -299,54 +288,61 @@ export async function retrieveCoinIDs(
     };
   }
 
-  console.log('🤖 Analyzing match confidence with LLM...');
-  const llmResult = await calculateMatchPercentageWithLLM(potentialTokens, matches);
+  const uncertainTokens = new Set(groups.filter(group => !group.certain).map(group => group.token));
+  const unsure = matches.filter(match => match.resolution?.method !== 'choice' && uncertainTokens.has(match.resolution!.token));
+  if (unsure.length === 0) {
+    console.log(`✅ Matched ${matches.length} tokens without LLM validation`);
+    return matches;
+  }
+
+  console.log(`🤖 Analyzing match confidence with LLM for ${unsure.map(match => `"${match.resolution!.token}"`).join(', ')}...`);
+  const llmResult = await calculateMatchPercentageWithLLM(unsure.map(match => match.resolution!.token), unsure);
   
   if (!llmResult.isValid) {
     const confidence = llmResult.confidence || 0;
     console.log(`📉 LLM determined low match confidence (${confidence}%)`);
+    const sure = matches.filter(match => !unsure.includes(match));
+    if (sure.length > 0) {
+      console.log(`⏭️ Dropping unconfirmed matches: ${unsure.map(match => match.name).join(', ')}`);
+      return sure;
+    }
+    // Offer every ranked candidate, not just the picked ones
+    const suggestions = [...(llmResult.suggestions || []), ...unsure.flatMap(match => match.resolution?.alternatives || [])]
+      .map(({ id, name, symbol }) => ({ id, name, symbol }));
     
-    if (confidence > 0 && confidence < 60 && llmResult.suggestions && llmResult.suggestions.length > 0) {
-      const matchedTokens = llmResult.suggestions.map(s => s.name).join(', ');
+    if (confidence > 0 && confidence < 60 && suggestions.length > 0) {
+      const matchedTokens = suggestions.map(s => s.name).join(', ');
       console.log(`🎯 Found partial matches: ${matchedTokens}`);
       return {
         error: `Match confidence is ${confidence}% (below 60% threshold). Found these tokens: ${matchedTokens}. Please clarify by using complete token names from this list to improve accuracy.`,
-        suggestions: llmResult.suggestions
+        suggestions
       };
     } else {
       return {
         error: "Sorry, we only serve mid to popular coins for now. Please ask about well-known cryptocurrencies.",
-        suggestions: llmResult.suggestions
+        suggestions
       };
     }
   }
 
-  console.log(`✅ LLM validated ${matches.length} matches with ${llmResult.confidence}% confidence`);
+  console.log(`✅ LLM validated ${unsure.length} uncertain matches with ${llmResult.confidence}% confidence`);
   return matches;
 }
 
-export async function fetchDetailedCoinData(detectedAssets: Array<{ id: string; name: string }>): Promise<any> {
+export async function fetchDetailedCoinData(
+  detectedAssets: Array<{ id: string; name: string; symbol?: string }>,
+  provider: MarketDataProvider = createMarketDataProvider()
+): Promise<Record<string, AugmentedCoinData>> {
   if (detectedAssets.length === 0) {
     return {};
   }
   
   const coinIds = detectedAssets.map(asset => asset.id).join(',');
-  const url = `https://api.coingecko.com/api/v3/coins/markets?vs_currency=usd&ids=${coinIds}`;
   try {
     console.log(`\n📈 Augmenting data by fetching market details for: ${coinIds}`);
-    const { data } = await axios.get(url);
-    const augmentedData: Record<string, any> = {};
-    for (const item of data) {
-      augmentedData[item.id] = {
-        name: item.name,
-        symbol: item.symbol,
-        current_price: item.current_price,
-        market_cap: item.market_cap,
-        price_change_24h: item.price_change_percentage_24h,
-        high_24h: item.high_24h,
-        low_24h: item.low_24h
-      };
-    }
+    const augmentedData = await provider.getQuotes(
+      detectedAssets.map(asset => ({ id: asset.id, name: asset.name, symbol: asset.symbol || '' }))
+    );
     console.log('✅ Successfully augmented data.');
     return augmentedData;
   } catch (error: any) {
@@ -355,44 +351,123 @@ export async function fetchDetailedCoinData(detectedAssets: Array<{ id: string;
   }
 }
 
-export function extractPotentialTokens(query: string | undefined | null): string[] {
-  if (typeof query !== 'string') return [];
-  
-  const words = query.match(/\b[a-zA-Z0-9]{2,20}\b/g) || [];
-  
-  const withoutStopwords = removeStopwords(words, eng);
-  
-  const cryptoStopwords = [
-    'analysis', 'technical', 'price', 'token', 'coin', 'crypto', 'cryptocurrency', 
-    'vs', 'comparison', 'compare', 'latest', 'news', 'market', 'trends', 'about', 
-    'please', 'give', 'show', 'tell', 'explain', 'current', 'recent'
-  ];
-  
-  const filtered = withoutStopwords.filter(word => 
-    !cryptoStopwords.includes(word.toLowerCase())
-  );
-  
-  return filtered;
-}
-
 export class MarketDataService {
-  private knowledgeBase: Array<{ id: string; symbol: string; name: string }> = [];
+  private knowledgeBase: KnowledgeBaseEntry[] = [];
+  private matcher: TokenMatcher | null = null;
+  private loadedAt = 0;
+  private contractResolver: ContractResolver;
+
+  constructor(private provider: MarketDataProvider = createMarketDataProvider()) {
+    this.contractResolver = new ContractResolver(provider);
+  }
+
+  getProvider(): MarketDataProvider {
+    return this.provider;
+  }
+
+  /**
+   * Loads the knowledge base and builds the token index; long-running callers keep it until the cache TTL passes or a refresh is forced
+   */
+  async setupKnowledgeBase(forceRefresh: boolean = false) {
+    if (!forceRefresh && this.matcher && Date.now() - this.loadedAt < config.marketData.cacheTimeout) {
+      return;
+    }
+    this.knowledgeBase = await getCachedKnowledgeBase(this.provider, forceRefresh);
+    const aliases = await loadTokenAliases();
+    this.matcher = new TokenMatcher(this.knowledgeBase, aliases);
+    this.loadedAt = Date.now();
+    console.log(`🧠 Knowledge base loaded with ${this.knowledgeBase.length} filtered assets (${this.matcher.index.aliasMap.size} aliases indexed).`);
+  }
 
-  async setupKnowledgeBase() {
-    this.knowledgeBase = await getCachedKnowledgeBase();
-    console.log(`🧠 Knowledge base loaded with ${this.knowledgeBase.length} filtered assets.`);
+  get knowledgeBaseSize(): number {
+    return this.knowledgeBase.length;
   }
 
-  async retrieveCoinIDs(query: string) {
-    if (this.knowledgeBase.length === 0) {
+  /**
+   * Size of the loaded knowledge base and its token index, for diagnostics
+   */
+  knowledgeBaseStats() {
+    if (!this.matcher) {
+      throw new Error("Knowledge base not initialized. Call setupKnowledgeBase() first.");
+    }
+    const { index } = this.matcher;
+    return {
+      provider: this.provider.name,
+      assets: this.knowledgeBase.length,
+      symbols: index.symbolMap.size,
+      names: index.nameMap.size,
+      aliases: index.aliasMap.size,
+      collidingSymbols: [...index.symbolMap.values()].filter(entries => entries.length > 1).length,
+      loadedAt: new Date(this.loadedAt).toISOString(),
+      topAssets: this.knowledgeBase.slice(0, 10).map(asset => ({ id: asset.id, symbol: asset.symbol, name: asset.name, marketCap: asset.market_cap }))
+    };
+  }
+
+  findAsset(id: string): { id: string; symbol: string; name: string } | undefined {
+    return this.knowledgeBase.find(asset => asset.id === id);
+  }
+
+  async retrieveCoinIDs(query: string, options: DisambiguationOptions = {}) {
+    if (!this.matcher) {
         throw new Error("Knowledge base not initialized. Call setupKnowledgeBase() first.");
     }
-    const potentialTokens = extractPotentialTokens(query);
-    console.log('🔍 Extracted potential tokens from query:', potentialTokens);
-    return await retrieveCoinIDs(potentialTokens, this.knowledgeBase);
+
+    // Contract addresses and "SYMBOL on Chain" are unambiguous, so they bypass symbol matching and the LLM check
+    const contracts = await this.contractResolver.resolve(query, this.knowledgeBase);
+    const unresolvedAddresses = contracts.unresolved.filter(reference => reference.address).map(reference => reference.address!);
+    const remainingQuery = unresolvedAddresses.reduce((text, address) => text.replace(new RegExp(address, 'i'), ' '), contracts.remainingQuery);
+
+    const result = await retrieveCoinIDs(remainingQuery, this.matcher, options);
+    if ('error' in result) {
+      if (contracts.assets.length > 0 && !result.ambiguities) return contracts.assets;
+      if (unresolvedAddresses.length > 0) {
+        return { error: `Could not find a listed coin for contract address ${unresolvedAddresses.join(', ')}. Check the address and chain, e.g. "0x… on Arbitrum".` };
+      }
+      return result;
+    }
+    if (result.length === 0 && contracts.assets.length === 0 && unresolvedAddresses.length > 0) {
+      return { error: `Could not find a listed coin for contract address ${unresolvedAddresses.join(', ')}. Check the address and chain, e.g. "0x… on Arbitrum".` };
+    }
+
+    const merged: DetectedAsset[] = [...contracts.assets];
+    for (const asset of result) {
+      if (!merged.some(item => item.id === asset.id)) merged.push(asset);
+    }
+    return merged;
+  }
+
+  /**
+   * Resolves one explicitly listed asset (a coin id, symbol or name), taking the best-ranked coin when a symbol is shared
+   */
+  resolveAsset(text: string): DetectedAsset | null {
+    if (!this.matcher) {
+      throw new Error("Knowledge base not initialized. Call setupKnowledgeBase() first.");
+    }
+    const byId = this.findAsset(text.trim().toLowerCase());
+    if (byId) return { id: byId.id, name: byId.name, symbol: byId.symbol };
+
+    const { groups } = this.matcher.match(text);
+    const { matches } = resolveTokenCandidates(groups, { autoPick: true });
+    if (matches.length > 0) return matches[0];
+
+    // The matcher skips tickers that double as plain words ("link", "near"); a holdings entry is never a plain word
+    const bySymbol = [...(this.matcher.index.symbolMap.get(normalizeTokenText(text)) || [])]
+      .sort((a, b) => (b.market_cap || 0) - (a.market_cap || 0))[0];
+    return bySymbol ? { id: bySymbol.id, name: bySymbol.name, symbol: bySymbol.symbol } : null;
+  }
+
+  /**
+   * Units of the currency per 1 USD, from the first provider that offers exchange rates
+   */
+  async getExchangeRate(currency: string): Promise<number> {
+    if (currency.toLowerCase() === 'usd') return 1;
+    if (!this.provider.getExchangeRate) {
+      throw new Error(`Market data provider "${this.provider.name}" offers no exchange rates`);
+    }
+    return this.provider.getExchangeRate(currency);
   }
 
-  async fetchDetailedCoinData(detectedAssets: Array<{ id: string; name: string }>) {
-    return await fetchDetailedCoinData(detectedAssets);
+  async fetchDetailedCoinData(detectedAssets: Array<{ id: string; name: string; symbol?: string }>) {
+    return await fetchDetailedCoinData(detectedAssets, this.provider);
   }
 }
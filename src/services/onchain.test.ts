@@ -0,0 +1,201 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { addressToTopic, ERC20_TRANSFER_TOPIC, EvmRpcClient, JsonRpcError, ZERO_ADDRESS } from './evm-rpc.js';
+import { OnChainService } from './onchain.js';
+
+const TOKEN = '0x00000000000000000000000000000000000000aa';
+const ALICE = '0x000000000000000000000000000000000000a11c';
+const BOB = '0x0000000000000000000000000000000000000b0b';
+const CAROL = '0x00000000000000000000000000000000000ca201';
+const UNIT = 10n ** 18n;
+
+const word = (value: bigint | number) => BigInt(value).toString(16).padStart(64, '0');
+const hex = (value: number) => `0x${value.toString(16)}`;
+
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+/**
+ * A dev chain stand-in: one 18-decimal ERC-20 with a fixed transfer history, served over JSON-RPC like anvil.
+ * Like hosted nodes, it rejects eth_getLogs ranges wider than maxLogRange blocks.
+ */
+class FakeNode {
+  readonly latestBlock = 20;
+  readonly logRanges: Array<[number, number]> = [];
+  private server = http.createServer((request, response) => this.handle(request, response));
+  private logs: RawLog[] = [];
+  url = '';
+
+  constructor(private maxLogRange: number) {
+    this.transfer(2, ZERO_ADDRESS, ALICE, 1000n * UNIT);
+    this.transfer(5, ALICE, BOB, 300n * UNIT);
+    this.transfer(9, ALICE, CAROL, 200n * UNIT);
+    this.transfer(12, BOB, ZERO_ADDRESS, 50n * UNIT);
+    // An ERC-721 Transfer on the same contract: same topic, token id as a fourth topic, no data
+    this.logs.push({
+      address: TOKEN,
+      topics: [ERC20_TRANSFER_TOPIC, addressToTopic(ALICE), addressToTopic(BOB), `0x${word(7)}`],
+      data: '0x',
+      blockNumber: hex(13),
+      transactionHash: `0x${word(13)}`,
+      logIndex: '0x0'
+    });
+  }
+
+  private transfer(block: number, from: string, to: string, amount: bigint): void {
+    this.logs.push({
+      address: TOKEN,
+      topics: [ERC20_TRANSFER_TOPIC, addressToTopic(from), addressToTopic(to)],
+      data: `0x${word(amount)}`,
+      blockNumber: hex(block),
+      transactionHash: `0x${word(block)}`,
+      logIndex: '0x0'
+    });
+  }
+
+  start(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', () => {
+      this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+      resolve();
+    }));
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      let reply: object;
+      try {
+        reply = { jsonrpc: '2.0', id, result: this.dispatch(method, params) };
+      } catch (error: any) {
+        reply = { jsonrpc: '2.0', id, error: error.rpc };
+      }
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify(reply));
+    });
+  }
+
+  private dispatch(method: string, params: any[]): unknown {
+    switch (method) {
+      case 'eth_blockNumber':
+        return hex(this.latestBlock);
+      case 'eth_getBlockByNumber':
+        return { number: params[0], timestamp: hex(1_700_000_000 + parseInt(params[0], 16) * 12) };
+      case 'eth_call':
+        return this.call(params[0].to, params[0].data);
+      case 'eth_getLogs': {
+        const from = parseInt(params[0].fromBlock, 16);
+        const to = parseInt(params[0].toBlock, 16);
+        if (to - from + 1 > this.maxLogRange) {
+          throw { rpc: { code: -32005, message: `query exceeds max block range ${this.maxLogRange}` } };
+        }
+        this.logRanges.push([from, to]);
+        return this.logs.filter(log => {
+          const block = parseInt(log.blockNumber, 16);
+          return log.address === params[0].address && log.topics[0] === params[0].topics[0] && block >= from && block <= to;
+        });
+      }
+      default:
+        throw { rpc: { code: -32601, message: `the method ${method} does not exist/is not available` } };
+    }
+  }
+
+  private call(to: string, data: string): string {
+    if (to !== TOKEN) return '0x';
+    switch (data) {
+      case '0x313ce567':
+        return `0x${word(18)}`;
+      case '0x95d89b41':
+        return `0x${word(32)}${word(4)}${Buffer.from('TEST').toString('hex').padEnd(64, '0')}`;
+      case '0x18160ddd':
+        return `0x${word(950n * UNIT)}`;
+      default:
+        return '0x';
+    }
+  }
+}
+
+describe('EvmRpcClient.getLogs', () => {
+  const node = new FakeNode(4);
+  before(() => node.start());
+  after(() => node.stop());
+
+  it('halves the chunk size until the node accepts the range and still returns every log', async () => {
+    const rpc = new EvmRpcClient(node.url);
+    const logs = await rpc.getLogs({ address: TOKEN, topics: [ERC20_TRANSFER_TOPIC] }, 1, 20, 16);
+
+    // 16 and 8 are rejected, 4 is accepted
+    assert.deepEqual(node.logRanges, [[1, 4], [5, 8], [9, 12], [13, 16], [17, 20]]);
+    assert.deepEqual(logs.map(log => log.blockNumber), [2, 5, 9, 12, 13]);
+    assert.equal(logs[0].address, TOKEN);
+  });
+
+  it('rethrows errors that are not about the range', async () => {
+    const rpc = new EvmRpcClient(node.url);
+    await assert.rejects(rpc.request('eth_unknownMethod'), (error: unknown) => error instanceof JsonRpcError && error.code === -32601);
+  });
+});
+
+describe('OnChainService', () => {
+  const node = new FakeNode(8);
+  before(() => node.start());
+  after(() => node.stop());
+
+  it('reads the token metadata over eth_call', async () => {
+    const service = new OnChainService(new EvmRpcClient(node.url));
+    assert.deepEqual(await service.readToken(TOKEN), {
+      address: TOKEN,
+      platform: 'ethereum',
+      symbol: 'TEST',
+      decimals: 18,
+      totalSupply: (950n * UNIT).toString()
+    });
+    await assert.rejects(service.readToken('0x00000000000000000000000000000000000000bb'), /not an ERC-20 token/);
+  });
+
+  it('aggregates Transfer flows, mints and burns over the block range', async () => {
+    const service = new OnChainService(new EvmRpcClient(node.url));
+    const token = await service.readToken(TOKEN);
+    const metrics = await service.analyzeToken({ id: 'test-token', name: 'Test Token', symbol: 'test' }, token, null, 20);
+
+    assert.equal(metrics.fromBlock, 1);
+    assert.equal(metrics.toBlock, 20);
+    assert.equal(metrics.fromTimestamp, new Date((1_700_000_000 + 12) * 1000).toISOString());
+    // The ERC-721 log is ignored; mints have no sender and burns no receiver
+    assert.equal(metrics.transferCount, 4);
+    assert.equal(metrics.volume, 1550);
+    assert.equal(metrics.volumeUsd, null);
+    assert.equal(metrics.mintCount, 1);
+    assert.equal(metrics.burnCount, 1);
+    assert.equal(metrics.uniqueSenders, 2);
+    assert.equal(metrics.uniqueReceivers, 3);
+    assert.deepEqual(metrics.topSenders, [{ address: ALICE, amount: 500 }, { address: BOB, amount: 50 }]);
+    assert.deepEqual(metrics.topReceivers, [{ address: ALICE, amount: 1000 }, { address: BOB, amount: 300 }, { address: CAROL, amount: 200 }]);
+    // Without a price the largest transfers are listed by amount
+    assert.deepEqual(metrics.largeTransfers.map(transfer => transfer.amount), [1000, 300, 200, 50]);
+  });
+
+  it('values volume and flags large transfers when a price is known', async () => {
+    const service = new OnChainService(new EvmRpcClient(node.url));
+    const token = await service.readToken(TOKEN);
+    const metrics = await service.analyzeToken({ id: 'test-token', name: 'Test Token', symbol: 'test' }, token, 2000, 20);
+
+    assert.equal(metrics.volumeUsd, 3_100_000);
+    assert.equal(metrics.largeTransferThresholdUsd, 1_000_000);
+    // Only the 1000-token mint is worth at least $1M at $2000
+    assert.deepEqual(metrics.largeTransfers.map(transfer => transfer.valueUsd), [2_000_000]);
+  });
+});
@@ -0,0 +1,261 @@
+import { config } from "../config.js";
+import { createMarketDataProvider } from "./market-data-providers.js";
+import {
+  decodeAbiString,
+  ERC20_TRANSFER_TOPIC,
+  EvmRpcClient,
+  formatUnits,
+  topicToAddress,
+  ZERO_ADDRESS
+} from "./evm-rpc.js";
+import {
+  AugmentedCoinData,
+  CoinInfo,
+  Erc20Token,
+  LargeTransfer,
+  MarketDataProvider,
+  OnChainTransferMetrics
+} from "../types/index.js";
+
+const DECIMALS_SELECTOR = '0x313ce567';
+const SYMBOL_SELECTOR = '0x95d89b41';
+const TOTAL_SUPPLY_SELECTOR = '0x18160ddd';
+
+export function parseTokenOverrides(value: string = config.onchain.tokenOverrides): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  for (const pair of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [id, address] = pair.split('=').map(item => item.trim());
+    if (id && /^0x[0-9a-fA-F]{40}$/.test(address || '')) {
+      overrides[id] = address.toLowerCase();
+    } else {
+      console.warn(`⚠️ Ignoring invalid ONCHAIN_TOKENS entry "${pair}"`);
+    }
+  }
+  return overrides;
+}
+
+export interface TransferAggregate {
+  transferCount: number;
+  volumeRaw: bigint;
+  uniqueSenders: number;
+  uniqueReceivers: number;
+  mintCount: number;
+  burnCount: number;
+  transfers: Array<{ transactionHash: string; blockNumber: number; from: string; to: string; amount: bigint }>;
+  sentBy: Map<string, bigint>;
+  receivedBy: Map<string, bigint>;
+}
+
+/**
+ * Aggregates decoded ERC-20 Transfer logs; mints and burns count as transfers but not as senders/receivers
+ */
+export function aggregateTransfers(logs: Array<{ topics: string[]; data: string; transactionHash: string; blockNumber: number }>): TransferAggregate {
+  const senders = new Set<string>();
+  const receivers = new Set<string>();
+  const sentBy = new Map<string, bigint>();
+  const receivedBy = new Map<string, bigint>();
+  const transfers: TransferAggregate['transfers'] = [];
+  let volumeRaw = 0n;
+  let mintCount = 0;
+  let burnCount = 0;
+
+  for (const log of logs) {
+    // ERC-721 Transfer shares the topic but indexes the token id as a fourth topic
+    if (log.topics.length !== 3) continue;
+    const from = topicToAddress(log.topics[1]);
+    const to = topicToAddress(log.topics[2]);
+    const amount = log.data && log.data !== '0x' ? BigInt(log.data.substring(0, 66)) : 0n;
+
+    transfers.push({ transactionHash: log.transactionHash, blockNumber: log.blockNumber, from, to, amount });
+    volumeRaw += amount;
+
+    if (from === ZERO_ADDRESS) {
+      mintCount++;
+    } else {
+      senders.add(from);
+      sentBy.set(from, (sentBy.get(from) || 0n) + amount);
+    }
+    if (to === ZERO_ADDRESS) {
+      burnCount++;
+    } else {
+      receivers.add(to);
+      receivedBy.set(to, (receivedBy.get(to) || 0n) + amount);
+    }
+  }
+
+  return {
+    transferCount: transfers.length,
+    volumeRaw,
+    uniqueSenders: senders.size,
+    uniqueReceivers: receivers.size,
+    mintCount,
+    burnCount,
+    transfers,
+    sentBy,
+    receivedBy
+  };
+}
+
+function topAddresses(amounts: Map<string, bigint>, decimals: number, limit: number = 5): Array<{ address: string; amount: number }> {
+  return [...amounts.entries()]
+    .sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0))
+    .slice(0, limit)
+    .map(([address, amount]) => ({ address, amount: formatUnits(amount, decimals) }));
+}
+
+/**
+ * Reads ERC-20 Transfer activity for detected assets from a JSON-RPC node
+ */
+export class OnChainService {
+  private overrides: Record<string, string>;
+
+  constructor(
+    readonly rpc: EvmRpcClient | null = config.onchain.rpcUrl ? new EvmRpcClient() : null,
+    private provider: MarketDataProvider = createMarketDataProvider(),
+    private platform: string = config.onchain.platform
+  ) {
+    this.overrides = parseTokenOverrides();
+  }
+
+  get enabled(): boolean {
+    return this.rpc !== null;
+  }
+
+  /**
+   * Contract address of the asset on the configured platform: ONCHAIN_TOKENS, then the address named in the query, then the market data provider
+   */
+  async resolveContractAddress(asset: CoinInfo & { platform?: string; contractAddress?: string }): Promise<string | null> {
+    if (this.overrides[asset.id]) return this.overrides[asset.id];
+    if (asset.contractAddress && asset.platform === this.platform) return asset.contractAddress.toLowerCase();
+    if (!this.provider.getContractAddresses) return null;
+    const addresses = await this.provider.getContractAddresses(asset);
+    const address = addresses[this.platform];
+    return address && /^0x[0-9a-fA-F]{40}$/.test(address) ? address.toLowerCase() : null;
+  }
+
+  async readToken(address: string): Promise<Erc20Token> {
+    const rpc = this.rpc!;
+    const decimalsHex = await rpc.call(address, DECIMALS_SELECTOR);
+    if (!decimalsHex || decimalsHex === '0x') {
+      throw new Error(`${address} has no contract code or is not an ERC-20 token`);
+    }
+    const symbol = await rpc.call(address, SYMBOL_SELECTOR).then(decodeAbiString).catch(() => '');
+    const totalSupply = await rpc.call(address, TOTAL_SUPPLY_SELECTOR).then(hex => BigInt(hex).toString()).catch(() => null);
+    return { address, platform: this.platform, symbol, decimals: Number(BigInt(decimalsHex)), totalSupply };
+  }
+
+  async analyzeToken(
+    asset: CoinInfo,
+    token: Erc20Token,
+    price: number | null,
+    blockRange: number = config.onchain.blockRange
+  ): Promise<OnChainTransferMetrics> {
+    const rpc = this.rpc!;
+    const toBlock = await rpc.blockNumber();
+    const fromBlock = Math.max(0, toBlock - blockRange + 1);
+
+    console.log(`⛓️ Reading ${asset.symbol.toUpperCase()} Transfer logs for blocks ${fromBlock}-${toBlock}...`);
+    const logs = await rpc.getLogs({ address: token.address, topics: [ERC20_TRANSFER_TOPIC] }, fromBlock, toBlock);
+    const aggregate = aggregateTransfers(logs);
+
+    const [fromTime, toTime] = await Promise.all([
+      rpc.getBlockTimestamp(fromBlock).catch(() => null),
+      rpc.getBlockTimestamp(toBlock).catch(() => null)
+    ]);
+
+    const volume = formatUnits(aggregate.volumeRaw, token.decimals);
+    const threshold = price ? config.onchain.largeTransferUsd : null;
+    const largeTransfers: LargeTransfer[] = aggregate.transfers
+      .map(transfer => {
+        const amount = formatUnits(transfer.amount, token.decimals);
+        return { ...transfer, amount, valueUsd: price ? amount * price : null };
+      })
+      // Without a price, report the largest transfers by token amount instead of a USD threshold
+      .filter(transfer => threshold === null || (transfer.valueUsd ?? 0) >= threshold)
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, config.onchain.maxLargeTransfers);
+
+    return {
+      assetId: asset.id,
+      name: asset.name,
+      symbol: asset.symbol,
+      token,
+      fromBlock,
+      toBlock,
+      fromTimestamp: fromTime?.toISOString() ?? null,
+      toTimestamp: toTime?.toISOString() ?? null,
+      transferCount: aggregate.transferCount,
+      volume,
+      volumeUsd: price ? volume * price : null,
+      uniqueSenders: aggregate.uniqueSenders,
+      uniqueReceivers: aggregate.uniqueReceivers,
+      mintCount: aggregate.mintCount,
+      burnCount: aggregate.burnCount,
+      largeTransferThresholdUsd: threshold,
+      largeTransfers,
+      topSenders: topAddresses(aggregate.sentBy, token.decimals),
+      topReceivers: topAddresses(aggregate.receivedBy, token.decimals)
+    };
+  }
+
+  async analyzeAssets(assets: CoinInfo[], marketData: Record<string, AugmentedCoinData> = {}): Promise<OnChainTransferMetrics[]> {
+    if (!this.rpc) return [];
+    const results: OnChainTransferMetrics[] = [];
+
+    for (const asset of assets) {
+      try {
+        const address = await this.resolveContractAddress(asset);
+        if (!address) {
+          console.log(`⛓️ ${asset.name} has no ERC-20 contract on ${this.platform}, skipping on-chain analysis`);
+          continue;
+        }
+        const token = await this.readToken(address);
+        const metrics = await this.analyzeToken(asset, token, marketData[asset.id]?.current_price ?? null);
+        console.log(`⛓️ ${asset.symbol.toUpperCase()}: ${metrics.transferCount} transfers, ${metrics.uniqueSenders} senders, ${metrics.largeTransfers.length} large transfers`);
+        results.push(metrics);
+      } catch (error: any) {
+        console.warn(`⚠️ On-chain analysis failed for ${asset.id}:`, error.message);
+      }
+    }
+
+    return results;
+  }
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: value >= 1 ? 0 : 6 });
+}
+
+function shortAddress(address: string): string {
+  return `${address.substring(0, 8)}…${address.substring(address.length - 6)}`;
+}
+
+/**
+ * Renders on-chain metrics as a prompt section
+ */
+export function renderOnChainSection(metrics: OnChainTransferMetrics[]): string {
+  let section = '';
+  for (const item of metrics) {
+    const symbol = item.symbol.toUpperCase();
+    const period = item.fromTimestamp && item.toTimestamp ? ` (${item.fromTimestamp} to ${item.toTimestamp})` : '';
+    section += `### ${item.name} (${symbol}) - ${item.token.platform} ${item.token.address}\n`;
+    section += `**Block range:** ${item.fromBlock}-${item.toBlock}${period}\n`;
+    section += `**Transfers:** ${item.transferCount} (${item.mintCount} mints, ${item.burnCount} burns)\n`;
+    section += `**Transfer volume:** ${formatAmount(item.volume)} ${symbol}${item.volumeUsd !== null ? ` (~$${formatAmount(item.volumeUsd)})` : ''}\n`;
+    section += `**Unique senders / receivers:** ${item.uniqueSenders} / ${item.uniqueReceivers}\n`;
+    if (item.largeTransfers.length > 0) {
+      const label = item.largeTransferThresholdUsd !== null ? `Large transfers (>= $${formatAmount(item.largeTransferThresholdUsd)})` : 'Largest transfers';
+      section += `**${label}:**\n`;
+      section += item.largeTransfers
+        .map(transfer => `- ${formatAmount(transfer.amount)} ${symbol}${transfer.valueUsd !== null ? ` (~$${formatAmount(transfer.valueUsd)})` : ''} ${shortAddress(transfer.from)} → ${shortAddress(transfer.to)} in block ${transfer.blockNumber}`)
+        .join('\n') + '\n';
+    } else if (item.largeTransferThresholdUsd !== null) {
+      section += `**Large transfers (>= $${formatAmount(item.largeTransferThresholdUsd)}):** none\n`;
+    }
+    if (item.topSenders.length > 0) {
+      section += `**Top senders:** ${item.topSenders.map(entry => `${shortAddress(entry.address)} (${formatAmount(entry.amount)})`).join(', ')}\n`;
+    }
+    section += '\n';
+  }
+  return section;
+}
@@ -0,0 +1,218 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { config } from "../config.js";
+import { PageCacheEntry } from "../types/index.js";
+
+const TRACKING_PARAMS = /^(utm_[a-z]+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src|cmpid|guccounter)$/i;
+
+/**
+ * Canonical form of a URL for cache keys: lowercase host, no fragment, default port or tracking params, sorted query
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    if ((parsed.protocol === 'https:' && parsed.port === '443') || (parsed.protocol === 'http:' && parsed.port === '80')) {
+      parsed.port = '';
+    }
+
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    if (parsed.pathname.length > 1) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    }
+    return parsed.toString();
+  } catch {
+    return url.trim();
+  }
+}
+
+export interface PageCacheLookup {
+  entry: PageCacheEntry;
+  fresh: boolean;
+  ageMs: number;
+}
+
+export interface PageCacheStats {
+  directory: string;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+  ttlMs: number;
+  expired: number;
+  oldest?: string;
+  newest?: string;
+}
+
+/**
+ * On-disk cache of extracted page content, one JSON file per normalized URL, evicted least-recently-used first
+ */
+export class PageCache {
+  private totalBytes: number | null = null;
+
+  constructor(
+    readonly directory: string = config.pageCache.dir,
+    readonly ttlMs: number = config.pageCache.ttlMs,
+    readonly maxBytes: number = config.pageCache.maxBytes
+  ) {}
+
+  private filePath(normalizedUrl: string): string {
+    const hash = createHash('sha256').update(normalizedUrl).digest('hex').substring(0, 40);
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get(url: string): Promise<PageCacheLookup | null> {
+    const filePath = this.filePath(normalizeUrl(url));
+    try {
+      const entry: PageCacheEntry = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      const ageMs = Date.now() - new Date(entry.validatedAt).getTime();
+      const now = new Date();
+      await fs.utimes(filePath, now, now).catch(() => {});
+      return { entry, fresh: ageMs < this.ttlMs, ageMs };
+    } catch {
+      return null;
+    }
+  }
+
+  async set(entry: Omit<PageCacheEntry, 'normalizedUrl'>): Promise<void> {
+    const normalizedUrl = normalizeUrl(entry.url);
+    const filePath = this.filePath(normalizedUrl);
+    const body = JSON.stringify({ ...entry, normalizedUrl });
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const previousSize = await fs.stat(filePath).then(stats => stats.size, () => 0);
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, body);
+    await fs.rename(tempPath, filePath);
+
+    if (this.totalBytes !== null) {
+      this.totalBytes += Buffer.byteLength(body) - previousSize;
+    }
+    await this.evict();
+  }
+
+  /**
+   * Marks an entry as revalidated (HTTP 304) so its TTL starts again
+   */
+  async touch(entry: PageCacheEntry): Promise<void> {
+    await this.set({ ...entry, validatedAt: new Date().toISOString() });
+  }
+
+  async remove(url: string): Promise<boolean> {
+    const filePath = this.filePath(normalizeUrl(url));
+    try {
+      const { size } = await fs.stat(filePath);
+      await fs.unlink(filePath);
+      if (this.totalBytes !== null) this.totalBytes -= size;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async listFiles(): Promise<Array<{ filePath: string; size: number; usedAt: number }>> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const files = await Promise.all(names.filter(name => name.endsWith('.json')).map(async name => {
+      const filePath = path.join(this.directory, name);
+      try {
+        const stats = await fs.stat(filePath);
+        return { filePath, size: stats.size, usedAt: stats.mtime.getTime() };
+      } catch {
+        return null;
+      }
+    }));
+    return files.filter((file): file is { filePath: string; size: number; usedAt: number } => file !== null);
+  }
+
+  private async readEntries(): Promise<Array<{ entry: PageCacheEntry; filePath: string; size: number; usedAt: number }>> {
+    const files = await this.listFiles();
+    const entries = await Promise.all(files.map(async file => {
+      try {
+        return { ...file, entry: JSON.parse(await fs.readFile(file.filePath, 'utf8')) as PageCacheEntry };
+      } catch {
+        return null;
+      }
+    }));
+    return entries.filter((item): item is NonNullable<typeof item> => item !== null);
+  }
+
+  /**
+   * Drops least-recently-used entries until the cache is back under 90% of its size limit
+   */
+  async evict(): Promise<number> {
+    if (this.totalBytes !== null && this.totalBytes <= this.maxBytes) return 0;
+
+    const files = await this.listFiles();
+    this.totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    if (this.totalBytes <= this.maxBytes) return 0;
+
+    let evicted = 0;
+    const target = this.maxBytes * 0.9;
+    for (const file of files.sort((a, b) => a.usedAt - b.usedAt)) {
+      if (this.totalBytes <= target) break;
+      await fs.unlink(file.filePath).catch(() => {});
+      this.totalBytes -= file.size;
+      evicted++;
+    }
+    console.log(`🧹 Evicted ${evicted} pages from the page cache`);
+    return evicted;
+  }
+
+  async list(): Promise<Array<{ entry: PageCacheEntry; size: number; ageMs: number; fresh: boolean }>> {
+    const entries = await this.readEntries();
+    return entries
+      .map(({ entry, size }) => {
+        const ageMs = Date.now() - new Date(entry.validatedAt).getTime();
+        return { entry, size, ageMs, fresh: ageMs < this.ttlMs };
+      })
+      .sort((a, b) => a.ageMs - b.ageMs);
+  }
+
+  async stats(): Promise<PageCacheStats> {
+    const entries = await this.list();
+    return {
+      directory: this.directory,
+      entries: entries.length,
+      totalBytes: entries.reduce((sum, item) => sum + item.size, 0),
+      maxBytes: this.maxBytes,
+      ttlMs: this.ttlMs,
+      expired: entries.filter(item => !item.fresh).length,
+      newest: entries[0]?.entry.validatedAt,
+      oldest: entries[entries.length - 1]?.entry.validatedAt
+    };
+  }
+
+  /**
+   * Removes entries matching the filter (all entries when no filter is given) and returns how many were removed
+   */
+  async purge(filter: { expired?: boolean; domain?: string } = {}): Promise<number> {
+    const entries = await this.readEntries();
+    let removed = 0;
+
+    for (const { entry, filePath } of entries) {
+      const ageMs = Date.now() - new Date(entry.validatedAt).getTime();
+      if (filter.expired && ageMs < this.ttlMs) continue;
+      if (filter.domain) {
+        const host = new URL(entry.normalizedUrl).hostname;
+        const domain = filter.domain.toLowerCase().replace(/^www\./, '');
+        if (host !== domain && !host.endsWith(`.${domain}`)) continue;
+      }
+      await fs.unlink(filePath).catch(() => {});
+      removed++;
+    }
+
+    this.totalBytes = null;
+    return removed;
+  }
+}
@@ -0,0 +1,340 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { config } from "../config.js";
+import { AnalysisGenerator } from "../agents/index.js";
+import { MarketDataService } from "./market-data.js";
+import { computeTechnicalSnapshot, renderTechnicalTable, TechnicalAnalysisService } from "./technical-indicators.js";
+import { covariance, dailyReturns } from "./correlation.js";
+import { formatPrice } from "./analysis-report.js";
+import { getCurrentDateFormatted } from "../utils/index.js";
+import {
+  DetectedAsset,
+  OhlcCandle,
+  PortfolioAnalysis,
+  PortfolioHolding,
+  PortfolioPosition,
+  PortfolioRiskLevel,
+  TechnicalSnapshot
+} from "../types/index.js";
+
+const ASSET_COLUMNS = ['asset', 'id', 'coin', 'symbol'];
+const QUANTITY_COLUMNS = ['quantity', 'amount', 'qty'];
+const COST_COLUMNS = ['cost_basis', 'costbasis', 'cost', 'avg_price', 'average_price'];
+
+// Annualized volatility bands for a crypto portfolio; BTC alone usually sits between 40% and 70%
+const RISK_BANDS: Array<[number, PortfolioRiskLevel]> = [
+  [40, 'low'],
+  [70, 'moderate'],
+  [100, 'high']
+];
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Reads CSV holdings with a header row naming the asset, quantity and (optional) cost basis columns
+ */
+export function parsePortfolioCsv(text: string): Array<Record<string, any>> {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = parseCsvLine(lines[0]).map(column => column.toLowerCase().replace(/[\s-]+/g, '_'));
+  const column = (names: string[]) => header.findIndex(name => names.includes(name));
+  const assetColumn = column(ASSET_COLUMNS);
+  const quantityColumn = column(QUANTITY_COLUMNS);
+  const costColumn = column(COST_COLUMNS);
+  if (assetColumn < 0 || quantityColumn < 0) {
+    throw new Error(`CSV header must name an asset column (${ASSET_COLUMNS.join('/')}) and a quantity column (${QUANTITY_COLUMNS.join('/')})`);
+  }
+
+  return lines.slice(1).map(line => {
+    const cells = parseCsvLine(line);
+    const number = (value: string | undefined) => (value ? Number(value.replace(/[$_,\s]/g, '')) : undefined);
+    return {
+      asset: cells[assetColumn],
+      quantity: number(cells[quantityColumn]),
+      costBasis: costColumn >= 0 ? number(cells[costColumn]) : undefined
+    };
+  });
+}
+
+/**
+ * Reads and validates a holdings file (.csv, or .json as an array or { "holdings": [...] }); invalid rows are reported together
+ */
+export async function loadPortfolio(filePath: string = config.portfolio.file): Promise<PortfolioHolding[]> {
+  let rows: Array<Record<string, any>>;
+  try {
+    const text = await fs.readFile(filePath, 'utf8');
+    if (path.extname(filePath).toLowerCase() === '.csv') {
+      rows = parsePortfolioCsv(text);
+    } else {
+      const raw = JSON.parse(text);
+      rows = Array.isArray(raw) ? raw : Array.isArray(raw?.holdings) ? raw.holdings : [];
+    }
+  } catch (error: any) {
+    throw new Error(`Could not read portfolio from ${filePath}: ${error.message}`);
+  }
+
+  const errors: string[] = [];
+  const holdings: PortfolioHolding[] = [];
+  rows.forEach((row, index) => {
+    const label = row?.asset ? `holding "${row.asset}"` : `holding #${index + 1}`;
+    const rowErrors: string[] = [];
+    if (typeof row?.asset !== 'string' || !row.asset.trim()) rowErrors.push(`${label}: "asset" (coin id, symbol or name) is required`);
+    if (typeof row?.quantity !== 'number' || !Number.isFinite(row.quantity) || row.quantity <= 0) rowErrors.push(`${label}: "quantity" must be a positive number`);
+    if (row?.costBasis !== undefined && (typeof row.costBasis !== 'number' || !Number.isFinite(row.costBasis) || row.costBasis < 0)) {
+      rowErrors.push(`${label}: "costBasis" must be a non-negative number (USD per unit)`);
+    }
+    errors.push(...rowErrors);
+    if (rowErrors.length === 0) {
+      holdings.push({ asset: row.asset.trim(), quantity: row.quantity, ...(row.costBasis !== undefined ? { costBasis: row.costBasis } : {}) });
+    }
+  });
+
+  if (rows.length === 0) errors.push('no holdings listed');
+  if (errors.length > 0) {
+    throw new Error(`Invalid portfolio in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return holdings;
+}
+
+/**
+ * Annualized volatility (percent) of each series and of the weighted portfolio, plus each position's share of the
+ * portfolio variance. Only days every series has a return for are used; fewer than 10 such days gives nulls.
+ */
+export function portfolioRisk(weights: number[], series: Array<Map<number, number> | null>): {
+  volatilities: Array<number | null>;
+  volatility: number | null;
+  riskContributions: Array<number | null>;
+} {
+  const annualize = (variance: number) => Math.sqrt(variance * 365) * 100;
+  const volatilities = series.map(returns => {
+    const values = returns ? [...returns.values()] : [];
+    return values.length >= 10 ? annualize(covariance(values, values)) : null;
+  });
+
+  const empty = { volatilities, volatility: null, riskContributions: weights.map(() => null) };
+  if (series.length === 0 || series.some(returns => !returns)) return empty;
+  const days = [...series[0]!.keys()].filter(day => series.every(returns => returns!.has(day)));
+  if (days.length < 10) return empty;
+
+  const aligned = series.map(returns => days.map(day => returns!.get(day)!));
+  const matrix = aligned.map(a => aligned.map(b => covariance(a, b)));
+  const marginal = matrix.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+  const variance = weights.reduce((sum, weight, i) => sum + weight * marginal[i], 0);
+
+  return {
+    volatilities,
+    volatility: annualize(variance),
+    riskContributions: weights.map((weight, i) => (variance > 0 ? (weight * marginal[i]) / variance : null))
+  };
+}
+
+export function riskLevel(volatility: number | null): PortfolioRiskLevel {
+  if (volatility === null) return 'unknown';
+  return RISK_BANDS.find(([limit]) => volatility < limit)?.[1] || 'very high';
+}
+
+const percent = (value: number | null, digits: number = 1) => (value === null ? 'N/A' : `${(value * 100).toFixed(digits)}%`);
+const signedUsd = (value: number | null) => (value === null ? 'N/A' : `${value < 0 ? '-' : '+'}${formatPrice(Math.abs(value))}`);
+const pnlPercent = (value: number | null) => (value === null ? '' : ` (${value.toFixed(1)}%)`);
+
+/**
+ * Renders positions and aggregate metrics as markdown, for the analysis prompt and the console
+ */
+export function renderPortfolioSection(portfolio: PortfolioAnalysis): string {
+  let markdown = `| Asset | Quantity | Price | Value | Weight | Cost Basis | Unrealized P&L | 24h | Volatility (ann.) | Risk Share |\n`;
+  markdown += `|---|---|---|---|---|---|---|---|---|---|\n`;
+  for (const position of portfolio.positions) {
+    markdown += `| ${position.name} (${position.symbol.toUpperCase()}) | ${position.quantity} | ${formatPrice(position.price)} | ${formatPrice(Math.round(position.value))} | ${percent(position.weight)} | ${formatPrice(position.costBasis)} | ${signedUsd(position.unrealizedPnl)}${pnlPercent(position.unrealizedPnlPercent)} | ${position.change24h === null ? 'N/A' : `${position.change24h.toFixed(2)}%`} | ${position.volatility === null ? 'N/A' : `${position.volatility.toFixed(0)}%`} | ${percent(position.riskContribution)} |\n`;
+  }
+
+  const { concentration } = portfolio;
+  markdown += `\n- **Total value:** ${formatPrice(Math.round(portfolio.totalValue))}\n`;
+  if (portfolio.totalCost !== null) {
+    markdown += `- **Cost basis:** ${formatPrice(Math.round(portfolio.totalCost))}, unrealized P&L ${signedUsd(portfolio.unrealizedPnl)}${pnlPercent(portfolio.unrealizedPnlPercent)}`;
+    markdown += portfolio.positions.some(position => position.costBasis === null) ? ' on positions with a cost basis\n' : '\n';
+  }
+  markdown += `- **Concentration:** largest position ${percent(concentration.largestWeight)}, top three ${percent(concentration.topThreeWeight)}, HHI ${concentration.herfindahl.toFixed(3)} (${concentration.effectivePositions.toFixed(1)} effective positions)\n`;
+  markdown += `- **Volatility:** ${portfolio.volatility === null ? 'N/A' : `${portfolio.volatility.toFixed(0)}% annualized`} over ${portfolio.historyDays} days, risk level ${portfolio.riskLevel.toUpperCase()}`;
+  markdown += portfolio.diversificationRatio === null ? '\n' : `, diversification ratio ${portfolio.diversificationRatio.toFixed(2)}\n`;
+  for (const item of portfolio.unresolved) {
+    markdown += `- **Not valued:** "${item.asset}" (${item.reason})\n`;
+  }
+  return markdown;
+}
+
+export function createPortfolioPrompt(portfolio: PortfolioAnalysis, technicalSnapshots: TechnicalSnapshot[] = []): string {
+  let prompt = `Analyze this cryptocurrency portfolio as of ${getCurrentDateFormatted()}. All figures are in USD.
+
+## PORTFOLIO POSITIONS AND RISK
+${renderPortfolioSection(portfolio)}
+Weights are shares of total value. Risk share is each position's contribution to portfolio variance over the last ${portfolio.historyDays} days of daily returns; a diversification ratio near 1 means the holdings move together.
+`;
+
+  if (technicalSnapshots.length > 0) {
+    prompt += `\n## TECHNICAL INDICATORS\n${renderTechnicalTable(technicalSnapshots)}`;
+  }
+
+  prompt += `
+## ANALYSIS REQUIREMENTS
+- Assess the aggregate position first: allocation, concentration and whether the weights match the risk each position carries
+- Call out positions whose risk share is well above their weight
+- Discuss unrealized gains and losses where a cost basis is given
+- Describe how the portfolio would fare in a broad crypto rally and in a sell-off
+- Finish with rebalancing and risk-management considerations, without giving personal financial advice`;
+  return prompt;
+}
+
+/**
+ * Values a holdings list with live quotes, measures allocation and volatility-based risk, and has the model
+ * write a portfolio-level analysis
+ */
+export class PortfolioAnalyzer {
+  private technicalAnalysisService: TechnicalAnalysisService;
+
+  constructor(
+    private marketDataService: MarketDataService = new MarketDataService(),
+    private analysisGenerator: AnalysisGenerator = new AnalysisGenerator()
+  ) {
+    this.technicalAnalysisService = new TechnicalAnalysisService(marketDataService.getProvider());
+  }
+
+  async evaluate(holdings: PortfolioHolding[]): Promise<{ portfolio: PortfolioAnalysis; technicalSnapshots: TechnicalSnapshot[] }> {
+    await this.marketDataService.setupKnowledgeBase();
+
+    const unresolved: PortfolioAnalysis['unresolved'] = [];
+    const resolved = new Map<string, { asset: DetectedAsset; inputs: string[]; quantity: number; cost: number | null }>();
+    for (const holding of holdings) {
+      const asset = this.marketDataService.resolveAsset(holding.asset);
+      if (!asset) {
+        unresolved.push({ asset: holding.asset, reason: 'not in the knowledge base' });
+        continue;
+      }
+      if (asset.resolution && asset.resolution.alternatives.length > 0) {
+        console.log(`🔀 "${holding.asset}" valued as ${asset.name} (${asset.id}); write the coin id to pick ${asset.resolution.alternatives.map(alternative => alternative.id).join(', ')} instead`);
+      }
+      // Repeated entries for one coin (several lots or wallets) merge into one position with an averaged cost basis
+      const entry = resolved.get(asset.id) || { asset, inputs: [], quantity: 0, cost: 0 };
+      entry.inputs.push(holding.asset);
+      entry.quantity += holding.quantity;
+      entry.cost = entry.cost !== null && holding.costBasis !== undefined ? entry.cost + holding.costBasis * holding.quantity : null;
+      resolved.set(asset.id, entry);
+    }
+
+    const entries = [...resolved.values()];
+    const quotes = await this.marketDataService.fetchDetailedCoinData(entries.map(entry => entry.asset));
+    const valued = entries.filter(entry => {
+      if (quotes[entry.asset.id]?.current_price > 0) return true;
+      unresolved.push({ asset: entry.inputs.join(', '), reason: `no quote for ${entry.asset.id}` });
+      return false;
+    });
+
+    const histories: Array<OhlcCandle[] | null> = [];
+    const technicalSnapshots: TechnicalSnapshot[] = [];
+    for (const { asset } of valued) {
+      try {
+        const candles = await this.technicalAnalysisService.fetchDailyCandles(asset, config.portfolio.historyDays);
+        histories.push(candles);
+        const snapshot = computeTechnicalSnapshot(asset, candles);
+        if (snapshot) technicalSnapshots.push(snapshot);
+      } catch (error: any) {
+        console.warn(`⚠️ No price history for ${asset.id}, its volatility is unknown:`, error.message);
+        histories.push(null);
+      }
+    }
+
+    const values = valued.map(entry => entry.quantity * quotes[entry.asset.id].current_price);
+    const totalValue = values.reduce((sum, value) => sum + value, 0);
+    const weights = values.map(value => (totalValue > 0 ? value / totalValue : 0));
+    const risk = portfolioRisk(weights, histories.map(candles => (candles ? dailyReturns(candles) : null)));
+
+    const positions: PortfolioPosition[] = valued.map((entry, i) => {
+      const quote = quotes[entry.asset.id];
+      const costValue = entry.cost;
+      return {
+        id: entry.asset.id,
+        name: entry.asset.name,
+        symbol: entry.asset.symbol || quote.symbol,
+        inputs: entry.inputs,
+        quantity: entry.quantity,
+        costBasis: costValue !== null ? costValue / entry.quantity : null,
+        price: quote.current_price,
+        value: values[i],
+        weight: weights[i],
+        costValue,
+        unrealizedPnl: costValue !== null ? values[i] - costValue : null,
+        unrealizedPnlPercent: costValue ? ((values[i] - costValue) / costValue) * 100 : null,
+        change24h: typeof quote.price_change_24h === 'number' ? quote.price_change_24h : null,
+        volatility: risk.volatilities[i],
+        riskContribution: risk.riskContributions[i],
+        ...(entry.asset.resolution ? { resolution: entry.asset.resolution } : {})
+      };
+    }).sort((a, b) => b.value - a.value);
+
+    const withCost = positions.filter(position => position.costValue !== null);
+    const totalCost = withCost.length > 0 ? withCost.reduce((sum, position) => sum + position.costValue!, 0) : null;
+    const costedValue = withCost.reduce((sum, position) => sum + position.value, 0);
+    const herfindahl = weights.reduce((sum, weight) => sum + weight * weight, 0);
+    const sortedWeights = positions.map(position => position.weight);
+    const weightedVolatility = positions.every(position => position.volatility !== null)
+      ? positions.reduce((sum, position) => sum + position.weight * position.volatility!, 0)
+      : null;
+
+    const portfolio: PortfolioAnalysis = {
+      valuedAt: new Date().toISOString(),
+      positions,
+      unresolved,
+      totalValue,
+      totalCost,
+      unrealizedPnl: totalCost !== null ? costedValue - totalCost : null,
+      unrealizedPnlPercent: totalCost ? ((costedValue - totalCost) / totalCost) * 100 : null,
+      concentration: {
+        herfindahl,
+        effectivePositions: herfindahl > 0 ? 1 / herfindahl : 0,
+        largestWeight: sortedWeights[0] || 0,
+        topThreeWeight: sortedWeights.slice(0, 3).reduce((sum, weight) => sum + weight, 0)
+      },
+      volatility: risk.volatility,
+      diversificationRatio: risk.volatility && weightedVolatility !== null ? weightedVolatility / risk.volatility : null,
+      riskLevel: riskLevel(risk.volatility),
+      historyDays: config.portfolio.historyDays
+    };
+
+    console.log(`💼 Valued ${positions.length} positions at ${formatPrice(Math.round(totalValue))}${unresolved.length > 0 ? ` (${unresolved.length} not valued)` : ''}`);
+    return { portfolio, technicalSnapshots };
+  }
+
+  async generateAnalysis(portfolio: PortfolioAnalysis, technicalSnapshots: TechnicalSnapshot[] = []): Promise<{ prompt: string; analysis: string }> {
+    const prompt = createPortfolioPrompt(portfolio, technicalSnapshots);
+    const analysis = await this.analysisGenerator.generatePortfolioAnalysis(prompt);
+    return { prompt, analysis };
+  }
+
+  async analyze(holdings: PortfolioHolding[]): Promise<{ portfolio: PortfolioAnalysis; prompt: string; analysis: string }> {
+    const { portfolio, technicalSnapshots } = await this.evaluate(holdings);
+    if (portfolio.positions.length === 0) {
+      throw new Error('None of the holdings could be valued');
+    }
+    return { portfolio, ...(await this.generateAnalysis(portfolio, technicalSnapshots)) };
+  }
+}
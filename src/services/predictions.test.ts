@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseHorizonDays } from './predictions.js';
+
+describe('parseHorizonDays', () => {
+  it('reads counted durations and takes the upper end of ranges', () => {
+    assert.equal(parseHorizonDays('30 days'), 30);
+    assert.equal(parseHorizonDays('2-4 weeks'), 28);
+    assert.equal(parseHorizonDays('1 to 2 months'), 60);
+    assert.equal(parseHorizonDays('next quarter'), 91);
+    assert.equal(parseHorizonDays('3d'), 3);
+    assert.equal(parseHorizonDays('2w'), 14);
+  });
+
+  it('rounds hours up to whole days', () => {
+    assert.equal(parseHorizonDays('24h'), 1);
+    assert.equal(parseHorizonDays('48 hours'), 2);
+    assert.equal(parseHorizonDays('36 hrs'), 2);
+    assert.equal(parseHorizonDays('next 12h'), 1);
+    assert.equal(parseHorizonDays('24-72h'), 3);
+  });
+
+  it('falls back without a duration', () => {
+    assert.equal(parseHorizonDays('short term', 30), 30);
+    assert.equal(parseHorizonDays('next month', 7), 30);
+  });
+});
@@ -0,0 +1,344 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { config } from "../config.js";
+import { createMarketDataProvider } from "./market-data-providers.js";
+import type { PipelineSuccess } from "../pipeline.js";
+import {
+  CalibrationBucket,
+  MarketDataProvider,
+  OhlcCandle,
+  PredictionEvaluation,
+  PredictionRecord,
+  PredictionScoreboard,
+  ReportScenario,
+  ScenarioEvaluation,
+  ScenarioPrediction,
+  ScoreboardRow
+} from "../types/index.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UNIT_DAYS: Record<string, number> = { h: 1 / 24, d: 1, w: 7, mo: 30, q: 91, y: 365 };
+
+const unitDays = (unit: string) => UNIT_DAYS[unit.startsWith('mo') ? 'mo' : unit[0]];
+
+/**
+ * Days a scenario timeframe such as "2-4 weeks", "30 days", "48h" or "next month" covers.
+ * Ranges count to their upper end and hours round up to whole days.
+ */
+export function parseHorizonDays(timeframe: string, fallback: number = config.predictions.defaultHorizonDays): number {
+  const text = timeframe.toLowerCase();
+  const counted = text.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|h|days?|d|weeks?|wks?|w|months?|mos?|quarters?|years?|yrs?)\b/);
+  if (counted) {
+    return Math.max(1, Math.ceil(parseFloat(counted[2] ?? counted[1]) * unitDays(counted[3])));
+  }
+  const bare = text.match(/\b(day|week|month|quarter|year)\b/);
+  return bare ? unitDays(bare[1]) : fallback;
+}
+
+function toScenarioPrediction(scenario: ReportScenario, rate: number): ScenarioPrediction {
+  return {
+    probability: scenario.probability,
+    priceTarget: scenario.priceTarget / rate,
+    entry: typeof scenario.entry === 'number' ? scenario.entry / rate : null,
+    stopLoss: typeof scenario.stopLoss === 'number' ? scenario.stopLoss / rate : null,
+    timeframe: scenario.timeframe,
+    horizonDays: parseHorizonDays(scenario.timeframe)
+  };
+}
+
+/**
+ * One prediction per asset of a structured report, with prices converted back to USD so they compare with provider history
+ */
+export function extractPredictions(result: PipelineSuccess, promptVersion: string, createdAt: Date = new Date()): PredictionRecord[] {
+  if (!result.report) return [];
+  const runId = randomUUID();
+  const rate = result.exchangeRate > 0 ? result.exchangeRate : 1;
+
+  const predictions: PredictionRecord[] = [];
+  for (const asset of result.report.assets) {
+    const quote = result.marketData[asset.assetId];
+    const referencePrice = typeof quote?.current_price === 'number'
+      ? quote.current_price
+      : asset.currentPrice !== null ? asset.currentPrice / rate : null;
+    if (!referencePrice || referencePrice <= 0) {
+      console.warn(`⚠️ No reference price for ${asset.assetId}, its prediction is not tracked`);
+      continue;
+    }
+
+    const bullish = toScenarioPrediction(asset.scenarios.bullish, rate);
+    const bearish = toScenarioPrediction(asset.scenarios.bearish, rate);
+    predictions.push({
+      id: `${runId}:${asset.assetId}`,
+      runId,
+      assetId: asset.assetId,
+      name: asset.name,
+      symbol: asset.symbol,
+      createdAt: createdAt.toISOString(),
+      query: result.query,
+      promptVersion,
+      model: config.google.model,
+      referencePrice,
+      direction: asset.outlook,
+      horizonDays: asset.outlook === 'bullish'
+        ? bullish.horizonDays
+        : asset.outlook === 'bearish' ? bearish.horizonDays : Math.max(bullish.horizonDays, bearish.horizonDays),
+      reportCurrency: result.currency,
+      scenarios: { bullish, bearish }
+    });
+  }
+  return predictions;
+}
+
+function longestHorizon(prediction: PredictionRecord): number {
+  return Math.max(prediction.horizonDays, prediction.scenarios.bullish.horizonDays, prediction.scenarios.bearish.horizonDays);
+}
+
+// Daily candles are stamped with the start of their UTC day; the day the prediction was made is left out
+function horizonCandles(candles: OhlcCandle[], start: number, horizonDays: number): OhlcCandle[] {
+  return candles.filter(candle => candle.timestamp > start && candle.timestamp <= start + horizonDays * DAY_MS);
+}
+
+function coversHorizon(window: OhlcCandle[], start: number, horizonDays: number): boolean {
+  const last = window[window.length - 1];
+  return !!last && last.timestamp >= start + (horizonDays - 1) * DAY_MS;
+}
+
+const isoDay = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+function scenarioOutcome(side: 'bullish' | 'bearish', scenario: ScenarioPrediction, window: OhlcCandle[]): ScenarioEvaluation {
+  for (const candle of window) {
+    const stopped = scenario.stopLoss !== null && (side === 'bullish' ? candle.low <= scenario.stopLoss : candle.high >= scenario.stopLoss);
+    const reached = side === 'bullish' ? candle.high >= scenario.priceTarget : candle.low <= scenario.priceTarget;
+    // A daily candle does not say which came first, so a day that touches both counts against the scenario
+    if (stopped) return { outcome: 'stop', resolvedAt: isoDay(candle.timestamp) };
+    if (reached) return { outcome: 'target', resolvedAt: isoDay(candle.timestamp) };
+  }
+  return { outcome: 'expired', resolvedAt: null };
+}
+
+/**
+ * Scores a prediction against realized daily prices; null until every horizon has passed and the history covers it
+ */
+export function evaluatePrediction(prediction: PredictionRecord, candles: OhlcCandle[], now: Date = new Date()): PredictionEvaluation | null {
+  const start = Date.parse(prediction.createdAt);
+  const longest = longestHorizon(prediction);
+  if (now.getTime() < start + longest * DAY_MS || !coversHorizon(horizonCandles(candles, start, longest), start, longest)) {
+    return null;
+  }
+
+  const window = horizonCandles(candles, start, prediction.horizonDays);
+  const realizedPrice = window[window.length - 1].close;
+  const returnPercent = (realizedPrice / prediction.referencePrice - 1) * 100;
+  const { bullish, bearish } = prediction.scenarios;
+  const expectedPrice = prediction.direction === 'bullish'
+    ? bullish.priceTarget
+    : prediction.direction === 'bearish' ? bearish.priceTarget : prediction.referencePrice;
+
+  return {
+    evaluatedAt: now.toISOString(),
+    horizonEnd: new Date(start + prediction.horizonDays * DAY_MS).toISOString(),
+    realizedPrice,
+    returnPercent,
+    high: Math.max(...window.map(candle => candle.high)),
+    low: Math.min(...window.map(candle => candle.low)),
+    directionCorrect: prediction.direction === 'bullish'
+      ? returnPercent > 0
+      : prediction.direction === 'bearish' ? returnPercent < 0 : Math.abs(returnPercent) <= config.predictions.neutralBandPercent,
+    expectedPrice,
+    errorPercent: Math.abs(realizedPrice - expectedPrice) / expectedPrice * 100,
+    bullish: scenarioOutcome('bullish', bullish, horizonCandles(candles, start, bullish.horizonDays)),
+    bearish: scenarioOutcome('bearish', bearish, horizonCandles(candles, start, bearish.horizonDays))
+  };
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+const percentOf = (count: number, total: number) => (total > 0 ? (count / total) * 100 : null);
+
+/**
+ * Buckets scenario probabilities and compares the stated probability with how often the target was reached
+ */
+export function calibrationBuckets(
+  scenarios: Array<{ probability: number; hit: boolean }>,
+  buckets: number = config.predictions.calibrationBuckets
+): CalibrationBucket[] {
+  const width = 100 / buckets;
+  return Array.from({ length: buckets }, (_, i) => {
+    const from = i * width;
+    const to = (i + 1) * width;
+    const inBucket = scenarios.filter(scenario => scenario.probability >= from && (scenario.probability < to || (i === buckets - 1 && scenario.probability <= to)));
+    return {
+      from,
+      to,
+      count: inBucket.length,
+      meanProbability: mean(inBucket.map(scenario => scenario.probability)),
+      observedPercent: percentOf(inBucket.filter(scenario => scenario.hit).length, inBucket.length)
+    };
+  });
+}
+
+export function scorePredictions(key: string, predictions: PredictionRecord[]): ScoreboardRow {
+  const evaluated = predictions.filter(prediction => prediction.evaluation);
+  const called = evaluated.filter(prediction => prediction.direction !== 'neutral');
+  const scenarios = evaluated.flatMap(prediction => (['bullish', 'bearish'] as const).map(side => ({
+    probability: prediction.scenarios[side].probability,
+    hit: prediction.evaluation![side].outcome === 'target'
+  })));
+
+  return {
+    key,
+    predictions: predictions.length,
+    evaluated: evaluated.length,
+    pending: predictions.length - evaluated.length,
+    hitRate: percentOf(called.filter(prediction => prediction.evaluation![prediction.direction as 'bullish' | 'bearish'].outcome === 'target').length, called.length),
+    directionAccuracy: percentOf(evaluated.filter(prediction => prediction.evaluation!.directionCorrect).length, evaluated.length),
+    meanErrorPercent: mean(evaluated.map(prediction => prediction.evaluation!.errorPercent)),
+    brierScore: mean(scenarios.map(scenario => (scenario.probability / 100 - (scenario.hit ? 1 : 0)) ** 2)),
+    calibration: calibrationBuckets(scenarios)
+  };
+}
+
+function scoreGroups(predictions: PredictionRecord[], keyOf: (prediction: PredictionRecord) => string): ScoreboardRow[] {
+  const groups = new Map<string, PredictionRecord[]>();
+  for (const prediction of predictions) {
+    const key = keyOf(prediction);
+    groups.set(key, [...(groups.get(key) || []), prediction]);
+  }
+  return [...groups.entries()]
+    .map(([key, items]) => scorePredictions(key, items))
+    .sort((a, b) => b.evaluated - a.evaluated || a.key.localeCompare(b.key));
+}
+
+export function buildScoreboard(predictions: PredictionRecord[], now: Date = new Date()): PredictionScoreboard {
+  return {
+    generatedAt: now.toISOString(),
+    overall: scorePredictions('all', predictions),
+    byPromptVersion: scoreGroups(predictions, prediction => prediction.promptVersion),
+    byAsset: scoreGroups(predictions, prediction => prediction.assetId)
+  };
+}
+
+const pct = (value: number | null) => (value === null ? 'N/A' : `${value.toFixed(1)}%`);
+
+function renderScoreTable(label: string, rows: ScoreboardRow[]): string {
+  let markdown = `| ${label} | Predictions | Evaluated | Hit rate | Direction | Mean error | Brier |\n|---|---|---|---|---|---|---|\n`;
+  for (const row of rows) {
+    markdown += `| ${row.key} | ${row.predictions} | ${row.evaluated} | ${pct(row.hitRate)} | ${pct(row.directionAccuracy)} | ${pct(row.meanErrorPercent)} | ${row.brierScore === null ? 'N/A' : row.brierScore.toFixed(3)} |\n`;
+  }
+  return markdown;
+}
+
+export function renderScoreboard(scoreboard: PredictionScoreboard): string {
+  const { overall } = scoreboard;
+  let markdown = `# Prediction Scoreboard\n\n`;
+  markdown += `${overall.predictions} predictions, ${overall.evaluated} evaluated, ${overall.pending} pending (generated ${scoreboard.generatedAt})\n\n`;
+  markdown += `Hit rate counts bullish/bearish calls whose scenario reached its target before its stop. Direction counts calls on the right side of the starting price at the horizon, or within ±${config.predictions.neutralBandPercent}% for neutral outlooks. Mean error is the distance between the realized price and the called target.\n\n`;
+
+  markdown += `## By Prompt Version\n\n${renderScoreTable('Prompt version', scoreboard.byPromptVersion)}\n`;
+  markdown += `## By Asset\n\n${renderScoreTable('Asset', scoreboard.byAsset)}\n`;
+
+  markdown += `## Calibration\n\nStated scenario probability against how often the scenario's target was reached within its timeframe.\n\n`;
+  const versions = scoreboard.byPromptVersion.filter(row => row.evaluated > 0);
+  if (versions.length === 0) {
+    markdown += `No evaluated predictions yet.\n`;
+    return markdown;
+  }
+  const buckets = versions[0].calibration;
+  markdown += `| Prompt version | ${buckets.map(bucket => `${bucket.from.toFixed(0)}-${bucket.to.toFixed(0)}%`).join(' | ')} |\n|---|${buckets.map(() => '---').join('|')}|\n`;
+  for (const row of versions) {
+    markdown += `| ${row.key} | ${row.calibration.map(bucket => (bucket.count > 0 ? `${pct(bucket.observedPercent)} (n=${bucket.count})` : '-')).join(' | ')} |\n`;
+  }
+  return markdown;
+}
+
+/**
+ * Stores the predictions of every analysis run and later scores them against realized prices from the market data provider
+ */
+export class PredictionTracker {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private provider: MarketDataProvider = createMarketDataProvider(),
+    private filePath: string = config.predictions.file
+  ) {}
+
+  async load(): Promise<PredictionRecord[]> {
+    let raw: any;
+    try {
+      raw = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw new Error(`Could not read predictions from ${this.filePath}: ${error.message}`);
+    }
+    return Array.isArray(raw?.predictions) ? raw.predictions : [];
+  }
+
+  private async save(predictions: PredictionRecord[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify({ predictions }, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  // Load-modify-save steps run one at a time so concurrent pipeline runs do not overwrite each other's predictions
+  private update<T>(change: (predictions: PredictionRecord[]) => Promise<T> | T): Promise<T> {
+    const next = this.writes.then(async () => {
+      const predictions = await this.load();
+      const result = await change(predictions);
+      await this.save(predictions);
+      return result;
+    });
+    this.writes = next.catch(() => undefined);
+    return next;
+  }
+
+  async record(result: PipelineSuccess, promptVersion: string): Promise<PredictionRecord[]> {
+    const predictions = extractPredictions(result, promptVersion);
+    if (predictions.length === 0) return [];
+    await this.update(existing => {
+      existing.push(...predictions);
+    });
+    console.log(`🎯 Tracking ${predictions.length} predictions under prompt version ${promptVersion}`);
+    return predictions;
+  }
+
+  /**
+   * Evaluates every prediction whose horizons have passed; returns the ones scored in this pass
+   */
+  async evaluate(now: Date = new Date()): Promise<PredictionRecord[]> {
+    return this.update(async predictions => {
+      const due = predictions.filter(prediction => !prediction.evaluation && now.getTime() >= Date.parse(prediction.createdAt) + longestHorizon(prediction) * DAY_MS);
+      const byAsset = new Map<string, PredictionRecord[]>();
+      for (const prediction of due) {
+        byAsset.set(prediction.assetId, [...(byAsset.get(prediction.assetId) || []), prediction]);
+      }
+
+      const evaluated: PredictionRecord[] = [];
+      for (const [assetId, items] of byAsset) {
+        const oldest = Math.min(...items.map(prediction => Date.parse(prediction.createdAt)));
+        let candles: OhlcCandle[];
+        try {
+          candles = await this.provider.getHistory({ id: assetId, name: items[0].name, symbol: items[0].symbol }, Math.ceil((now.getTime() - oldest) / DAY_MS) + 1);
+        } catch (error: any) {
+          console.warn(`⚠️ No price history for ${assetId}, its predictions stay pending:`, error.message);
+          continue;
+        }
+        for (const prediction of items) {
+          const evaluation = evaluatePrediction(prediction, candles, now);
+          if (evaluation) {
+            prediction.evaluation = evaluation;
+            evaluated.push(prediction);
+          }
+        }
+      }
+
+      console.log(`🎯 Evaluated ${evaluated.length} of ${due.length} predictions past their horizon`);
+      return evaluated;
+    });
+  }
+
+  async scoreboard(now: Date = new Date()): Promise<PredictionScoreboard> {
+    return buildScoreboard(await this.load(), now);
+  }
+}
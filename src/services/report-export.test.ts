@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderExportHtml } from './report-export.js';
+import { ReportExport } from '../types/index.js';
+
+const exported = (sources: ReportExport['sources']): ReportExport => ({
+  query: 'bitcoin outlook',
+  resolvedQuery: 'bitcoin outlook',
+  generatedAt: '2026-01-01T00:00:00.000Z',
+  searchEngine: 'exa',
+  currency: 'usd',
+  durationMs: 1000,
+  assets: [],
+  marketData: [],
+  analysis: 'Bitcoin holds support [1][2].',
+  report: null,
+  sources,
+  citationIssues: []
+});
+
+describe('renderExportHtml', () => {
+  it('links http(s) sources and renders any other URL as plain text', () => {
+    const html = renderExportHtml(exported([
+      { index: 1, title: 'ETF flows', url: 'https://example.com/etf?a=1&b=2', cited: true },
+      { index: 2, title: 'Click me', url: 'javascript:alert(document.cookie)', cited: true },
+      { index: 3, title: '', url: ' JavaScript:alert(1)', cited: false }
+    ]));
+
+    assert.match(html, /<li id="source-1"><a href="https:\/\/example\.com\/etf\?a=1&amp;b=2">ETF flows<\/a>/);
+    assert.match(html, /<li id="source-2">Click me · /);
+    assert.match(html, /<li id="source-3"> JavaScript:alert\(1\) · /);
+    assert.doesNotMatch(html, /href="\s*javascript:/i);
+  });
+});
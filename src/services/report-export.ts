@@ -0,0 +1,322 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { config } from "../config.js";
+import { PipelineSuccess } from "../pipeline.js";
+import { buildReferences, extractInlineCitations } from "./citations.js";
+import { formatPrice } from "./analysis-report.js";
+import { ReportExport, ReportFormat } from "../types/index.js";
+
+const FORMAT_NAMES: Record<string, ReportFormat> = {
+  markdown: 'markdown',
+  md: 'markdown',
+  html: 'html',
+  json: 'json'
+};
+
+const EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: '.md',
+  html: '.html',
+  json: '.json'
+};
+
+/**
+ * Parses a comma-separated format list such as "md,html"
+ */
+export function parseReportFormats(value: string = config.reports.formats): ReportFormat[] {
+  const names = value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const unknown = names.filter(name => !FORMAT_NAMES[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown report format${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}; use markdown, html or json`);
+  }
+  return [...new Set(names.map(name => FORMAT_NAMES[name]))];
+}
+
+export function formatForFile(file: string): ReportFormat | undefined {
+  const extension = path.extname(file).toLowerCase();
+  return (Object.keys(EXTENSIONS) as ReportFormat[]).find(format => EXTENSIONS[format] === extension) || (extension === '.markdown' ? 'markdown' : undefined);
+}
+
+export function buildReportExport(result: PipelineSuccess, generatedAt: Date = new Date()): ReportExport {
+  const cited = new Set(extractInlineCitations(result.analysis));
+  return {
+    query: result.query,
+    resolvedQuery: result.resolvedQuery,
+    generatedAt: generatedAt.toISOString(),
+    searchEngine: result.searchEngine,
+    currency: result.currency,
+    durationMs: result.durationMs,
+    assets: result.detectedAssets,
+    marketData: result.detectedAssets
+      .filter(asset => result.marketData[asset.id])
+      .map(asset => ({ ...result.marketData[asset.id], id: asset.id })),
+    analysis: result.analysis,
+    report: result.report,
+    sources: buildReferences(result.sources).map(source => ({ ...source, cited: cited.has(source.index) })),
+    citationIssues: result.citationIssues
+  };
+}
+
+function formatLargeUsd(value: number | null | undefined): string {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value === 0) return 'N/A';
+  if (value >= 1e12) return `$${(value / 1e12).toFixed(2)}T`;
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  return formatPrice(Math.round(value));
+}
+
+function formatChange(value: number | null | undefined): string {
+  return typeof value === 'number' ? `${value > 0 ? '+' : ''}${value.toFixed(2)}%` : 'N/A';
+}
+
+const MARKET_COLUMNS = ['Asset', 'Price', '24h', 'Market Cap', '24h Volume', '24h Range', 'Source'];
+
+function marketRows(exported: ReportExport): string[][] {
+  return exported.marketData.map(quote => [
+    `${quote.name} (${quote.symbol.toUpperCase()})`,
+    formatPrice(quote.current_price),
+    formatChange(quote.price_change_24h),
+    formatLargeUsd(quote.market_cap),
+    formatLargeUsd(quote.total_volume),
+    quote.low_24h != null && quote.high_24h != null ? `${formatPrice(quote.low_24h)} - ${formatPrice(quote.high_24h)}` : 'N/A',
+    quote.source || ''
+  ]);
+}
+
+function runSummary(exported: ReportExport): string {
+  return [
+    `Generated ${exported.generatedAt}`,
+    `search engine ${exported.searchEngine.toUpperCase()}`,
+    `prices in ${exported.currency.toUpperCase()}`,
+    `${exported.sources.length} sources`,
+    `${(exported.durationMs / 1000).toFixed(1)}s`
+  ].join(' · ');
+}
+
+/** The analysis starts at "#"; the exported document owns the top heading, so everything moves down a level */
+function demoteHeadings(markdown: string): string {
+  return markdown.replace(/^(#{1,5})(?=\s)/gm, '#$1');
+}
+
+export function renderExportMarkdown(exported: ReportExport): string {
+  let markdown = `# Crypto Analysis: ${exported.query}\n\n_${runSummary(exported)}_\n`;
+  if (exported.resolvedQuery !== exported.query) {
+    markdown += `\nAnswered as: "${exported.resolvedQuery}"\n`;
+  }
+
+  markdown += `\n## Detected Assets\n`;
+  for (const asset of exported.assets) {
+    const contract = asset.contractAddress ? ` · contract ${asset.contractAddress} on ${asset.platform}` : '';
+    markdown += `- **${asset.name}** (${asset.symbol.toUpperCase()}) · \`${asset.id}\`${contract}\n`;
+  }
+
+  if (exported.marketData.length > 0) {
+    markdown += `\n## Market Data (USD)\n`;
+    markdown += `| ${MARKET_COLUMNS.join(' | ')} |\n|${MARKET_COLUMNS.map(() => '---').join('|')}|\n`;
+    for (const row of marketRows(exported)) {
+      markdown += `| ${row.join(' | ')} |\n`;
+    }
+  }
+
+  markdown += `\n## Analysis\n\n${demoteHeadings(exported.analysis).trim()}\n`;
+
+  if (exported.sources.length > 0) {
+    markdown += `\n## Sources\n`;
+    for (const source of exported.sources) {
+      const published = source.publishedDate ? `published ${source.publishedDate}` : 'publish date unknown';
+      markdown += `${source.index}. [${source.title || source.url}](${source.url}) · ${published}${source.cited ? ' · cited' : ''}\n`;
+    }
+  }
+  return markdown;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url.trim());
+}
+
+function renderInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\[(\d{1,3})\]/g, '<a class="cite" href="#source-$1">[$1]</a>');
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+function renderTable(header: string[], rows: string[][], escape: (text: string) => string = renderInline): string {
+  const head = header.map(cell => `<th>${escape(cell)}</th>`).join('');
+  const body = rows.map(row => `<tr>${row.map(cell => `<td>${escape(cell)}</td>`).join('')}</tr>`).join('\n');
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+/**
+ * Converts the markdown the pipeline produces (headings, lists, pipe tables, bold, links and [n] citations) to HTML
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.split('\n');
+  const blocks: string[] = [];
+  const isListItem = (line: string) => /^\s*(?:[-*]|\d+\.)\s+/.test(line);
+  const isTableRow = (line: string) => /^\s*\|/.test(line);
+  const isHeading = (line: string) => /^#{1,6}\s/.test(line);
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (isTableRow(line)) {
+      const rows: string[][] = [];
+      while (i < lines.length && isTableRow(lines[i])) {
+        // Skip the |---|---| separator under the header
+        if (!/^\s*\|?[\s:|-]+\|?\s*$/.test(lines[i]) || !lines[i].includes('-')) rows.push(tableCells(lines[i]));
+        i++;
+      }
+      blocks.push(renderTable(rows[0] || [], rows.slice(1)));
+      continue;
+    }
+
+    if (isListItem(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && isListItem(lines[i])) {
+        items.push(`<li>${renderInline(lines[i].replace(/^\s*(?:[-*]|\d+\.)\s+/, ''))}</li>`);
+        i++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>\n${items.join('\n')}\n</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isHeading(lines[i]) && !isTableRow(lines[i]) && !isListItem(lines[i])) {
+      paragraph.push(renderInline(lines[i].trim()));
+      i++;
+    }
+    blocks.push(`<p>${paragraph.join('<br>\n')}</p>`);
+  }
+
+  return blocks.join('\n');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.55; }
+h1 { font-size: 1.8rem; margin-bottom: 0.25rem; }
+h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 0.3rem; margin-top: 2rem; }
+.meta { color: #656d76; font-size: 0.9rem; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; font-size: 0.9rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; }
+th { background: #f6f8fa; }
+code { background: #f6f8fa; padding: 0.1rem 0.3rem; border-radius: 4px; }
+a { color: #0969da; }
+a.cite { text-decoration: none; font-size: 0.85em; }
+.cited { color: #1a7f37; font-size: 0.85em; }
+:target { background: #fff8c5; }
+`;
+
+export function renderExportHtml(exported: ReportExport): string {
+  const assets = exported.assets.map(asset => {
+    const contract = asset.contractAddress ? ` · contract <code>${escapeHtml(asset.contractAddress)}</code> on ${escapeHtml(asset.platform || '')}` : '';
+    return `<li><strong>${escapeHtml(asset.name)}</strong> (${escapeHtml(asset.symbol.toUpperCase())}) · <code>${escapeHtml(asset.id)}</code>${contract}</li>`;
+  }).join('\n');
+
+  const sources = exported.sources.map(source => {
+    const published = source.publishedDate ? `published ${escapeHtml(source.publishedDate)}` : 'publish date unknown';
+    // Source URLs come from search results; only web links are clickable, so a javascript: URL stays inert text
+    const title = escapeHtml(source.title || source.url);
+    const link = isWebUrl(source.url) ? `<a href="${escapeHtml(source.url)}">${title}</a>` : title;
+    return `<li id="source-${source.index}">${link} · ${published}${source.cited ? ' <span class="cited">cited</span>' : ''}</li>`;
+  }).join('\n');
+
+  const sections = [
+    `<header>\n<h1>Crypto Analysis: ${escapeHtml(exported.query)}</h1>\n<p class="meta">${escapeHtml(runSummary(exported))}</p>${exported.resolvedQuery !== exported.query ? `\n<p class="meta">Answered as: "${escapeHtml(exported.resolvedQuery)}"</p>` : ''}\n</header>`,
+    `<section>\n<h2>Detected Assets</h2>\n<ul>\n${assets}\n</ul>\n</section>`
+  ];
+  if (exported.marketData.length > 0) {
+    sections.push(`<section>\n<h2>Market Data (USD)</h2>\n${renderTable(MARKET_COLUMNS, marketRows(exported), escapeHtml)}\n</section>`);
+  }
+  sections.push(`<section>\n<h2>Analysis</h2>\n${markdownToHtml(demoteHeadings(exported.analysis))}\n</section>`);
+  if (exported.sources.length > 0) {
+    sections.push(`<section>\n<h2>Sources</h2>\n<ol>\n${sources}\n</ol>\n</section>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Crypto Analysis: ${escapeHtml(exported.query)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function renderReportExport(exported: ReportExport, format: ReportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderExportMarkdown(exported);
+    case 'html':
+      return renderExportHtml(exported);
+    case 'json':
+      return JSON.stringify(exported, null, 2);
+  }
+}
+
+/**
+ * Writes analysis runs as standalone report files, one per requested format, named after the run time and query
+ */
+export class ReportExporter {
+  constructor(private directory: string = config.reports.dir) {}
+
+  private baseName(exported: ReportExport): string {
+    const slug = exported.query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 48).replace(/-+$/, '');
+    return `${exported.generatedAt.replace(/[:.]/g, '-')}-${slug || 'analysis'}`;
+  }
+
+  async export(result: PipelineSuccess, formats: ReportFormat[] = parseReportFormats()): Promise<string[]> {
+    const exported = buildReportExport(result);
+    const baseName = this.baseName(exported);
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const files: string[] = [];
+    for (const format of formats) {
+      const file = path.join(this.directory, `${baseName}${EXTENSIONS[format]}`);
+      await fs.writeFile(file, renderReportExport(exported, format));
+      files.push(file);
+    }
+    return files;
+  }
+
+  /**
+   * Writes a single report to an explicit path, in the format its extension names
+   */
+  async exportTo(result: PipelineSuccess, file: string): Promise<string> {
+    const format = formatForFile(file);
+    if (!format) {
+      throw new Error(`Cannot tell the report format from "${file}"; use a .md, .html or .json file`);
+    }
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, renderReportExport(buildReportExport(result), format));
+    return file;
+  }
+}
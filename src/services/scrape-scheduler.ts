@@ -0,0 +1,110 @@
+import { ScrapingConfig } from "../types/index.js";
+
+export interface ScheduledResult<T> {
+  url: string;
+  domain: string;
+  status: 'completed' | 'failed' | 'skipped' | 'timed_out';
+  value?: T;
+  reason?: string;
+  durationMs: number;
+}
+
+export function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+export function isSkippedDomain(domain: string, skipList: string[]): boolean {
+  return skipList.some(skipped => domain === skipped || domain.endsWith(`.${skipped}`));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Bounded worker pool with per-domain concurrency, per-domain politeness delays and a wall-clock budget for the whole run
+ */
+export class ScrapeScheduler {
+  private activePerDomain = new Map<string, number>();
+  private nextStartPerDomain = new Map<string, number>();
+
+  constructor(private scrapingConfig: ScrapingConfig) {}
+
+  async run<T>(urls: string[], worker: (url: string, deadline: number) => Promise<T>): Promise<ScheduledResult<T>[]> {
+    const deadline = Date.now() + this.scrapingConfig.timeBudgetMs;
+    const results = new Map<string, ScheduledResult<T>>();
+    const queue: Array<{ url: string; domain: string }> = [];
+
+    for (const url of [...new Set(urls)]) {
+      const domain = getDomain(url);
+      if (!domain) {
+        results.set(url, { url, domain, status: 'skipped', reason: 'invalid URL', durationMs: 0 });
+      } else if (isSkippedDomain(domain, this.scrapingConfig.skipProblematicDomains)) {
+        results.set(url, { url, domain, status: 'skipped', reason: `domain ${domain} is on the skip list`, durationMs: 0 });
+      } else {
+        queue.push({ url, domain });
+      }
+    }
+
+    const nextTask = (): { url: string; domain: string } | null | number => {
+      const now = Date.now();
+      let earliest = Infinity;
+      for (let i = 0; i < queue.length; i++) {
+        const { domain } = queue[i];
+        if ((this.activePerDomain.get(domain) || 0) >= this.scrapingConfig.maxPerDomain) continue;
+        const nextStart = this.nextStartPerDomain.get(domain) || 0;
+        if (nextStart <= now) return queue.splice(i, 1)[0];
+        earliest = Math.min(earliest, nextStart);
+      }
+      if (queue.length === 0) return null;
+      return Number.isFinite(earliest) ? earliest - now : 50;
+    };
+
+    const runTask = async (task: { url: string; domain: string }): Promise<void> => {
+      const { url, domain } = task;
+      const start = Date.now();
+      this.activePerDomain.set(domain, (this.activePerDomain.get(domain) || 0) + 1);
+      this.nextStartPerDomain.set(domain, start + this.scrapingConfig.domainDelayMs);
+
+      let timer: NodeJS.Timeout | undefined;
+      const budget = new Promise<'timed_out'>(resolve => {
+        timer = setTimeout(() => resolve('timed_out'), Math.max(0, deadline - start));
+      });
+
+      try {
+        const outcome = await Promise.race([worker(url, deadline), budget]);
+        results.set(url, outcome === 'timed_out'
+          ? { url, domain, status: 'timed_out', reason: 'time budget exhausted while scraping', durationMs: Date.now() - start }
+          : { url, domain, status: 'completed', value: outcome, durationMs: Date.now() - start });
+      } catch (error: any) {
+        results.set(url, { url, domain, status: 'failed', reason: error?.message || String(error), durationMs: Date.now() - start });
+      } finally {
+        clearTimeout(timer);
+        this.activePerDomain.set(domain, (this.activePerDomain.get(domain) || 1) - 1);
+      }
+    };
+
+    const workerLoop = async (): Promise<void> => {
+      while (Date.now() < deadline) {
+        const task = nextTask();
+        if (task === null) return;
+        if (typeof task === 'number') {
+          await sleep(Math.min(Math.max(task, 10), Math.max(0, deadline - Date.now())));
+          continue;
+        }
+        await runTask(task);
+      }
+    };
+
+    const poolSize = Math.max(1, Math.min(this.scrapingConfig.maxConcurrent, queue.length));
+    await Promise.all(Array.from({ length: poolSize }, () => workerLoop()));
+
+    for (const { url, domain } of queue) {
+      results.set(url, { url, domain, status: 'skipped', reason: 'time budget exhausted before start', durationMs: 0 });
+    }
+
+    return [...new Set(urls)].map(url => results.get(url)!);
+  }
+}
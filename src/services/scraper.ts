@@ -3,8 +3,13 @@ import * as cheerio from 'cheerio';
 import { chromium, Browser } from 'playwright';
 import { JSDOM } from 'jsdom';
 import { Readability } from '@mozilla/readability';
-import { ScrapedContent } from "../types/index.js";
+import { config } from "../config.js";
+import { PageCacheEntry, ScrapedContent, ScrapeMethodName, ScrapeOutcome, ScrapingConfig } from "../types/index.js";
+import { getScrapingConfig } from "../config/scraping-config.js";
+import { getDomain, ScrapeScheduler } from "./scrape-scheduler.js";
+import { PageCache } from "./page-cache.js";
 import { DateExtractor } from "../utils/date-extractor.js";
+import { cassette, recordable } from "../utils/cassette.js";
 
 const userAgents = [
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -14,123 +19,327 @@ const userAgents = [
 
 const getRandomUserAgent = () => userAgents[Math.floor(Math.random() * userAgents.length)];
 
+export interface ScrapeReport {
+  results: ScrapedContent[];
+  outcomes: ScrapeOutcome[];
+  durationMs: number;
+}
+
+class ScrapeError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'ScrapeError';
+  }
+}
+
+function toScrapeError(error: any): ScrapeError {
+  if (error instanceof ScrapeError) return error;
+  const status = error?.response?.status;
+  if (status) {
+    return new ScrapeError(`HTTP ${status}`, status === 429 || status >= 500);
+  }
+  if (error?.code === 'ECONNABORTED' || error?.name === 'TimeoutError' || /timeout/i.test(error?.message || '')) {
+    return new ScrapeError('request timed out', true);
+  }
+  if (['ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'ETIMEDOUT'].includes(error?.code)) {
+    return new ScrapeError(error.code, true);
+  }
+  return new ScrapeError(error?.message || String(error), false);
+}
+
 export class WebScraper {
-  private browser?: Browser;
+  private browser?: Promise<Browser>;
   private timeout = 10000;
+  private pageCache: PageCache | null;
+
+  // Cassette runs bypass the page cache so recordings capture (and replays use) the real fetches
+  constructor(pageCache?: PageCache | null) {
+    this.pageCache = pageCache !== undefined
+      ? pageCache
+      : config.pageCache.enabled && !cassette.active ? new PageCache() : null;
+  }
 
   async scrapeMultiple(urls: string[]): Promise<ScrapedContent[]> {
-    console.log(`🌐 Scraping ${urls.length} URLs...`);
+    const report = await this.scrapeAll(urls, getScrapingConfig('default'));
+    return report.results;
+  }
+
+  /**
+   * Scrapes URLs through the scheduler and reports every URL's outcome, including skipped and failed ones
+   */
+  async scrapeAll(urls: string[], scrapingConfig: ScrapingConfig): Promise<ScrapeReport> {
+    const start = Date.now();
+    console.log(`🌐 Scraping ${urls.length} URLs (${scrapingConfig.maxConcurrent} workers, ${scrapingConfig.maxPerDomain} per domain, ${Math.round(scrapingConfig.timeBudgetMs / 1000)}s budget)...`);
+
+    const scheduler = new ScrapeScheduler(scrapingConfig);
+    const scheduled = await scheduler.run(urls, (url, deadline) => this.scrapeWithOutcome(url, scrapingConfig, deadline));
+
     const results: ScrapedContent[] = [];
-    
-    for (const url of urls.slice(0, 10)) {
-      try {
-        const result = await this.scrapeUrl(url);
-        if (result) {
-          results.push(result);
-        }
-      } catch (error) {
-        console.warn(`Failed to scrape ${url}: ${error}`);
+    const outcomes: ScrapeOutcome[] = scheduled.map(item => {
+      if (item.status === 'completed' && item.value) {
+        if (item.value.content) results.push(item.value.content);
+        return item.value.outcome;
+      }
+      return {
+        url: item.url,
+        domain: item.domain,
+        status: item.status === 'skipped' ? 'skipped' : 'failed',
+        attempts: 0,
+        durationMs: item.durationMs,
+        reason: item.reason
+      };
+    });
+
+    for (const outcome of outcomes) {
+      const method = outcome.method === 'cache' ? `cache ${outcome.cache}` : outcome.method;
+      const detail = `${method ? `${method}, ` : ''}${outcome.durationMs}ms`;
+      if (outcome.status === 'success') {
+        console.log(`  ✅ ${outcome.url} (${detail})`);
+      } else {
+        console.warn(`  ${outcome.status === 'skipped' ? '⏭️' : '⚠️'} ${outcome.url} ${outcome.status} (${detail}): ${outcome.reason}`);
       }
-      
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
-    
-    console.log(`✅ Successfully scraped ${results.length} URLs`);
-    return results;
+
+    console.log(`✅ Successfully scraped ${results.length}/${urls.length} URLs in ${Date.now() - start}ms`);
+    return { results, outcomes, durationMs: Date.now() - start };
   }
 
-  async scrapeUrl(url: string): Promise<ScrapedContent | null> {
-    try {
-      const result = await this.tryAxiosMethod(url);
-      if (result) return result;
-      
-      const playwrightResult = await this.tryPlaywrightMethod(url);
-      return playwrightResult;
-    } catch (error) {
-      console.error(`All methods failed for ${url}: ${error}`);
-      return null;
+  async scrapeUrl(url: string, scrapingConfig: ScrapingConfig = getScrapingConfig('default')): Promise<ScrapedContent | null> {
+    const { content, outcome } = await this.scrapeWithOutcome(url, scrapingConfig, Date.now() + scrapingConfig.timeBudgetMs);
+    if (!content) {
+      console.error(`All methods failed for ${url}: ${outcome.reason}`);
     }
+    return content;
   }
 
-  private async tryAxiosMethod(url: string): Promise<ScrapedContent | null> {
+  /**
+   * Serves fresh pages from the page cache, revalidates stale ones, then tries each allowed method in order,
+   * retrying transient failures, and records which method succeeded or why all failed
+   */
+  private async scrapeWithOutcome(
+    url: string,
+    scrapingConfig: ScrapingConfig,
+    deadline: number
+  ): Promise<{ content: ScrapedContent | null; outcome: ScrapeOutcome }> {
+    const start = Date.now();
+    const domain = getDomain(url);
+    const methods = (['axios', 'playwright'] as ScrapeMethodName[])
+      .filter(method => !scrapingConfig.skipSlowMethods || scrapingConfig.fastMethods.includes(method));
+    const failures: string[] = [];
+    let attempts = 0;
+
+    const cached = this.pageCache ? await this.pageCache.get(url) : null;
+    if (cached?.fresh) {
+      return {
+        content: this.fromCacheEntry(cached.entry),
+        outcome: { url, domain, status: 'success', method: 'cache', cache: 'hit', attempts, durationMs: Date.now() - start }
+      };
+    }
+
+    for (const method of methods) {
+      for (let attempt = 1; attempt <= Math.max(1, scrapingConfig.maxRetries); attempt++) {
+        if (Date.now() >= deadline) {
+          failures.push(`${method}: time budget exhausted`);
+          break;
+        }
+        attempts++;
+        try {
+          const page = method === 'axios'
+            ? await this.fetchWithAxios(url, scrapingConfig.timeout, cached?.entry)
+            : { status: 200, html: await this.fetchWithPlaywright(url, scrapingConfig.timeout) };
+
+          if (page.status === 304 && cached) {
+            await this.pageCache?.touch(cached.entry).catch(error => console.warn(`⚠️ Page cache write failed: ${error.message}`));
+            return {
+              content: this.fromCacheEntry(cached.entry),
+              outcome: { url, domain, status: 'success', method: 'cache', cache: 'revalidated', attempts, durationMs: Date.now() - start }
+            };
+          }
+
+          const content = this.extractContent(url, page.html);
+          await this.storeInCache(content, method, page);
+          return {
+            content,
+            outcome: {
+              url,
+              domain,
+              status: 'success',
+              method,
+              cache: this.pageCache ? (cached ? 'refreshed' : 'miss') : undefined,
+              attempts,
+              durationMs: Date.now() - start
+            }
+          };
+        } catch (error) {
+          const scrapeError = toScrapeError(error);
+          if (!scrapeError.retryable || attempt >= scrapingConfig.maxRetries) {
+            failures.push(`${method}: ${scrapeError.message}`);
+            break;
+          }
+          await new Promise(resolve => setTimeout(resolve, 500 * attempt));
+        }
+      }
+    }
+
+    if (cached) {
+      return {
+        content: this.fromCacheEntry(cached.entry),
+        outcome: {
+          url,
+          domain,
+          status: 'success',
+          method: 'cache',
+          cache: 'stale',
+          attempts,
+          durationMs: Date.now() - start,
+          reason: `served stale cache entry (${failures.join('; ')})`
+        }
+      };
+    }
+
+    return {
+      content: null,
+      outcome: {
+        url,
+        domain,
+        status: 'failed',
+        attempts,
+        durationMs: Date.now() - start,
+        reason: failures.join('; ') || 'no scraping method allowed'
+      }
+    };
+  }
+
+  private fromCacheEntry(entry: PageCacheEntry): ScrapedContent {
+    return {
+      url: entry.url,
+      title: entry.title,
+      content: entry.content,
+      cleanedContent: entry.content.substring(0, 8000),
+      publishedDate: entry.publishedDate,
+      metadata: {
+        relevanceScore: 1.0,
+        wordCount: entry.content.split(' ').length,
+        source: 'page-cache'
+      }
+    };
+  }
+
+  private async storeInCache(
+    content: ScrapedContent,
+    method: ScrapeMethodName,
+    page: { etag?: string; lastModified?: string }
+  ): Promise<void> {
+    if (!this.pageCache) return;
+    const now = new Date().toISOString();
     try {
-      const { data } = await axios.get(url, {
-        headers: { 'User-Agent': getRandomUserAgent() },
-        timeout: this.timeout,
-        maxRedirects: 3
+      await this.pageCache.set({
+        url: content.url,
+        title: content.title,
+        content: content.content,
+        publishedDate: content.publishedDate,
+        etag: page.etag,
+        lastModified: page.lastModified,
+        method,
+        fetchedAt: now,
+        validatedAt: now
       });
-      
-      return this.extractContent(url, data);
-    } catch (error) {
-      throw new Error(`Axios failed: ${error}`);
+    } catch (error: any) {
+      console.warn(`⚠️ Page cache write failed: ${error.message}`);
     }
   }
 
-  private async tryPlaywrightMethod(url: string): Promise<ScrapedContent | null> {
-    try {
+  private async fetchWithAxios(
+    url: string,
+    timeout: number = this.timeout,
+    validators?: { etag?: string; lastModified?: string }
+  ): Promise<{ status: number; html: string; etag?: string; lastModified?: string }> {
+    const conditional: Record<string, string> = {};
+    if (validators?.etag) conditional['If-None-Match'] = validators.etag;
+    if (validators?.lastModified) conditional['If-Modified-Since'] = validators.lastModified;
+
+    const key = Object.keys(conditional).length > 0 ? { url, method: 'axios', conditional } : { url, method: 'axios' };
+    return recordable('page', key, async () => {
+      const response = await axios.get(url, {
+        headers: { 'User-Agent': getRandomUserAgent(), ...conditional },
+        timeout,
+        maxRedirects: 3,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304
+      });
+      return {
+        status: response.status,
+        html: response.data,
+        etag: response.headers['etag'] || undefined,
+        lastModified: response.headers['last-modified'] || undefined
+      };
+    });
+  }
+
+  private async fetchWithPlaywright(url: string, timeout: number = this.timeout): Promise<string> {
+    return recordable('page', { url, method: 'playwright' }, async () => {
       if (!this.browser) {
-        this.browser = await chromium.launch({ headless: true });
+        this.browser = chromium.launch({ headless: true });
       }
-      
-      const page = await this.browser.newPage({
+      const browser = await this.browser;
+
+      const page = await browser.newPage({
         userAgent: getRandomUserAgent()
       });
-      
-      await page.goto(url, { timeout: this.timeout });
-      const html = await page.content();
-      await page.close();
-      
-      return this.extractContent(url, html);
-    } catch (error) {
-      throw new Error(`Playwright failed: ${error}`);
-    }
-  }
 
-  private extractContent(url: string, html: string): ScrapedContent | null {
-    try {
-      const $ = cheerio.load(html);
-      
-      const title = $('title').text().trim() || $('h1').first().text().trim() || 'No title';
-      
-      const dom = new JSDOM(html, { url });
-      const reader = new Readability(dom.window.document);
-      const article = reader.parse();
-      
-      let content = '';
-      if (article && article.textContent) {
-        content = article.textContent.trim();
-      } else {
-        content = $('body').text().replace(/\s+/g, ' ').trim();
-      }
-      
-      if (content.length < 100) {
-        throw new Error('Insufficient content');
+      try {
+        await page.goto(url, { timeout });
+        return await page.content();
+      } finally {
+        await page.close();
       }
-      
-      const publishedDate = DateExtractor.extractPublicationDate(html, url);
-      
-      return {
-        url,
-        title,
-        content,
-        cleanedContent: content.substring(0, 8000),
-        publishedDate: publishedDate || undefined,
-        metadata: {
-          relevanceScore: 1.0,
-          wordCount: content.split(' ').length,
-          source: 'webscraper'
-        }
-      };
-    } catch (error) {
-      console.error(`Content extraction failed for ${url}: ${error}`);
-      return null;
+    });
+  }
+
+  private extractContent(url: string, html: string): ScrapedContent {
+    if (typeof html !== 'string') {
+      throw new ScrapeError('response is not HTML', false);
     }
+
+    const $ = cheerio.load(html);
+    
+    const title = $('title').text().trim() || $('h1').first().text().trim() || 'No title';
+    
+    const dom = new JSDOM(html, { url });
+    const reader = new Readability(dom.window.document);
+    const article = reader.parse();
+    
+    let content = '';
+    if (article && article.textContent) {
+      content = article.textContent.trim();
+    } else {
+      content = $('body').text().replace(/\s+/g, ' ').trim();
+    }
+    
+    if (content.length < 100) {
+      throw new ScrapeError('insufficient content', false);
+    }
+    
+    const publishedDate = DateExtractor.extractPublicationDate(html, url);
+    
+    return {
+      url,
+      title,
+      content,
+      cleanedContent: content.substring(0, 8000),
+      publishedDate: publishedDate || undefined,
+      metadata: {
+        relevanceScore: 1.0,
+        wordCount: content.split(' ').length,
+        source: 'webscraper'
+      }
+    };
   }
 
   async cleanup(): Promise<void> {
     if (this.browser) {
-      await this.browser.close();
+      const browser = await this.browser.catch(() => null);
       this.browser = undefined;
+      await browser?.close();
     }
   }
 }
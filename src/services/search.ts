@@ -1,6 +1,7 @@
 import { TavilyClient } from "tavily";
 import { Exa } from "exa-js";
 import { config } from "../config.js";
+import { recordable } from "../utils/cassette.js";
 
 interface TavilyResult {
   url: string;
@@ -42,11 +43,13 @@ export class SearchService {
 
     for (const query of queries.slice(0, 3)) {
       try {
-        const result = await this.exaClient.searchAndContents(query, {
+        const options = {
           type: "neural" as const,
           numResults: 3,
           text: { maxCharacters: 1000, includeHtmlTags: false }
-        });
+        };
+        const exaClient = this.exaClient;
+        const result = await recordable('search', { engine: 'exa', query, options }, () => exaClient.searchAndContents(query, options));
 
         const formattedResults = result.results.map((item: any) => ({
           url: item.url,
@@ -83,7 +86,8 @@ export class SearchService {
 
     for (const query of queries.slice(0, 3)) {
       try {
-        const result = await this.tavilyClient.search(query);
+        const tavilyClient = this.tavilyClient;
+        const result = await recordable('search', { engine: 'tavily', query }, () => tavilyClient.search(query));
 
         const formattedResults = result.results.map((item: any) => ({
           url: item.url,
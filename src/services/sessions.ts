@@ -0,0 +1,171 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { config } from "../config.js";
+import { PipelineSuccess, ScrapedContent } from "../pipeline.js";
+import { AnalysisSession, DetectedAsset, SessionSource, SessionTurn } from "../types/index.js";
+
+const SINGULAR_NOUN = /\b(?:this|that|the same)\s+(?:coin|token|asset|project|one)\b/gi;
+const PLURAL_NOUN = /\b(?:these|those|both)\s+(?:coins|tokens|assets|projects)\b/gi;
+
+function joinNames(assets: DetectedAsset[]): string {
+  const names = assets.map(asset => asset.name);
+  return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Assets of the most recent turn that detected any, falling back to everything the session has seen
+ */
+export function lastTurnAssets(session: AnalysisSession): DetectedAsset[] {
+  for (let i = session.turns.length - 1; i >= 0; i--) {
+    const assets = session.turns[i].assetIds
+      .map(id => session.assets.find(asset => asset.id === id))
+      .filter((asset): asset is DetectedAsset => !!asset);
+    if (assets.length > 0) return assets;
+  }
+  return session.assets;
+}
+
+/**
+ * Replaces pronouns in a follow-up with the assets of the previous turn, so "what about its staking yield?"
+ * reaches validation and token detection as "what about Ethereum's staking yield?"
+ */
+export function resolveSessionReferences(query: string, session: AnalysisSession): { query: string; assets: DetectedAsset[] } {
+  const assets = lastTurnAssets(session);
+  if (assets.length === 0) return { query, assets: [] };
+
+  // "it" with several assets in play most likely means the first one discussed
+  const singular = assets[0].name;
+  const plural = joinNames(assets);
+  const resolved = query
+    .replace(PLURAL_NOUN, plural)
+    .replace(SINGULAR_NOUN, singular)
+    .replace(/\b(?:their)\b/gi, assets.length > 1 ? `${plural}'s` : `${singular}'s`)
+    .replace(/\b(?:they|them)\b/gi, assets.length > 1 ? plural : singular)
+    .replace(/\bits\b/gi, `${singular}'s`)
+    .replace(/\bit\b/gi, singular);
+
+  return { query: resolved, assets: resolved === query ? [] : assets };
+}
+
+export function toSessionSource(content: ScrapedContent): SessionSource {
+  return {
+    url: content.url,
+    title: content.title,
+    content: content.content,
+    publishedDate: content.publishedDateString,
+    fetchedAt: content.timestamp.toISOString()
+  };
+}
+
+export function fromSessionSource(source: SessionSource): ScrapedContent {
+  return {
+    url: source.url,
+    title: source.title,
+    content: source.content,
+    timestamp: new Date(source.fetchedAt),
+    publishedDate: source.publishedDate ? new Date(source.publishedDate) : undefined,
+    publishedDateString: source.publishedDate
+  };
+}
+
+/**
+ * Folds a successful run into the session: new assets, sources and market snapshots plus the turn itself
+ */
+export function recordSessionTurn(session: AnalysisSession, result: PipelineSuccess): SessionTurn {
+  const now = new Date().toISOString();
+
+  for (const asset of result.detectedAssets) {
+    if (!session.assets.some(item => item.id === asset.id)) session.assets.push(asset);
+  }
+
+  const fresh = result.sources.map(toSessionSource);
+  const freshUrls = new Set(fresh.map(source => source.url));
+  session.sources = [...fresh, ...session.sources.filter(source => !freshUrls.has(source.url))]
+    .slice(0, config.sessions.maxSources);
+
+  for (const [id, data] of Object.entries(result.marketData)) {
+    if (session.marketSnapshots[id]?.data === data) continue;
+    session.marketSnapshots[id] = { capturedAt: now, data };
+  }
+
+  const turn: SessionTurn = {
+    askedAt: now,
+    query: result.query,
+    resolvedQuery: result.resolvedQuery,
+    assetIds: result.detectedAssets.map(asset => asset.id),
+    sourceUrls: result.sources.map(source => source.url),
+    reusedSourceCount: result.reusedSourceCount,
+    answer: result.report?.executiveSummary || result.analysis.substring(0, config.sessions.answerChars)
+  };
+  session.turns.push(turn);
+  session.updatedAt = now;
+  if (!session.searchEngine) session.searchEngine = result.searchEngine;
+  return turn;
+}
+
+/**
+ * Renders the latest turns as a prompt section so the model can answer follow-ups in context
+ */
+export function renderConversationSection(turns: SessionTurn[]): string {
+  return turns.slice(-config.sessions.promptTurns)
+    .map((turn, index) => `**Q${index + 1}:** ${turn.resolvedQuery}\n**A${index + 1}:** ${turn.answer}`)
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Persists sessions as one JSON file each, so a conversation can be resumed by id from any process
+ */
+export class SessionStore {
+  constructor(private directory: string = config.sessions.dir) {}
+
+  private sessionFile(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  create(searchEngine?: string): AnalysisSession {
+    const now = new Date().toISOString();
+    return { id: randomUUID(), createdAt: now, updatedAt: now, searchEngine, assets: [], sources: [], marketSnapshots: {}, turns: [] };
+  }
+
+  async load(id: string): Promise<AnalysisSession | null> {
+    // Ids are UUIDs; anything else must not reach the filesystem
+    if (!/^[0-9a-f-]{36}$/i.test(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.sessionFile(id), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw new Error(`Could not read session ${id}: ${error.message}`);
+    }
+  }
+
+  async save(session: AnalysisSession): Promise<string> {
+    const file = this.sessionFile(session.id);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(session, null, 2));
+    return file;
+  }
+
+  async list(): Promise<Array<{ id: string; updatedAt: string; turns: number; assets: string[]; lastQuery: string | null }>> {
+    let names: string[];
+    try {
+      names = (await fs.readdir(this.directory)).filter(name => name.endsWith('.json'));
+    } catch {
+      return [];
+    }
+
+    const summaries = [];
+    for (const name of names) {
+      const session = await this.load(name.replace(/\.json$/, '')).catch(() => null);
+      if (!session) continue;
+      summaries.push({
+        id: session.id,
+        updatedAt: session.updatedAt,
+        turns: session.turns.length,
+        assets: session.assets.map(asset => asset.id),
+        lastQuery: session.turns[session.turns.length - 1]?.query ?? null
+      });
+    }
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+}
@@ -0,0 +1,321 @@
+import * as fs from 'fs/promises';
+import { TwitterApi } from 'twitter-api-v2';
+import { config } from "../config.js";
+import { cassette, recordable } from "../utils/cassette.js";
+import {
+  AssetSentiment,
+  CoinInfo,
+  ScoredSocialPost,
+  SentimentBucket,
+  SocialPost,
+  SocialSource
+} from "../types/index.js";
+
+const POSITIVE_TERMS = new Set([
+  'bullish', 'bull', 'moon', 'mooning', 'pump', 'pumping', 'breakout', 'rally', 'rallying', 'buy', 'buying', 'long',
+  'ath', 'gains', 'gain', 'green', 'up', 'surge', 'surging', 'soar', 'soaring', 'strong', 'strength', 'accumulate',
+  'accumulating', 'undervalued', 'adoption', 'partnership', 'launch', 'upgrade', 'approval', 'approved', 'inflows',
+  'recover', 'recovery', 'rebound', 'support', 'hodl', 'send', 'sending', 'win', 'winning', 'love', 'great', 'good'
+]);
+
+const NEGATIVE_TERMS = new Set([
+  'bearish', 'bear', 'dump', 'dumping', 'crash', 'crashing', 'sell', 'selling', 'short', 'rekt', 'rug', 'rugpull',
+  'scam', 'hack', 'hacked', 'exploit', 'red', 'down', 'drop', 'dropping', 'plunge', 'plunging', 'weak', 'weakness',
+  'overvalued', 'outflows', 'liquidated', 'liquidation', 'lawsuit', 'sec', 'ban', 'fear', 'fud', 'dead', 'bad',
+  'worst', 'loss', 'losses', 'bleeding', 'capitulation', 'fraud', 'delist', 'delisted'
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', "isn't", "aren't", "wasn't", "don't", "doesn't", "won't", "can't", 'without']);
+
+const POSITIVE_EMOJI = ['🚀', '📈', '🔥', '💎', '🟢', '🐂', '💪'];
+const NEGATIVE_EMOJI = ['📉', '💀', '🔴', '🐻', '😱', '🩸'];
+
+/**
+ * Lexicon-based sentiment in [-1, 1] with crypto slang, emoji and simple negation handling
+ */
+export function scorePostSentiment(text: string): number {
+  const tokens = text.toLowerCase().replace(/https?:\/\/\S+/g, ' ').match(/[a-z']+/g) || [];
+  let positive = 0;
+  let negative = 0;
+
+  tokens.forEach((token, i) => {
+    const polarity = POSITIVE_TERMS.has(token) ? 1 : NEGATIVE_TERMS.has(token) ? -1 : 0;
+    if (polarity === 0) return;
+    const negated = tokens.slice(Math.max(0, i - 2), i).some(previous => NEGATIONS.has(previous));
+    if ((polarity > 0) !== negated) positive++;
+    else negative++;
+  });
+
+  for (const emoji of POSITIVE_EMOJI) positive += text.split(emoji).length - 1;
+  for (const emoji of NEGATIVE_EMOJI) negative += text.split(emoji).length - 1;
+
+  const total = positive + negative;
+  return total === 0 ? 0 : (positive - negative) / total;
+}
+
+function normalizeForDuplicates(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/@\w+/g, '')
+    .replace(/\d+(\.\d+)?/g, '#')
+    .replace(/[^\p{L}\p{N}#$\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function shingles(text: string): Set<string> {
+  const words = text.split(' ');
+  const result = new Set<string>();
+  for (let i = 0; i + 2 < words.length; i++) result.add(words.slice(i, i + 3).join(' '));
+  if (result.size === 0 && text) result.add(text);
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let intersection = 0;
+  for (const item of a) if (b.has(item)) intersection++;
+  return intersection / (a.size + b.size - intersection || 1);
+}
+
+/**
+ * Flags bot-like posts: near-duplicate text (copy-paste campaigns), authors flooding the window, and cashtag spam
+ */
+export function flagSuspiciousPosts(posts: SocialPost[]): Map<string, string> {
+  const flags = new Map<string, string>();
+  const ordered = [...posts].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const seen: Array<{ post: SocialPost; shingles: Set<string> }> = [];
+  for (const post of ordered) {
+    const normalized = normalizeForDuplicates(post.text);
+    const postShingles = shingles(normalized);
+    const original = seen.find(item => jaccard(item.shingles, postShingles) >= 0.8);
+    if (original) {
+      flags.set(post.id, original.post.authorId === post.authorId
+        ? 'repeated post by the same author'
+        : `near-duplicate of post ${original.post.id} by another account`);
+    } else {
+      seen.push({ post, shingles: postShingles });
+    }
+  }
+
+  const perAuthor = new Map<string, number>();
+  for (const post of posts) perAuthor.set(post.authorId, (perAuthor.get(post.authorId) || 0) + 1);
+  for (const post of posts) {
+    if (flags.has(post.id)) continue;
+    if ((perAuthor.get(post.authorId) || 0) >= 5) {
+      flags.set(post.id, `author posted ${perAuthor.get(post.authorId)} times in the window`);
+    } else if ((post.text.match(/\$[A-Za-z]{2,10}\b/g) || []).length >= 5 && (post.authorFollowers ?? 0) < 100) {
+      flags.set(post.id, 'cashtag spam from a low-follower account');
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Scores posts for one asset into an overall engagement-weighted score plus per-bucket volume and sentiment
+ */
+export function summarizeSentiment(
+  asset: CoinInfo,
+  source: string,
+  posts: SocialPost[],
+  now: Date,
+  windowHours: number = config.social.lookbackHours,
+  bucketHours: number = config.social.bucketHours
+): AssetSentiment {
+  const flags = flagSuspiciousPosts(posts);
+  const scored: ScoredSocialPost[] = posts.map(post => ({
+    ...post,
+    sentiment: scorePostSentiment(post.text),
+    flagged: flags.has(post.id),
+    flagReason: flags.get(post.id)
+  }));
+  const genuine = scored.filter(post => !post.flagged);
+
+  const weight = (post: SocialPost) => 1 + Math.log1p(post.likes + post.reposts * 2 + post.replies);
+  const totalWeight = genuine.reduce((sum, post) => sum + weight(post), 0);
+  const score = genuine.length >= 3 && totalWeight > 0
+    ? genuine.reduce((sum, post) => sum + post.sentiment * weight(post), 0) / totalWeight
+    : null;
+
+  const bucketCount = Math.ceil(windowHours / bucketHours);
+  const windowStart = now.getTime() - bucketCount * bucketHours * 60 * 60 * 1000;
+  const buckets: SentimentBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    start: new Date(windowStart + i * bucketHours * 60 * 60 * 1000).toISOString(),
+    posts: 0,
+    sentiment: null
+  }));
+  const bucketSums = new Array(bucketCount).fill(0);
+  for (const post of genuine) {
+    const index = Math.floor((new Date(post.createdAt).getTime() - windowStart) / (bucketHours * 60 * 60 * 1000));
+    if (index < 0 || index >= bucketCount) continue;
+    buckets[index].posts++;
+    bucketSums[index] += post.sentiment;
+  }
+  buckets.forEach((bucket, i) => {
+    bucket.sentiment = bucket.posts > 0 ? bucketSums[i] / bucket.posts : null;
+  });
+
+  const latest = buckets[buckets.length - 1]?.posts ?? 0;
+  const earlier = buckets.slice(0, -1);
+  const earlierAverage = earlier.length > 0 ? earlier.reduce((sum, bucket) => sum + bucket.posts, 0) / earlier.length : 0;
+
+  return {
+    id: asset.id,
+    name: asset.name,
+    symbol: asset.symbol,
+    source,
+    windowHours,
+    postCount: posts.length,
+    flaggedCount: posts.length - genuine.length,
+    positive: genuine.filter(post => post.sentiment > 0.1).length,
+    negative: genuine.filter(post => post.sentiment < -0.1).length,
+    neutral: genuine.filter(post => Math.abs(post.sentiment) <= 0.1).length,
+    score,
+    label: score === null ? 'insufficient data' : score > 0.15 ? 'bullish' : score < -0.15 ? 'bearish' : 'neutral',
+    volumeTrend: earlierAverage > 0 ? latest / earlierAverage : null,
+    buckets,
+    topPosts: [...genuine].sort((a, b) => weight(b) - weight(a)).slice(0, 3),
+    flaggedExamples: scored.filter(post => post.flagged).slice(0, 3)
+  };
+}
+
+/**
+ * Recent-search over the X (Twitter) v2 API by name, symbol and cashtag, excluding retweets
+ */
+export class TwitterSocialSource implements SocialSource {
+  readonly name = 'twitter';
+  private client: TwitterApi;
+
+  constructor(bearerToken: string = config.twitter.bearerToken) {
+    this.client = new TwitterApi(bearerToken);
+  }
+
+  async fetchPosts(asset: CoinInfo, since: Date, limit: number): Promise<SocialPost[]> {
+    const symbol = asset.symbol.toUpperCase();
+    const query = `("${asset.name}" OR $${symbol} OR #${symbol}) -is:retweet lang:en`;
+    const startTime = since.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+    return recordable('social', { source: this.name, query, startTime, limit }, async () => {
+      const response = await this.client.readOnly.v2.search(query, {
+        start_time: startTime,
+        max_results: Math.min(100, Math.max(10, limit)),
+        'tweet.fields': ['created_at', 'public_metrics', 'author_id'],
+        'user.fields': ['public_metrics'],
+        expansions: ['author_id']
+      });
+
+      const users = new Map((response.includes?.users || []).map(user => [user.id, user]));
+      return (response.tweets || []).slice(0, limit).map(tweet => ({
+        id: tweet.id,
+        text: tweet.text,
+        authorId: tweet.author_id || 'unknown',
+        authorFollowers: users.get(tweet.author_id || '')?.public_metrics?.followers_count,
+        createdAt: tweet.created_at || since.toISOString(),
+        likes: tweet.public_metrics?.like_count || 0,
+        reposts: (tweet.public_metrics?.retweet_count || 0) + (tweet.public_metrics?.quote_count || 0),
+        replies: tweet.public_metrics?.reply_count || 0,
+        url: `https://x.com/i/web/status/${tweet.id}`
+      }));
+    });
+  }
+}
+
+/**
+ * File-backed source for offline runs: posts keyed by asset id, timed with `hoursAgo` relative to the run
+ */
+export class FixtureSocialSource implements SocialSource {
+  readonly name = 'fixture';
+  private posts?: Promise<Record<string, Array<Omit<SocialPost, 'createdAt'> & { createdAt?: string; hoursAgo?: number }>>>;
+
+  constructor(private filePath: string = config.social.fixturePath) {}
+
+  async fetchPosts(asset: CoinInfo, since: Date, limit: number): Promise<SocialPost[]> {
+    if (!this.posts) {
+      this.posts = fs.readFile(this.filePath, 'utf8').then(raw => JSON.parse(raw).posts || {});
+    }
+    const now = cassette.now().getTime();
+    return ((await this.posts)[asset.id] || [])
+      .map(({ hoursAgo, ...post }) => ({
+        ...post,
+        createdAt: post.createdAt || new Date(now - (hoursAgo ?? 0) * 60 * 60 * 1000).toISOString()
+      }))
+      .filter(post => new Date(post.createdAt) >= since)
+      .slice(0, limit);
+  }
+}
+
+export function createSocialSource(name: string = config.social.source): SocialSource | null {
+  switch (name) {
+    case 'twitter':
+      if (!config.twitter.bearerToken) {
+        console.warn('⚠️ SOCIAL_SOURCE=twitter but TWITTER_BEARER_TOKEN is not set; social sentiment disabled');
+        return null;
+      }
+      return new TwitterSocialSource();
+    case 'fixture':
+      return new FixtureSocialSource();
+    case 'off':
+    case '':
+      return null;
+    default:
+      console.warn(`⚠️ Unknown social source "${name}"; social sentiment disabled`);
+      return null;
+  }
+}
+
+export class SocialSentimentService {
+  constructor(private source: SocialSource | null = createSocialSource()) {}
+
+  get enabled(): boolean {
+    return this.source !== null;
+  }
+
+  async analyzeAssets(assets: CoinInfo[]): Promise<AssetSentiment[]> {
+    if (!this.source) return [];
+
+    const now = cassette.now();
+    const since = new Date(now.getTime() - config.social.lookbackHours * 60 * 60 * 1000);
+    const results: AssetSentiment[] = [];
+
+    for (const asset of assets) {
+      try {
+        console.log(`💬 Collecting ${this.source.name} posts for ${asset.name}...`);
+        const posts = await this.source.fetchPosts(asset, since, config.social.maxPostsPerAsset);
+        const sentiment = summarizeSentiment(asset, this.source.name, posts, now);
+        console.log(`💬 ${asset.symbol.toUpperCase()}: ${posts.length} posts, ${sentiment.flaggedCount} flagged, sentiment ${sentiment.label}`);
+        results.push(sentiment);
+      } catch (error: any) {
+        console.warn(`⚠️ Could not collect social posts for ${asset.id}:`, error.message);
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Renders the social sentiment block for the analysis prompt
+ */
+export function renderSentimentSection(sentiments: AssetSentiment[]): string {
+  if (sentiments.length === 0) return '';
+
+  let section = '';
+  for (const sentiment of sentiments) {
+    const score = sentiment.score === null ? 'N/A' : `${sentiment.score >= 0 ? '+' : ''}${sentiment.score.toFixed(2)}`;
+    const bucketHours = Math.round(sentiment.windowHours / Math.max(1, sentiment.buckets.length));
+    const trend = sentiment.volumeTrend === null ? 'N/A' : `${sentiment.volumeTrend.toFixed(2)}x the average of the earlier ${bucketHours}h buckets`;
+    section += `### ${sentiment.name} (${sentiment.symbol.toUpperCase()}) - ${sentiment.source}, last ${sentiment.windowHours}h\n`;
+    section += `**Sentiment:** ${sentiment.label} (score ${score} on a -1 to +1 scale)\n`;
+    section += `**Posts:** ${sentiment.postCount} collected, ${sentiment.flaggedCount} flagged as bot-like or duplicate and excluded\n`;
+    section += `**Breakdown:** ${sentiment.positive} positive / ${sentiment.negative} negative / ${sentiment.neutral} neutral\n`;
+    section += `**Post volume (latest bucket):** ${trend}\n`;
+    section += `**Volume by ${bucketHours}h bucket (oldest first):** ${sentiment.buckets.map(bucket => bucket.posts).join(' → ')}\n`;
+    if (sentiment.topPosts.length > 0) {
+      section += `**Most engaged posts:**\n${sentiment.topPosts.map(post => `- "${post.text.replace(/\s+/g, ' ').substring(0, 200)}" (${post.likes} likes, ${post.reposts} reposts)`).join('\n')}\n`;
+    }
+    section += '\n';
+  }
+  return section;
+}
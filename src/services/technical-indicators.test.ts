@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { atr, bollingerBands, ema, emaSeries, macd, pivotPoints, rsi, sma, swingLevels } from './technical-indicators.js';
+import { OhlcCandle } from '../types/index.js';
+
+const candle = (high: number, low: number, close: number, day: number = 0): OhlcCandle => ({
+  timestamp: day * 24 * 60 * 60 * 1000,
+  open: close,
+  high,
+  low,
+  close,
+  volume: 0
+});
+
+const close = (actual: number | null | undefined, expected: number) => {
+  assert.ok(actual !== null && actual !== undefined, `expected ${expected}, got ${actual}`);
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+};
+
+describe('sma', () => {
+  it('averages the last period values', () => {
+    assert.equal(sma([1, 2, 3, 4, 5], 3), 4);
+  });
+
+  it('needs at least period values', () => {
+    assert.equal(sma([1, 2], 3), null);
+  });
+});
+
+describe('ema', () => {
+  it('seeds with the SMA and smooths with 2 / (period + 1)', () => {
+    // k = 0.5: seed (1 + 2 + 3) / 3 = 2, then 4 * 0.5 + 2 * 0.5 = 3, then 5 * 0.5 + 3 * 0.5 = 4
+    assert.deepEqual(emaSeries([1, 2, 3, 4, 5], 3), [2, 3, 4]);
+    assert.equal(ema([1, 2, 3, 4, 5], 3), 4);
+  });
+
+  it('is null without enough values', () => {
+    assert.deepEqual(emaSeries([1, 2], 3), []);
+    assert.equal(ema([1, 2], 3), null);
+  });
+});
+
+describe('rsi', () => {
+  it("uses Wilder's smoothing after the first period", () => {
+    // Changes +1 +1 -1 +1. Seed gain 2/3, loss 1/3; then gain (2/3 * 2 + 1) / 3 = 7/9, loss (1/3 * 2) / 3 = 2/9.
+    // RS 3.5 gives 100 - 100 / 4.5; a simple average of the last three changes would give 66.67 instead
+    close(rsi([1, 2, 3, 2, 3], 3), 100 - 100 / 4.5);
+  });
+
+  it('is 100 without losses and 50 without any movement', () => {
+    assert.equal(rsi([1, 2, 3, 4], 3), 100);
+    assert.equal(rsi([5, 5, 5, 5], 3), 50);
+  });
+
+  it('needs period + 1 closes', () => {
+    assert.equal(rsi([1, 2, 3], 3), null);
+  });
+});
+
+describe('macd', () => {
+  it('takes the signal EMA of the fast minus slow EMA line', () => {
+    // EMA2: 3, 5, 5, 19/3. EMA3: 4, 4.5, 5.75. MACD line: 1, 0.5, 7/12. Signal EMA2: 0.75, 23/36
+    const result = macd([2, 4, 6, 5, 7], 2, 3, 2);
+    close(result?.macd, 7 / 12);
+    close(result?.signal, 23 / 36);
+    close(result?.histogram, -1 / 18);
+  });
+
+  it('needs enough closes for the slow and signal EMAs', () => {
+    assert.equal(macd([2, 4], 2, 3, 2), null);
+    assert.equal(macd([2, 4, 6], 2, 3, 2), null);
+  });
+});
+
+describe('bollingerBands', () => {
+  it('puts the bands multiplier population deviations around the SMA', () => {
+    // Mean 3, variance (4 + 1 + 0 + 1 + 4) / 5 = 2
+    const bands = bollingerBands([1, 2, 3, 4, 5], 5, 2);
+    close(bands?.middle, 3);
+    close(bands?.upper, 3 + 2 * Math.SQRT2);
+    close(bands?.lower, 3 - 2 * Math.SQRT2);
+  });
+
+  it('needs period closes', () => {
+    assert.equal(bollingerBands([1, 2, 3], 5), null);
+  });
+});
+
+describe('atr', () => {
+  const candles = [
+    candle(10, 8, 9, 0),
+    candle(11, 9, 10, 1), // true range 2 (high - low)
+    candle(13, 9, 12, 2), // 4 (high - low)
+    candle(16, 14, 15, 3) // 4 (gap: high - previous close)
+  ];
+
+  it("smooths true ranges with Wilder's method", () => {
+    // Seed (2 + 4) / 2 = 3, then (3 * 1 + 4) / 2 = 3.5
+    close(atr(candles, 2), 3.5);
+  });
+
+  it('needs period + 1 candles', () => {
+    assert.equal(atr(candles.slice(0, 2), 2), null);
+  });
+});
+
+describe('pivotPoints', () => {
+  it('computes classic floor pivots from the last candle', () => {
+    assert.deepEqual(pivotPoints(candle(110, 90, 106)), { pivot: 102, r1: 114, r2: 122, s1: 94, s2: 82 });
+  });
+});
+
+describe('swingLevels', () => {
+  const candles = [
+    candle(10, 8, 9, 0),
+    candle(12, 9, 11, 1), // swing high 12
+    candle(11, 7, 8, 2), // swing low 7
+    candle(14, 10, 13, 3), // swing high 14
+    candle(13, 11, 12.5, 4)
+  ];
+
+  it('splits fractal highs and lows around the latest close, nearest first', () => {
+    assert.deepEqual(swingLevels(candles, 1), { support: [12, 7], resistance: [14] });
+  });
+
+  it('merges levels within the tolerance', () => {
+    const clustered = [...candles.slice(0, 4), candle(13, 11, 12, 4), candle(14.05, 11.5, 13, 5), candle(13, 12, 12.5, 6)];
+    // Highs 12, 14 and 14.05 with a 1% tolerance: 14 and 14.05 become one level at their mean
+    assert.deepEqual(swingLevels(clustered, 1).resistance, [14.025]);
+  });
+
+  it('is empty without candles', () => {
+    assert.deepEqual(swingLevels([]), { support: [], resistance: [] });
+  });
+});
@@ -0,0 +1,271 @@
+import { config } from "../config.js";
+import { createMarketDataProvider } from "./market-data-providers.js";
+import {
+  BollingerBands,
+  CoinInfo,
+  MacdResult,
+  MarketDataProvider,
+  OhlcCandle,
+  PivotLevels,
+  TechnicalSnapshot
+} from "../types/index.js";
+
+export function sma(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) return null;
+  const window = values.slice(-period);
+  return window.reduce((sum, value) => sum + value, 0) / period;
+}
+
+/**
+ * Full EMA series seeded with the SMA of the first `period` values; index i corresponds to values[i + period - 1]
+ */
+export function emaSeries(values: number[], period: number): number[] {
+  if (period <= 0 || values.length < period) return [];
+  const k = 2 / (period + 1);
+  const series: number[] = [values.slice(0, period).reduce((sum, value) => sum + value, 0) / period];
+  for (let i = period; i < values.length; i++) {
+    series.push(values[i] * k + series[series.length - 1] * (1 - k));
+  }
+  return series;
+}
+
+export function ema(values: number[], period: number): number | null {
+  const series = emaSeries(values, period);
+  return series.length > 0 ? series[series.length - 1] : null;
+}
+
+/**
+ * Relative Strength Index using Wilder's smoothing
+ */
+export function rsi(closes: number[], period: number = 14): number | null {
+  if (closes.length < period + 1) return null;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+export function macd(
+  closes: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MacdResult | null {
+  const fast = emaSeries(closes, fastPeriod);
+  const slow = emaSeries(closes, slowPeriod);
+  if (slow.length === 0) return null;
+
+  const offset = slowPeriod - fastPeriod;
+  const macdLine = slow.map((slowValue, i) => fast[i + offset] - slowValue);
+  const signalLine = emaSeries(macdLine, signalPeriod);
+  if (signalLine.length === 0) return null;
+
+  const macdValue = macdLine[macdLine.length - 1];
+  const signalValue = signalLine[signalLine.length - 1];
+  return { macd: macdValue, signal: signalValue, histogram: macdValue - signalValue };
+}
+
+export function bollingerBands(closes: number[], period: number = 20, multiplier: number = 2): BollingerBands | null {
+  const middle = sma(closes, period);
+  if (middle === null) return null;
+
+  const window = closes.slice(-period);
+  const variance = window.reduce((sum, value) => sum + (value - middle) ** 2, 0) / period;
+  const deviation = Math.sqrt(variance);
+  return { upper: middle + multiplier * deviation, middle, lower: middle - multiplier * deviation };
+}
+
+/**
+ * Average True Range using Wilder's smoothing
+ */
+export function atr(candles: OhlcCandle[], period: number = 14): number | null {
+  if (candles.length < period + 1) return null;
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const previousClose = candles[i - 1].close;
+    trueRanges.push(Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose)));
+  }
+
+  let value = trueRanges.slice(0, period).reduce((sum, range) => sum + range, 0) / period;
+  for (let i = period; i < trueRanges.length; i++) {
+    value = (value * (period - 1) + trueRanges[i]) / period;
+  }
+  return value;
+}
+
+/**
+ * Classic floor-trader pivots from a single completed candle
+ */
+export function pivotPoints(candle: OhlcCandle): PivotLevels {
+  const pivot = (candle.high + candle.low + candle.close) / 3;
+  const range = candle.high - candle.low;
+  return {
+    pivot,
+    r1: 2 * pivot - candle.low,
+    r2: pivot + range,
+    s1: 2 * pivot - candle.high,
+    s2: pivot - range
+  };
+}
+
+function mergeLevels(levels: number[], tolerance: number): number[] {
+  const sorted = [...levels].sort((a, b) => a - b);
+  const merged: number[][] = [];
+  for (const level of sorted) {
+    const cluster = merged[merged.length - 1];
+    if (cluster && Math.abs(level - cluster[0]) / cluster[0] <= tolerance) {
+      cluster.push(level);
+    } else {
+      merged.push([level]);
+    }
+  }
+  return merged.map(cluster => cluster.reduce((sum, value) => sum + value, 0) / cluster.length);
+}
+
+/**
+ * Swing highs/lows (fractals with `window` candles on each side), clustered and split around the latest close
+ */
+export function swingLevels(
+  candles: OhlcCandle[],
+  window: number = 2,
+  maxLevels: number = 3,
+  tolerance: number = 0.01
+): { support: number[]; resistance: number[] } {
+  if (candles.length === 0) return { support: [], resistance: [] };
+
+  const highs: number[] = [];
+  const lows: number[] = [];
+  for (let i = window; i < candles.length - window; i++) {
+    const neighbours = [...candles.slice(i - window, i), ...candles.slice(i + 1, i + window + 1)];
+    if (neighbours.every(candle => candle.high < candles[i].high)) highs.push(candles[i].high);
+    if (neighbours.every(candle => candle.low > candles[i].low)) lows.push(candles[i].low);
+  }
+
+  const close = candles[candles.length - 1].close;
+  const levels = mergeLevels([...highs, ...lows], tolerance);
+  return {
+    support: levels.filter(level => level < close).sort((a, b) => b - a).slice(0, maxLevels),
+    resistance: levels.filter(level => level > close).sort((a, b) => a - b).slice(0, maxLevels)
+  };
+}
+
+/**
+ * Computes every indicator for one asset from its daily candles (oldest first)
+ */
+export function computeTechnicalSnapshot(
+  asset: { id: string; name: string; symbol: string },
+  candles: OhlcCandle[]
+): TechnicalSnapshot | null {
+  if (candles.length === 0) return null;
+
+  const closes = candles.map(candle => candle.close);
+  const volumes = candles.map(candle => candle.volume);
+  const latest = candles[candles.length - 1];
+  const avgVolume20 = sma(volumes, 20);
+  const swings = swingLevels(candles);
+
+  return {
+    id: asset.id,
+    name: asset.name,
+    symbol: asset.symbol,
+    candleCount: candles.length,
+    from: new Date(candles[0].timestamp).toISOString().split('T')[0],
+    to: new Date(latest.timestamp).toISOString().split('T')[0],
+    close: latest.close,
+    sma20: sma(closes, 20),
+    sma50: sma(closes, 50),
+    ema12: ema(closes, 12),
+    ema26: ema(closes, 26),
+    rsi14: rsi(closes, 14),
+    macd: macd(closes),
+    bollinger: bollingerBands(closes),
+    atr14: atr(candles, 14),
+    pivots: candles.length >= 2 ? pivotPoints(candles[candles.length - 2]) : null,
+    swingSupport: swings.support,
+    swingResistance: swings.resistance,
+    avgVolume20,
+    volumeRatio: avgVolume20 ? latest.volume / avgVolume20 : null
+  };
+}
+
+function formatNumber(value: number | null | undefined): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return 'N/A';
+  const abs = Math.abs(value);
+  const digits = abs >= 1000 ? 0 : abs >= 1 ? 2 : abs >= 0.01 ? 4 : 8;
+  return value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+/**
+ * Renders snapshots as a markdown table block for the analysis prompt
+ */
+export function renderTechnicalTable(snapshots: TechnicalSnapshot[]): string {
+  if (snapshots.length === 0) return '';
+
+  const rows: Array<[string, (snapshot: TechnicalSnapshot) => string]> = [
+    ['Close', s => formatNumber(s.close)],
+    ['SMA 20', s => formatNumber(s.sma20)],
+    ['SMA 50', s => formatNumber(s.sma50)],
+    ['EMA 12 / EMA 26', s => `${formatNumber(s.ema12)} / ${formatNumber(s.ema26)}`],
+    ['RSI 14', s => formatNumber(s.rsi14)],
+    ['MACD / Signal / Hist', s => s.macd ? `${formatNumber(s.macd.macd)} / ${formatNumber(s.macd.signal)} / ${formatNumber(s.macd.histogram)}` : 'N/A'],
+    ['Bollinger (20, 2) L / M / U', s => s.bollinger ? `${formatNumber(s.bollinger.lower)} / ${formatNumber(s.bollinger.middle)} / ${formatNumber(s.bollinger.upper)}` : 'N/A'],
+    ['ATR 14', s => formatNumber(s.atr14)],
+    ['Pivot P', s => formatNumber(s.pivots?.pivot)],
+    ['Pivot S1 / S2', s => s.pivots ? `${formatNumber(s.pivots.s1)} / ${formatNumber(s.pivots.s2)}` : 'N/A'],
+    ['Pivot R1 / R2', s => s.pivots ? `${formatNumber(s.pivots.r1)} / ${formatNumber(s.pivots.r2)}` : 'N/A'],
+    ['Swing Support', s => s.swingSupport.length > 0 ? s.swingSupport.map(formatNumber).join(', ') : 'N/A'],
+    ['Swing Resistance', s => s.swingResistance.length > 0 ? s.swingResistance.map(formatNumber).join(', ') : 'N/A'],
+    ['Avg Volume 20d', s => formatNumber(s.avgVolume20)],
+    ['Volume vs 20d Avg', s => s.volumeRatio !== null ? `${s.volumeRatio.toFixed(2)}x` : 'N/A']
+  ];
+
+  let table = `| Indicator (USD, daily) | ${snapshots.map(s => `${s.name} (${s.symbol.toUpperCase()})`).join(' | ')} |\n`;
+  table += `|---|${snapshots.map(() => '---').join('|')}|\n`;
+  for (const [label, render] of rows) {
+    table += `| ${label} | ${snapshots.map(render).join(' | ')} |\n`;
+  }
+  table += `\nComputed from daily candles: ${snapshots.map(s => `${s.symbol.toUpperCase()} ${s.candleCount} days (${s.from} to ${s.to})`).join('; ')}\n`;
+  return table;
+}
+
+export class TechnicalAnalysisService {
+  constructor(private provider: MarketDataProvider = createMarketDataProvider()) {}
+
+  async fetchDailyCandles(asset: CoinInfo, days: number = config.technicalAnalysis.historyDays): Promise<OhlcCandle[]> {
+    return this.provider.getHistory(asset, days);
+  }
+
+  async analyzeAssets(assets: Array<{ id: string; name: string; symbol: string }>): Promise<TechnicalSnapshot[]> {
+    const snapshots: TechnicalSnapshot[] = [];
+
+    for (const asset of assets) {
+      try {
+        console.log(`📐 Computing technical indicators for ${asset.name}...`);
+        const candles = await this.fetchDailyCandles(asset);
+        const snapshot = computeTechnicalSnapshot(asset, candles);
+        if (snapshot) snapshots.push(snapshot);
+      } catch (error: any) {
+        console.warn(`⚠️ Could not compute technical indicators for ${asset.id}:`, error.message);
+      }
+    }
+
+    return snapshots;
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TokenMatcher } from './token-matcher.js';
+import { KnowledgeBaseEntry } from '../types/index.js';
+
+const knowledgeBase: KnowledgeBaseEntry[] = [
+  { id: 'bitcoin', symbol: 'btc', name: 'Bitcoin', market_cap: 1_300_000_000_000, total_volume: 30_000_000_000 },
+  { id: 'ethereum', symbol: 'eth', name: 'Ethereum', market_cap: 400_000_000_000, total_volume: 15_000_000_000 },
+  { id: 'solana', symbol: 'sol', name: 'Solana', market_cap: 80_000_000_000, total_volume: 3_000_000_000 },
+  { id: 'shiba-inu', symbol: 'shib', name: 'Shiba Inu', market_cap: 14_000_000_000, total_volume: 500_000_000 },
+  { id: 'chainlink', symbol: 'link', name: 'Chainlink', market_cap: 9_000_000_000, total_volume: 400_000_000 },
+  { id: 'moon-token', symbol: 'moon', name: 'Moon', market_cap: 2_000_000, total_volume: 100_000 },
+  { id: 'safe', symbol: 'safe', name: 'Safe', market_cap: 500_000_000, total_volume: 20_000_000 }
+];
+
+const matcher = new TokenMatcher(knowledgeBase);
+
+const certainty = (query: string) =>
+  Object.fromEntries(matcher.match(query).groups.map(group => [group.candidates[0].id, group.certain]));
+
+describe('TokenMatcher certainty', () => {
+  it('treats one-word names that are not plain words as certain', () => {
+    assert.deepEqual(certainty('Analyze Bitcoin and Ethereum'), { bitcoin: true, ethereum: true });
+    assert.deepEqual(certainty('bitcoin vs solana'), { bitcoin: true, solana: true });
+    assert.deepEqual(certainty('shiba inu outlook'), { 'shiba-inu': true });
+  });
+
+  it('leaves lowercase plain-word names and tickers to the LLM check', () => {
+    assert.deepEqual(certainty('will bitcoin go to the moon'), { bitcoin: true, 'moon-token': false });
+    assert.deepEqual(certainty('is it safe to buy'), { safe: false });
+    assert.deepEqual(certainty('link the chart'), { chainlink: false });
+  });
+
+  it('treats capitalised, uppercase or $-prefixed plain words as deliberate', () => {
+    assert.deepEqual(certainty('compare Moon with Safe'), { 'moon-token': true, safe: true });
+    assert.deepEqual(certainty('$moon and LINK'), { 'moon-token': true, chainlink: true });
+  });
+});
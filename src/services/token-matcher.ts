@@ -0,0 +1,318 @@
+import fs from 'fs/promises';
+import { removeStopwords, eng } from 'stopword';
+import { config } from "../config.js";
+import {
+  KnowledgeBaseEntry,
+  KnowledgeBaseIndex,
+  TokenAliases,
+  TokenAmbiguity,
+  TokenCandidate
+} from "../types/index.js";
+
+const COMMON_WORDS = ['protocol', 'token', 'coin', 'network', 'chain', 'finance'];
+
+const CRYPTO_STOPWORDS = [
+  'analysis', 'technical', 'price', 'token', 'coin', 'crypto', 'cryptocurrency',
+  'vs', 'comparison', 'compare', 'latest', 'news', 'market', 'trends', 'about',
+  'please', 'give', 'show', 'tell', 'explain', 'current', 'recent'
+];
+
+// Coin names that are also everyday words; written in lowercase ("to the moon", "is it safe") they may not mean the coin
+const PLAIN_WORD_NAMES = [
+  'moon', 'safe', 'near', 'link', 'gas', 'one', 'hot', 'pay', 'just', 'rally', 'spell', 'ocean', 'flow', 'band',
+  'origin', 'loom', 'storm', 'mask', 'key', 'ever', 'sun', 'star', 'cake', 'bone', 'dog', 'cat', 'frog', 'gold',
+  'silver', 'magic', 'wild', 'sand', 'dash', 'ark', 'ice', 'quick', 'alpha', 'zero', 'trust', 'rose', 'atom', 'ray',
+  'ton', 'meme', 'pump', 'bank', 'energy', 'power', 'hero', 'life', 'degen', 'based'
+];
+
+/**
+ * One-word names that double as plain words, for which a lowercase mention may not mean the coin
+ */
+export function isPlainWordName(word: string): boolean {
+  return PLAIN_WORD_NAMES.includes(word.toLowerCase());
+}
+
+const QUERY_WORD = /\$?[A-Za-z0-9]+(?:[.'-][A-Za-z0-9]+)*/g;
+
+export function normalizeTokenText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Words that never name a token on their own: English stopwords, analysis vocabulary and generic suffixes
+ */
+export function isFillerWord(word: string): boolean {
+  const lower = word.toLowerCase();
+  return COMMON_WORDS.includes(lower) || CRYPTO_STOPWORDS.includes(lower) || removeStopwords([lower], eng).length === 0;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions); stops early and returns max + 1 once the distance exceeds max
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+
+  return row[b.length];
+}
+
+/**
+ * Reads the user-editable alias file ({ "coin-id": ["alias", ...] }); a missing file means no aliases
+ */
+export async function loadTokenAliases(filePath: string = config.tokenMatching.aliasesFile): Promise<TokenAliases> {
+  let raw: any;
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return {};
+    throw new Error(`Could not read token aliases from ${filePath}: ${error.message}`);
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${filePath} must contain an object of coin ids to alias lists, e.g. { "dogecoin": ["doge coin"] }`);
+  }
+
+  const errors: string[] = [];
+  const aliases: TokenAliases = {};
+  for (const [id, value] of Object.entries(raw)) {
+    const list = typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(list) || list.some(alias => typeof alias !== 'string' || !normalizeTokenText(alias))) {
+      errors.push(`"${id}": aliases must be a non-empty string or an array of non-empty strings`);
+      continue;
+    }
+    aliases[id] = list;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid token aliases in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return aliases;
+}
+
+function addToIndex(map: Map<string, KnowledgeBaseEntry[]>, key: string, entry: KnowledgeBaseEntry) {
+  if (!key) return;
+  const list = map.get(key);
+  if (!list) {
+    map.set(key, [entry]);
+  } else if (!list.includes(entry)) {
+    list.push(entry);
+  }
+}
+
+/**
+ * Builds the lookup maps for a knowledge base; multi-word names are also indexed without spaces so "doge coin" finds Dogecoin and "shibainu" finds Shiba Inu
+ */
+export function buildKnowledgeBaseIndex(entries: KnowledgeBaseEntry[], aliases: TokenAliases = {}): KnowledgeBaseIndex {
+  const index: KnowledgeBaseIndex = {
+    symbolMap: new Map(),
+    nameMap: new Map(),
+    aliasMap: new Map(),
+    wordMap: new Map(),
+    keysByLength: new Map(),
+    maxPhraseWords: 1
+  };
+
+  for (const entry of entries) {
+    addToIndex(index.symbolMap, normalizeTokenText(entry.symbol), entry);
+    const name = normalizeTokenText(entry.name);
+    addToIndex(index.nameMap, name, entry);
+    const words = name.split(' ');
+    if (words.length > 1) {
+      addToIndex(index.nameMap, words.join(''), entry);
+      for (const word of words) {
+        if (word.length > 2 && !isFillerWord(word)) addToIndex(index.wordMap, word, entry);
+      }
+    }
+    index.maxPhraseWords = Math.max(index.maxPhraseWords, words.length);
+  }
+
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  for (const [id, list] of Object.entries(aliases)) {
+    const entry = byId.get(id);
+    if (!entry) continue;
+    for (const alias of list) {
+      const key = normalizeTokenText(alias);
+      addToIndex(index.aliasMap, key, entry);
+      index.maxPhraseWords = Math.max(index.maxPhraseWords, key.split(' ').length);
+    }
+  }
+
+  for (const key of new Set([...index.nameMap.keys(), ...index.aliasMap.keys()])) {
+    if (key.length < config.tokenMatching.fuzzyMinLength) continue;
+    index.keysByLength.set(key.length, [...(index.keysByLength.get(key.length) || []), key]);
+  }
+  // Long names add n-grams to every lookup without ever matching real queries
+  index.maxPhraseWords = Math.min(index.maxPhraseWords, config.tokenMatching.maxPhraseWords);
+
+  return index;
+}
+
+interface QueryWord {
+  raw: string;
+  key: string;
+}
+
+interface RawMatch {
+  asset: KnowledgeBaseEntry;
+  matchType: TokenCandidate['matchType'];
+  similarity: number;
+}
+
+export interface TokenMatchResult {
+  /** One group per matched query word or phrase, in query order */
+  groups: TokenAmbiguity[];
+  /** Query words that could name a token but matched nothing */
+  unmatched: string[];
+}
+
+/**
+ * Deterministic token detection over a prebuilt knowledge base index: exact aliases, names and symbols
+ * (longest phrase first), then words of multi-word names, then typo-tolerant name search
+ */
+export class TokenMatcher {
+  readonly index: KnowledgeBaseIndex;
+
+  constructor(entries: KnowledgeBaseEntry[], aliases: TokenAliases = {}) {
+    this.index = buildKnowledgeBaseIndex(entries, aliases);
+  }
+
+  match(query: string, listType: string = 'filtered'): TokenMatchResult {
+    const words: QueryWord[] = (query.match(QUERY_WORD) || [])
+      .map(raw => ({ raw, key: normalizeTokenText(raw) }))
+      .filter(word => word.key);
+    const consumed = new Array<boolean>(words.length).fill(false);
+    const found: Array<{ start: number; group: TokenAmbiguity }> = [];
+
+    const claim = (start: number, length: number, matches: RawMatch[], certain: boolean) => {
+      const token = words.slice(start, start + length).map(word => word.raw.replace(/^\$/, '')).join(' ');
+      for (let i = start; i < start + length; i++) consumed[i] = true;
+      found.push({ start, group: this.rank(token, matches, certain, listType) });
+    };
+
+    const spans = function* (maxLength: number, strict: boolean) {
+      for (let length = maxLength; length >= 1; length--) {
+        for (let start = 0; start + length <= words.length; start++) {
+          if (consumed.slice(start, start + length).some(Boolean)) continue;
+          const slice = words.slice(start, start + length);
+          if (length === 1 && isFillerWord(slice[0].key)) continue;
+          // Exact names may start or end on one ("The Graph", "Pear Protocol"), approximate ones may not ("price of bitcoin")
+          if (strict && length > 1 && (isFillerWord(slice[0].key) || isFillerWord(slice[length - 1].key))) continue;
+          yield { start, length, slice, key: slice.map(word => word.key).join(' ') };
+        }
+      }
+    };
+
+    for (const { start, length, slice, key } of spans(this.index.maxPhraseWords, false)) {
+      const matches = this.exactMatches(key, length === 1);
+      if (matches.length === 0) continue;
+      const byName = matches.some(match => match.matchType !== 'symbol');
+      // A lowercase ticker may just be a word ("link", "near"), an uppercase or $-prefixed one is deliberate
+      const deliberate = /^\$/.test(slice[0].raw) || (slice[0].raw === slice[0].raw.toUpperCase() && /[A-Z]/.test(slice[0].raw));
+      // So may a one-word name that is also a plain word ("moon", "safe") unless it is capitalised mid-query ("buy Moon");
+      // other names ("bitcoin", "Solana") and name phrases ("Shiba Inu") are specific enough to skip the LLM check
+      const capitalised = start > 0 && /^\$?[A-Z]/.test(slice[0].raw);
+      claim(start, length, matches, deliberate || (byName && (length > 1 || capitalised || !isPlainWordName(key))));
+    }
+
+    for (const { start, key } of spans(1, true)) {
+      const matches = (this.index.wordMap.get(key) || [])
+        .map(asset => ({ asset, matchType: 'partial' as const, similarity: key.length / normalizeTokenText(asset.name).length }));
+      if (matches.length > 0) claim(start, 1, matches, false);
+    }
+
+    for (const { start, length, key } of spans(this.index.maxPhraseWords, true)) {
+      const matches = this.fuzzyMatches(key);
+      if (matches.length > 0) claim(start, length, matches, false);
+    }
+
+    return {
+      groups: found.sort((a, b) => a.start - b.start).map(item => item.group),
+      unmatched: words.filter((word, i) => !consumed[i] && !isFillerWord(word.key)).map(word => word.raw)
+    };
+  }
+
+  private exactMatches(key: string, includeSymbols: boolean): RawMatch[] {
+    const matches: RawMatch[] = [];
+    const add = (assets: KnowledgeBaseEntry[] | undefined, matchType: TokenCandidate['matchType']) => {
+      for (const asset of assets || []) {
+        if (!matches.some(match => match.asset.id === asset.id)) matches.push({ asset, matchType, similarity: 1 });
+      }
+    };
+    add(this.index.aliasMap.get(key), 'alias');
+    add(this.index.nameMap.get(key), 'name');
+    add(this.index.nameMap.get(key.replace(/ /g, '')), 'name');
+    if (includeSymbols) add(this.index.symbolMap.get(key), 'symbol');
+    return matches;
+  }
+
+  private fuzzyMatches(key: string): RawMatch[] {
+    if (key.length < config.tokenMatching.fuzzyMinLength) return [];
+    const maxEdits = key.length >= 8 ? 2 : 1;
+    const matches: RawMatch[] = [];
+
+    for (let length = key.length - maxEdits; length <= key.length + maxEdits; length++) {
+      for (const candidate of this.index.keysByLength.get(length) || []) {
+        // Typos rarely hit the first letter, and requiring it keeps common words from matching random names
+        if (candidate[0] !== key[0]) continue;
+        const distance = editDistance(key, candidate, maxEdits);
+        if (distance > maxEdits) continue;
+        const similarity = 1 - distance / Math.max(key.length, candidate.length);
+        for (const asset of [...(this.index.aliasMap.get(candidate) || []), ...(this.index.nameMap.get(candidate) || [])]) {
+          const existing = matches.find(match => match.asset.id === asset.id);
+          if (!existing) {
+            matches.push({ asset, matchType: 'fuzzy', similarity });
+          } else if (similarity > existing.similarity) {
+            existing.similarity = similarity;
+          }
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Ranks the assets matching one query token by market cap share, volume share and match closeness
+   */
+  private rank(token: string, matches: RawMatch[], certain: boolean, listType: string): TokenAmbiguity {
+    const totalCap = matches.reduce((sum, match) => sum + (match.asset.market_cap || 0), 0);
+    const totalVolume = matches.reduce((sum, match) => sum + (match.asset.total_volume || 0), 0);
+    const candidates: TokenCandidate[] = matches
+      .map(({ asset, matchType, similarity }) => ({
+        id: asset.id,
+        symbol: asset.symbol,
+        name: asset.name,
+        matchType,
+        marketCap: asset.market_cap ?? null,
+        volume: asset.total_volume ?? null,
+        score: 0.5 * (totalCap > 0 ? (asset.market_cap || 0) / totalCap : 0)
+          + 0.2 * (totalVolume > 0 ? (asset.total_volume || 0) / totalVolume : 0)
+          + 0.3 * similarity
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, config.tokenMatching.maxCandidates);
+
+    const [best, runnerUp] = candidates;
+    const margin = runnerUp && best.score > 0 ? (best.score - runnerUp.score) / best.score : 1;
+    console.log(`🎯 ${candidates.length} ${best.matchType} match(es) in ${listType} data for "${token}", best: ${best.name} (margin ${margin.toFixed(2)})`);
+    return { token, candidates, margin, certain };
+  }
+}
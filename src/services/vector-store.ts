@@ -0,0 +1,208 @@
+import OpenAI from 'openai';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { removeStopwords, eng } from 'stopword';
+import { config } from "../config.js";
+import { recordable } from "../utils/cassette.js";
+import { ContentChunk, VectorStore } from "../types/index.js";
+
+/**
+ * Splits text into overlapping chunks on paragraph and sentence boundaries
+ */
+export function chunkText(
+  text: string,
+  chunkSize: number = config.vector.chunkSize,
+  overlap: number = config.vector.chunkOverlap
+): string[] {
+  const sentences = text
+    .split(/\n{2,}/)
+    .flatMap(paragraph => paragraph.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length + 1 > chunkSize) {
+      chunks.push(current);
+      const tail = current.substring(Math.max(0, current.length - overlap));
+      current = tail.includes(' ') ? tail.substring(tail.indexOf(' ') + 1) : '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+
+    while (current.length > chunkSize * 1.5) {
+      chunks.push(current.substring(0, chunkSize));
+      current = current.substring(chunkSize - overlap);
+    }
+  }
+
+  if (current.trim()) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * OpenAI embeddings when OPENAI_API_KEY is set, otherwise a deterministic feature-hashing embedding that needs no network
+ */
+export class EmbeddingService {
+  private client: OpenAI | null;
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor() {
+    this.client = config.openai.apiKey ? new OpenAI({ apiKey: config.openai.apiKey }) : null;
+    this.model = this.client ? config.vector.embeddingModel : 'hashing';
+    this.dimensions = this.client ? config.vector.embeddingDimensions : config.vector.hashingDimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const client = this.client;
+    if (!client) {
+      return texts.map(text => this.hashEmbedding(text));
+    }
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += 96) {
+      const batch = texts.slice(i, i + 96);
+      const embeddings = await recordable('embedding', { model: this.model, input: batch }, async () => {
+        const response = await client.embeddings.create({ model: this.model, input: batch });
+        return response.data.map(item => item.embedding);
+      });
+      vectors.push(...embeddings);
+    }
+    return vectors;
+  }
+
+  private hashEmbedding(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = removeStopwords(text.toLowerCase().match(/[a-z0-9$%.]+/g) || [], eng);
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    const counts = new Map<string, number>();
+    for (const feature of features) counts.set(feature, (counts.get(feature) || 0) + 1);
+
+    for (const [feature, count] of counts) {
+      const hash = createHash('md5').update(feature).digest();
+      const index = hash.readUInt32LE(0) % this.dimensions;
+      const sign = hash[4] & 1 ? 1 : -1;
+      vector[index] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Brute-force cosine index kept in process memory; used when no Qdrant instance is configured
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly name = 'in-memory';
+  private points = new Map<string, Array<{ chunk: ContentChunk; vector: number[] }>>();
+
+  async upsert(runId: string, chunks: ContentChunk[], vectors: number[][]): Promise<void> {
+    const points = this.points.get(runId) || [];
+    chunks.forEach((chunk, i) => points.push({ chunk, vector: vectors[i] }));
+    this.points.set(runId, points);
+  }
+
+  async search(runId: string, vector: number[], limit: number): Promise<Array<{ chunk: ContentChunk; score: number }>> {
+    return (this.points.get(runId) || [])
+      .map(point => ({ chunk: point.chunk, score: cosineSimilarity(vector, point.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async clear(runId: string): Promise<void> {
+    this.points.delete(runId);
+  }
+}
+
+/**
+ * Qdrant-backed store; one collection per embedding size, points scoped to a run through a `runId` payload filter
+ */
+export class QdrantVectorStore implements VectorStore {
+  readonly name = 'qdrant';
+  private client: QdrantClient;
+  private collection: string;
+  private ready?: Promise<void>;
+
+  constructor(private dimensions: number) {
+    this.client = new QdrantClient({ url: config.vector.qdrantUrl, apiKey: config.vector.qdrantApiKey || undefined });
+    this.collection = `${config.vector.collection}_${dimensions}`;
+  }
+
+  private ensureCollection(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        const { exists } = await this.client.collectionExists(this.collection);
+        if (!exists) {
+          await this.client.createCollection(this.collection, { vectors: { size: this.dimensions, distance: 'Cosine' } });
+          await this.client.createPayloadIndex(this.collection, { field_name: 'runId', field_schema: 'keyword', wait: true });
+        }
+      })();
+    }
+    return this.ready;
+  }
+
+  async upsert(runId: string, chunks: ContentChunk[], vectors: number[][]): Promise<void> {
+    await this.ensureCollection();
+    await this.client.upsert(this.collection, {
+      wait: true,
+      points: chunks.map((chunk, i) => ({ id: uuidv4(), vector: vectors[i], payload: { runId, ...chunk } }))
+    });
+  }
+
+  async search(runId: string, vector: number[], limit: number): Promise<Array<{ chunk: ContentChunk; score: number }>> {
+    await this.ensureCollection();
+    const results = await this.client.search(this.collection, {
+      vector,
+      limit,
+      filter: { must: [{ key: 'runId', match: { value: runId } }] },
+      with_payload: true
+    });
+
+    return results.map(result => {
+      const payload = result.payload as any;
+      return {
+        chunk: {
+          id: payload.id,
+          sourceUrl: payload.sourceUrl,
+          sourceTitle: payload.sourceTitle,
+          position: payload.position,
+          text: payload.text
+        },
+        score: result.score
+      };
+    });
+  }
+
+  async clear(runId: string): Promise<void> {
+    await this.ensureCollection();
+    await this.client.delete(this.collection, {
+      wait: true,
+      filter: { must: [{ key: 'runId', match: { value: runId } }] }
+    });
+  }
+}
+
+export function createVectorStore(dimensions: number): VectorStore {
+  if (config.vector.qdrantUrl) {
+    return new QdrantVectorStore(dimensions);
+  }
+  return new InMemoryVectorStore();
+}
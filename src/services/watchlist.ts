@@ -0,0 +1,341 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { config } from "../config.js";
+import { AnalysisPipeline, PipelineResult } from "../pipeline.js";
+import { CronSchedule, nextCronRun, parseCron } from "../utils/cron.js";
+import {
+  WatchlistAssetSnapshot,
+  WatchlistDefinition,
+  WatchlistDiff,
+  WatchlistRunRecord
+} from "../types/index.js";
+
+export function watchlistQuery(watchlist: WatchlistDefinition): string {
+  if (watchlist.query?.trim()) return watchlist.query.trim();
+  return `Technical analysis on ${(watchlist.assets || []).join(' and ')}`;
+}
+
+/**
+ * Reads and validates watchlist definitions; invalid entries are reported rather than silently dropped
+ */
+export async function loadWatchlists(filePath: string = config.watchlists.file): Promise<WatchlistDefinition[]> {
+  let raw: any;
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read watchlists from ${filePath}: ${error.message}`);
+  }
+
+  const definitions: any[] = Array.isArray(raw) ? raw : raw?.watchlists;
+  if (!Array.isArray(definitions)) {
+    throw new Error(`${filePath} must contain an array of watchlists or { "watchlists": [...] }`);
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  definitions.forEach((definition, index) => {
+    const label = definition?.id ? `"${definition.id}"` : `#${index + 1}`;
+    if (typeof definition?.id !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/i.test(definition.id)) {
+      errors.push(`${label}: "id" must be a slug (letters, numbers, - and _)`);
+    } else if (ids.has(definition.id)) {
+      errors.push(`${label}: duplicate id`);
+    } else {
+      ids.add(definition.id);
+    }
+    if (!definition?.query && !(Array.isArray(definition?.assets) && definition.assets.length > 0)) {
+      errors.push(`${label}: needs a "query" or a non-empty "assets" list`);
+    }
+    if (definition?.searchEngine !== undefined && !['exa', 'tavily', 'dual'].includes(definition.searchEngine)) {
+      errors.push(`${label}: "searchEngine" must be one of exa, tavily, dual`);
+    }
+    try {
+      parseCron(String(definition?.schedule ?? ''));
+    } catch (error: any) {
+      errors.push(`${label}: ${error.message}`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid watchlists in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return definitions as WatchlistDefinition[];
+}
+
+export function toRunRecord(watchlist: WatchlistDefinition, runAt: Date, result: PipelineResult): WatchlistRunRecord {
+  const base = {
+    watchlistId: watchlist.id,
+    runAt: runAt.toISOString(),
+    query: watchlistQuery(watchlist),
+    durationMs: result.durationMs
+  };
+
+  if (!result.ok) {
+    return {
+      ...base,
+      searchEngine: watchlist.searchEngine || '',
+      ok: false,
+      error: `${result.code}: ${result.error}`,
+      assets: [],
+      sources: [],
+      report: null,
+      analysis: ''
+    };
+  }
+
+  const assets: WatchlistAssetSnapshot[] = result.detectedAssets.map(asset => {
+    const quote = result.marketData[asset.id];
+    const reportAsset = result.report?.assets.find(item => item.assetId === asset.id);
+    return {
+      id: asset.id,
+      name: asset.name,
+      symbol: asset.symbol,
+      price: typeof quote?.current_price === 'number' ? quote.current_price : null,
+      change24h: typeof quote?.price_change_24h === 'number' ? quote.price_change_24h : null,
+      outlook: reportAsset?.outlook ?? null
+    };
+  });
+
+  return {
+    ...base,
+    searchEngine: result.searchEngine,
+    ok: true,
+    assets,
+    sources: result.sources.map(source => ({ url: source.url, title: source.title, publishedDate: source.publishedDateString })),
+    report: result.report,
+    analysis: result.analysis
+  };
+}
+
+/**
+ * Differences between two successful runs of the same watchlist
+ */
+export function diffWatchlistRuns(previous: WatchlistRunRecord, current: WatchlistRunRecord): WatchlistDiff {
+  const previousUrls = new Set(previous.sources.map(source => source.url));
+  const currentUrls = new Set(current.sources.map(source => source.url));
+  const previousAssets = new Map(previous.assets.map(asset => [asset.id, asset]));
+  const currentAssets = new Map(current.assets.map(asset => [asset.id, asset]));
+
+  const priceMoves: WatchlistDiff['priceMoves'] = [];
+  const outlookChanges: WatchlistDiff['outlookChanges'] = [];
+  for (const asset of current.assets) {
+    const before = previousAssets.get(asset.id);
+    if (!before) continue;
+    if (before.price !== null && asset.price !== null && before.price > 0) {
+      priceMoves.push({
+        id: asset.id,
+        symbol: asset.symbol,
+        previous: before.price,
+        current: asset.price,
+        changePercent: ((asset.price - before.price) / before.price) * 100
+      });
+    }
+    if (before.outlook !== asset.outlook) {
+      outlookChanges.push({ id: asset.id, symbol: asset.symbol, previous: before.outlook, current: asset.outlook });
+    }
+  }
+
+  return {
+    watchlistId: current.watchlistId,
+    previousRunAt: previous.runAt,
+    currentRunAt: current.runAt,
+    newSources: current.sources.filter(source => !previousUrls.has(source.url)).map(({ url, title }) => ({ url, title })),
+    droppedSources: previous.sources.filter(source => !currentUrls.has(source.url)).map(({ url, title }) => ({ url, title })),
+    priceMoves,
+    outlookChanges,
+    addedAssets: [...currentAssets.keys()].filter(id => !previousAssets.has(id)),
+    removedAssets: [...previousAssets.keys()].filter(id => !currentAssets.has(id))
+  };
+}
+
+export function renderWatchlistDiff(diff: WatchlistDiff): string {
+  let markdown = `# Watchlist ${diff.watchlistId}: changes since ${diff.previousRunAt}\n\n`;
+  markdown += `Current run: ${diff.currentRunAt}\n\n`;
+
+  markdown += `## Price Moves\n\n`;
+  if (diff.priceMoves.length > 0) {
+    markdown += `| Asset | Previous | Current | Change |\n|---|---|---|---|\n`;
+    for (const move of diff.priceMoves) {
+      markdown += `| ${move.symbol.toUpperCase()} | $${move.previous} | $${move.current} | ${move.changePercent >= 0 ? '+' : ''}${move.changePercent.toFixed(2)}% |\n`;
+    }
+  } else {
+    markdown += `No comparable prices.\n`;
+  }
+
+  markdown += `\n## Outlook Changes\n\n`;
+  markdown += diff.outlookChanges.length > 0
+    ? diff.outlookChanges.map(change => `- **${change.symbol.toUpperCase()}**: ${change.previous ?? 'none'} → ${change.current ?? 'none'}`).join('\n') + '\n'
+    : `No outlook changes.\n`;
+
+  if (diff.addedAssets.length > 0 || diff.removedAssets.length > 0) {
+    markdown += `\n## Assets\n\n`;
+    if (diff.addedAssets.length > 0) markdown += `- Added: ${diff.addedAssets.join(', ')}\n`;
+    if (diff.removedAssets.length > 0) markdown += `- Removed: ${diff.removedAssets.join(', ')}\n`;
+  }
+
+  markdown += `\n## New Sources (${diff.newSources.length})\n\n`;
+  markdown += diff.newSources.length > 0
+    ? diff.newSources.map(source => `- [${source.title}](${source.url})`).join('\n') + '\n'
+    : `No new sources.\n`;
+
+  if (diff.droppedSources.length > 0) {
+    markdown += `\n## Dropped Sources (${diff.droppedSources.length})\n\n`;
+    markdown += diff.droppedSources.map(source => `- [${source.title}](${source.url})`).join('\n') + '\n';
+  }
+
+  return markdown;
+}
+
+/**
+ * Run history on disk: `<dir>/<watchlist id>/<timestamp>.json` plus rendered `.md` report and `.diff.md` files
+ */
+export class WatchlistStore {
+  constructor(private directory: string = config.watchlists.dir) {}
+
+  private runFile(watchlistId: string, runAt: string, extension: string): string {
+    return path.join(this.directory, watchlistId, `${runAt.replace(/[:.]/g, '-')}${extension}`);
+  }
+
+  async listRuns(watchlistId: string): Promise<string[]> {
+    try {
+      const names = await fs.readdir(path.join(this.directory, watchlistId));
+      return names.filter(name => name.endsWith('.json') && !name.endsWith('.diff.json')).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  async latestSuccessfulRun(watchlistId: string): Promise<WatchlistRunRecord | null> {
+    const runs = await this.listRuns(watchlistId);
+    for (const name of runs.reverse()) {
+      try {
+        const record: WatchlistRunRecord = JSON.parse(await fs.readFile(path.join(this.directory, watchlistId, name), 'utf8'));
+        if (record.ok) return record;
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  async saveRun(record: WatchlistRunRecord, diff: WatchlistDiff | null): Promise<string> {
+    const reportPath = this.runFile(record.watchlistId, record.runAt, '.json');
+    await fs.mkdir(path.dirname(reportPath), { recursive: true });
+    await fs.writeFile(reportPath, JSON.stringify(record, null, 2));
+    if (record.ok) {
+      await fs.writeFile(this.runFile(record.watchlistId, record.runAt, '.md'), record.analysis);
+    }
+    if (diff) {
+      await fs.writeFile(this.runFile(record.watchlistId, record.runAt, '.diff.json'), JSON.stringify(diff, null, 2));
+      await fs.writeFile(this.runFile(record.watchlistId, record.runAt, '.diff.md'), renderWatchlistDiff(diff));
+    }
+    return reportPath;
+  }
+}
+
+/**
+ * Long-running scheduler that executes each watchlist on its cron schedule, one pipeline run at a time
+ */
+export class WatchlistScheduler {
+  private schedules = new Map<string, { watchlist: WatchlistDefinition; cron: CronSchedule; nextRun: Date }>();
+  private queue: WatchlistDefinition[] = [];
+  private running = false;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    watchlists: WatchlistDefinition[],
+    private pipeline: AnalysisPipeline = new AnalysisPipeline(),
+    private store: WatchlistStore = new WatchlistStore()
+  ) {
+    const now = new Date();
+    for (const watchlist of watchlists.filter(item => item.enabled !== false)) {
+      const cron = parseCron(watchlist.schedule);
+      this.schedules.set(watchlist.id, { watchlist, cron, nextRun: nextCronRun(cron, now) });
+    }
+  }
+
+  upcoming(): Array<{ id: string; schedule: string; nextRun: Date }> {
+    return [...this.schedules.values()]
+      .map(({ watchlist, nextRun }) => ({ id: watchlist.id, schedule: watchlist.schedule, nextRun }))
+      .sort((a, b) => a.nextRun.getTime() - b.nextRun.getTime());
+  }
+
+  start(): void {
+    console.log(`⏰ Watchlist scheduler started with ${this.schedules.size} watchlists`);
+    for (const item of this.upcoming()) {
+      console.log(`   • ${item.id} (${item.schedule}) next run ${item.nextRun.toLocaleString()}`);
+    }
+    this.tick();
+    this.timer = setInterval(() => this.tick(), config.watchlists.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private tick(): void {
+    const now = new Date();
+    for (const entry of this.schedules.values()) {
+      if (entry.nextRun <= now) {
+        entry.nextRun = nextCronRun(entry.cron, now);
+        if (!this.queue.some(item => item.id === entry.watchlist.id)) {
+          this.queue.push(entry.watchlist);
+        }
+      }
+    }
+    void this.drain();
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let watchlist: WatchlistDefinition | undefined;
+      while ((watchlist = this.queue.shift())) {
+        try {
+          await this.runOnce(watchlist);
+        } catch (error: any) {
+          console.error(`❌ Watchlist ${watchlist.id} run failed:`, error.message);
+        }
+        const next = this.schedules.get(watchlist.id)?.nextRun;
+        if (next) console.log(`⏰ Next ${watchlist.id} run at ${next.toLocaleString()}`);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Runs a watchlist immediately, stores the report and, when a previous successful run exists, the diff against it
+   */
+  async runOnce(watchlist: WatchlistDefinition): Promise<{ record: WatchlistRunRecord; diff: WatchlistDiff | null; path: string }> {
+    const runAt = new Date();
+    const query = watchlistQuery(watchlist);
+    console.log(`\n👀 Running watchlist ${watchlist.id}: "${query}"`);
+
+    // Nobody is around to answer an ambiguity prompt, so take the best-ranked candidate
+    const result = await this.pipeline.run(query, { searchEngine: watchlist.searchEngine, autoPick: true });
+    const record = toRunRecord(watchlist, runAt, result);
+
+    if (record.ok && watchlist.assets?.length) {
+      const detected = new Set(record.assets.flatMap(asset => [asset.id, asset.name.toLowerCase(), asset.symbol.toLowerCase()]));
+      const missing = watchlist.assets.filter(asset => !detected.has(asset.toLowerCase()));
+      if (missing.length > 0) {
+        console.warn(`⚠️ Watchlist ${watchlist.id}: assets not detected in this run: ${missing.join(', ')}`);
+      }
+    }
+
+    const previous = record.ok ? await this.store.latestSuccessfulRun(watchlist.id) : null;
+    const diff = previous ? diffWatchlistRuns(previous, record) : null;
+    const savedPath = await this.store.saveRun(record, diff);
+
+    if (!record.ok) {
+      console.error(`❌ Watchlist ${watchlist.id} failed: ${record.error}`);
+    } else if (diff) {
+      console.log(`📝 Watchlist ${watchlist.id}: ${diff.newSources.length} new sources, ${diff.outlookChanges.length} outlook changes`);
+    }
+    console.log(`💾 Saved watchlist run to ${savedPath}`);
+
+    return { record, diff, path: savedPath };
+  }
+}
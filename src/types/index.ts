@@ -92,8 +92,8 @@ export interface MarketData {
   total_volume: number;
   current_price: number;
   price_change_percentage_24h: number;
-  high_24h: number;
-  low_24h: number;
+  high_24h: number | null;
+  low_24h: number | null;
 }
 
 export interface CoinInfo {
@@ -106,6 +106,59 @@ export interface DetectedAsset {
   name: string;
   id: string;
   symbol: string;
+  /** Set when the query named a specific contract or chain, e.g. "0x…" or "USDC on Arbitrum" */
+  platform?: string;
+  contractAddress?: string;
+  /** How an ambiguous query token was resolved to this asset */
+  resolution?: TokenResolution;
+}
+
+export interface KnowledgeBaseEntry extends CoinInfo {
+  market_cap?: number;
+  total_volume?: number;
+}
+
+export interface TokenCandidate extends CoinInfo {
+  matchType: 'symbol' | 'name' | 'alias' | 'fuzzy' | 'partial';
+  marketCap: number | null;
+  volume: number | null;
+  score: number;
+}
+
+export interface TokenAmbiguity {
+  token: string;
+  /** Ranked best first */
+  candidates: TokenCandidate[];
+  /** Lead of the best candidate over the runner-up, relative to the best score (0-1) */
+  margin: number;
+  /** False when the match rests on a typo correction, a word of a longer name or a lowercase ticker that may be a plain word */
+  certain: boolean;
+}
+
+export interface TokenResolution {
+  token: string;
+  method: 'unique' | 'auto' | 'choice';
+  matchType: TokenCandidate['matchType'];
+  margin: number;
+  alternatives: Array<CoinInfo & { score: number }>;
+}
+
+export interface DisambiguationOptions {
+  /** Query token (case-insensitive) to chosen coin id, e.g. { "pear": "pear-protocol" } */
+  choices?: Record<string, string>;
+  /** Pick the best-ranked candidate even when it does not clear the confidence margin */
+  autoPick?: boolean;
+}
+
+export interface ContractReference {
+  /** Text in the query that produced the reference */
+  text: string;
+  kind: 'evm_address' | 'solana_mint' | 'symbol_on_chain';
+  address?: string;
+  symbol?: string;
+  platform?: string;
+  /** A symbol written as $TICKER or in capitals; others only resolve to knowledge base coins */
+  deliberate?: boolean;
 }
 
 export interface TokenCoverage {
@@ -118,15 +171,33 @@ export interface AugmentedCoinData {
   current_price: number;
   market_cap: number;
   price_change_24h: number;
-  high_24h: number;
-  low_24h: number;
+  high_24h: number | null;
+  low_24h: number | null;
+  id?: string;
+  total_volume?: number;
+  market_cap_rank?: number | null;
+  ath?: number | null;
+  ath_date?: string | null;
+  circulating_supply?: number | null;
+  source?: string;
 }
 
 export interface KnowledgeBaseIndex {
-  symbolMap: Map<string, CoinInfo>;
-  nameMap: Map<string, CoinInfo>;
+  /** Keys are normalized (lowercase, punctuation folded to single spaces); symbols and names collide, so every key holds a list */
+  symbolMap: Map<string, KnowledgeBaseEntry[]>;
+  nameMap: Map<string, KnowledgeBaseEntry[]>;
+  aliasMap: Map<string, KnowledgeBaseEntry[]>;
+  /** Single words of multi-word names, for partial matches such as "shiba" */
+  wordMap: Map<string, KnowledgeBaseEntry[]>;
+  /** Name and alias keys grouped by length, so typo search only compares keys of similar length */
+  keysByLength: Map<number, string[]>;
+  /** Longest name or alias in words, bounding the query n-grams that are looked up */
+  maxPhraseWords: number;
 }
 
+/** Coin id to extra names users call it by, e.g. { "dogecoin": ["doge coin"] } */
+export type TokenAliases = Record<string, string[]>;
+
 export interface MemoryData {
   [key: string]: any;
 }
@@ -144,9 +215,725 @@ export interface RateLimitOptions {
 
 export interface ScrapingConfig {
   maxConcurrent: number;
+  maxPerDomain: number;
+  domainDelayMs: number;
+  timeBudgetMs: number;
   timeout: number;
   maxRetries: number;
   skipSlowMethods: boolean;
   skipProblematicDomains: string[];
   fastMethods: string[];
 }
+
+export type ScrapeMethodName = 'cache' | 'axios' | 'playwright';
+
+export interface ScrapeOutcome {
+  url: string;
+  domain: string;
+  status: 'success' | 'failed' | 'skipped';
+  method?: ScrapeMethodName;
+  /** 'stale' is an expired entry served because every scraping method failed; its content may be outdated */
+  cache?: 'hit' | 'revalidated' | 'stale' | 'refreshed' | 'miss';
+  attempts: number;
+  durationMs: number;
+  reason?: string;
+}
+
+export type AnalysisOutlook = 'bullish' | 'bearish' | 'neutral';
+
+export interface ReportKeyLevel {
+  price: number;
+  label?: string;
+}
+
+export interface ReportScenario {
+  probability: number;
+  priceTarget: number;
+  timeframe: string;
+  thesis: string;
+  entry?: number;
+  stopLoss?: number;
+  citations: number[];
+}
+
+export interface AssetAnalysisReport {
+  assetId: string;
+  name: string;
+  symbol: string;
+  currentPrice: number | null;
+  outlook: AnalysisOutlook;
+  summary: string;
+  citations: number[];
+  keyLevels: {
+    support: ReportKeyLevel[];
+    resistance: ReportKeyLevel[];
+  };
+  scenarios: {
+    bullish: ReportScenario;
+    bearish: ReportScenario;
+  };
+}
+
+export interface ReportCatalyst {
+  description: string;
+  impact: 'positive' | 'negative' | 'neutral';
+  assetIds: string[];
+  citations: number[];
+}
+
+export interface ReportRisk {
+  description: string;
+  severity: 'low' | 'medium' | 'high';
+  assetIds: string[];
+  citations: number[];
+}
+
+export interface ReportSource {
+  index: number;
+  title: string;
+  url: string;
+  publishedDate?: string;
+}
+
+export interface CitationIssue {
+  type: 'unknown_source' | 'uncited_claim';
+  location: string;
+  excerpt: string;
+  citation?: number;
+}
+
+export interface AnalysisReport {
+  title: string;
+  executiveSummary: string;
+  assets: AssetAnalysisReport[];
+  catalysts: ReportCatalyst[];
+  risks: ReportRisk[];
+  sources: ReportSource[];
+  citationIssues?: CitationIssue[];
+  holderDistributions?: HolderDistribution[];
+  crossAsset?: CrossAssetReport;
+  tokenResolutions?: Array<CoinInfo & { resolution: TokenResolution }>;
+  /** Lowercase code of the currency prices are quoted in; USD when absent */
+  currency?: string;
+}
+
+export interface OhlcCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface MacdResult {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerBands {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface PivotLevels {
+  pivot: number;
+  r1: number;
+  r2: number;
+  s1: number;
+  s2: number;
+}
+
+export interface TechnicalSnapshot {
+  id: string;
+  name: string;
+  symbol: string;
+  candleCount: number;
+  from: string;
+  to: string;
+  close: number;
+  sma20: number | null;
+  sma50: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  rsi14: number | null;
+  macd: MacdResult | null;
+  bollinger: BollingerBands | null;
+  atr14: number | null;
+  pivots: PivotLevels | null;
+  swingSupport: number[];
+  swingResistance: number[];
+  avgVolume20: number | null;
+  volumeRatio: number | null;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  listAssets(options: { minMarketCap: number; minVolume: number }): Promise<MarketData[]>;
+  getQuotes(assets: CoinInfo[]): Promise<Record<string, AugmentedCoinData>>;
+  getHistory(asset: CoinInfo, days: number): Promise<OhlcCandle[]>;
+  /** Token contract addresses keyed by CoinGecko platform id (e.g. "ethereum", "arbitrum-one") */
+  getContractAddresses?(asset: CoinInfo): Promise<Record<string, string>>;
+  /** Every asset the provider knows with its contract addresses, for resolving addresses back to assets */
+  listContracts?(): Promise<ContractListing[]>;
+  /** Units of a fiat or crypto currency (e.g. "eur") per 1 USD; quotes and history are always in USD */
+  getExchangeRate?(currency: string): Promise<number>;
+}
+
+export interface ContractListing extends CoinInfo {
+  platforms: Record<string, string>;
+}
+
+export interface ContentChunk {
+  id: string;
+  sourceUrl: string;
+  sourceTitle: string;
+  position: number;
+  text: string;
+}
+
+export interface RetrievedChunk extends ContentChunk {
+  score: number;
+  query: string;
+}
+
+export interface VectorStore {
+  readonly name: string;
+  upsert(runId: string, chunks: ContentChunk[], vectors: number[][]): Promise<void>;
+  search(runId: string, vector: number[], limit: number): Promise<Array<{ chunk: ContentChunk; score: number }>>;
+  clear(runId: string): Promise<void>;
+}
+
+export interface PageCacheEntry {
+  url: string;
+  normalizedUrl: string;
+  title: string;
+  content: string;
+  publishedDate?: string;
+  etag?: string;
+  lastModified?: string;
+  method: ScrapeMethodName;
+  fetchedAt: string;
+  validatedAt: string;
+}
+
+export interface WatchlistDefinition {
+  id: string;
+  query?: string;
+  assets?: string[];
+  schedule: string;
+  searchEngine?: 'exa' | 'tavily' | 'dual';
+  enabled?: boolean;
+}
+
+export interface WatchlistAssetSnapshot {
+  id: string;
+  name: string;
+  symbol: string;
+  price: number | null;
+  change24h: number | null;
+  outlook: AnalysisOutlook | null;
+}
+
+export interface WatchlistRunRecord {
+  watchlistId: string;
+  runAt: string;
+  query: string;
+  searchEngine: string;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+  assets: WatchlistAssetSnapshot[];
+  sources: Array<{ url: string; title: string; publishedDate?: string }>;
+  report: AnalysisReport | null;
+  analysis: string;
+}
+
+export interface WatchlistDiff {
+  watchlistId: string;
+  previousRunAt: string;
+  currentRunAt: string;
+  newSources: Array<{ url: string; title: string }>;
+  droppedSources: Array<{ url: string; title: string }>;
+  priceMoves: Array<{ id: string; symbol: string; previous: number; current: number; changePercent: number }>;
+  outlookChanges: Array<{ id: string; symbol: string; previous: AnalysisOutlook | null; current: AnalysisOutlook | null }>;
+  addedAssets: string[];
+  removedAssets: string[];
+}
+
+export type AlertRuleType = 'price_cross' | 'change_24h' | 'volume_spike' | 'rank_change';
+
+export interface AlertRule {
+  id: string;
+  assetId: string;
+  type: AlertRuleType;
+  /** price_cross: price level in USD */
+  level?: number;
+  /** price_cross / change_24h: which side triggers; defaults to either */
+  direction?: 'above' | 'below' | 'either';
+  /** change_24h: absolute 24h change in percent */
+  thresholdPercent?: number;
+  /** volume_spike: multiple of the trailing average daily volume */
+  multiplier?: number;
+  /** volume_spike: number of trailing days to average */
+  windowDays?: number;
+  /** rank_change: minimum number of places moved */
+  minRankChange?: number;
+  cooldownMinutes?: number;
+  webhooks?: string[];
+  analyze?: boolean;
+  enabled?: boolean;
+}
+
+export interface AlertWebhook {
+  id: string;
+  url: string;
+  format?: 'json' | 'slack';
+  headers?: Record<string, string>;
+}
+
+export interface AlertsDefinition {
+  webhooks: AlertWebhook[];
+  rules: AlertRule[];
+}
+
+export interface AlertEvent {
+  ruleId: string;
+  assetId: string;
+  name: string;
+  symbol: string;
+  type: AlertRuleType;
+  message: string;
+  value: number;
+  threshold: number;
+  fingerprint: string;
+  triggeredAt: string;
+  quote: AugmentedCoinData;
+}
+
+export interface SocialPost {
+  id: string;
+  text: string;
+  authorId: string;
+  authorFollowers?: number;
+  createdAt: string;
+  likes: number;
+  reposts: number;
+  replies: number;
+  url?: string;
+}
+
+export interface SocialSource {
+  readonly name: string;
+  fetchPosts(asset: CoinInfo, since: Date, limit: number): Promise<SocialPost[]>;
+}
+
+export interface ScoredSocialPost extends SocialPost {
+  sentiment: number;
+  flagged: boolean;
+  flagReason?: string;
+}
+
+export interface SentimentBucket {
+  start: string;
+  posts: number;
+  sentiment: number | null;
+}
+
+export interface AssetSentiment {
+  id: string;
+  name: string;
+  symbol: string;
+  source: string;
+  windowHours: number;
+  postCount: number;
+  flaggedCount: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+  score: number | null;
+  label: 'bullish' | 'bearish' | 'neutral' | 'insufficient data';
+  volumeTrend: number | null;
+  buckets: SentimentBucket[];
+  topPosts: ScoredSocialPost[];
+  flaggedExamples: ScoredSocialPost[];
+}
+
+export interface Erc20Token {
+  address: string;
+  platform: string;
+  symbol: string;
+  decimals: number;
+  totalSupply: string | null;
+}
+
+export interface LargeTransfer {
+  transactionHash: string;
+  blockNumber: number;
+  from: string;
+  to: string;
+  amount: number;
+  valueUsd: number | null;
+}
+
+export interface OnChainTransferMetrics {
+  assetId: string;
+  name: string;
+  symbol: string;
+  token: Erc20Token;
+  fromBlock: number;
+  toBlock: number;
+  fromTimestamp: string | null;
+  toTimestamp: string | null;
+  transferCount: number;
+  volume: number;
+  volumeUsd: number | null;
+  uniqueSenders: number;
+  uniqueReceivers: number;
+  mintCount: number;
+  burnCount: number;
+  largeTransferThresholdUsd: number | null;
+  largeTransfers: LargeTransfer[];
+  topSenders: Array<{ address: string; amount: number }>;
+  topReceivers: Array<{ address: string; amount: number }>;
+}
+
+export interface DexQuoteToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+  coinId: string;
+}
+
+export interface PriceImpactEstimate {
+  sizeUsd: number;
+  side: 'buy' | 'sell';
+  /** Fraction of the spot price lost to slippage and fees; null when the trade runs past the scanned liquidity */
+  priceImpact: number | null;
+}
+
+export interface DexPoolLiquidity {
+  dex: 'uniswap-v2' | 'uniswap-v3';
+  address: string;
+  quoteSymbol: string;
+  feePpm: number;
+  spotPrice: number;
+  spotPriceUsd: number | null;
+  tokenReserve: number;
+  quoteReserve: number;
+  tvlUsd: number | null;
+  tick?: number;
+  priceImpacts: PriceImpactEstimate[];
+}
+
+export interface DexLiquidityAnalysis {
+  assetId: string;
+  name: string;
+  symbol: string;
+  token: Erc20Token;
+  pools: DexPoolLiquidity[];
+  totalTvlUsd: number;
+  dexPriceUsd: number | null;
+  marketPriceUsd: number | null;
+  priceDeviation: number | null;
+}
+
+export type AddressLabelCategory = 'exchange' | 'bridge' | 'treasury' | 'team' | 'burn' | 'contract' | 'other';
+
+export interface AddressLabel {
+  address: string;
+  name: string;
+  category: AddressLabelCategory;
+}
+
+export interface HolderBalance {
+  address: string;
+  balance: number;
+  share: number;
+  label?: AddressLabel;
+}
+
+export interface HolderConcentrationSnapshot {
+  block: number;
+  timestamp: string | null;
+  supply: number;
+  holderCount: number;
+  topShares: Record<string, number>;
+  gini: number;
+  thresholdCounts: Array<{ minShare: number; count: number }>;
+  labelledShares: Partial<Record<AddressLabelCategory, number>>;
+  topHolders: HolderBalance[];
+}
+
+export interface HolderDistribution {
+  assetId: string;
+  name: string;
+  symbol: string;
+  token: Erc20Token;
+  method: 'transfers' | 'balances';
+  current: HolderConcentrationSnapshot;
+  previous: HolderConcentrationSnapshot | null;
+  change: {
+    blocks: number;
+    holderCount: number;
+    gini: number;
+    topShares: Record<string, number>;
+  } | null;
+}
+
+export interface SessionSource {
+  url: string;
+  title: string;
+  content: string;
+  publishedDate?: string;
+  fetchedAt: string;
+}
+
+export interface SessionTurn {
+  askedAt: string;
+  query: string;
+  /** The query after pronouns were replaced with the session's assets */
+  resolvedQuery: string;
+  assetIds: string[];
+  sourceUrls: string[];
+  reusedSourceCount: number;
+  /** Executive summary, or the start of a free-form analysis, carried into later prompts */
+  answer: string;
+}
+
+export interface AnalysisSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  searchEngine?: string;
+  /** Every asset detected so far, first mention first */
+  assets: DetectedAsset[];
+  sources: SessionSource[];
+  marketSnapshots: Record<string, { capturedAt: string; data: AugmentedCoinData }>;
+  turns: SessionTurn[];
+}
+
+export type ReportFormat = 'markdown' | 'html' | 'json';
+
+/**
+ * Self-contained record of one analysis run, written by the report exporter
+ */
+export interface ReportExport {
+  query: string;
+  resolvedQuery: string;
+  generatedAt: string;
+  searchEngine: string;
+  /** Currency the analysis quotes prices in; the market data table is always USD */
+  currency: string;
+  durationMs: number;
+  assets: DetectedAsset[];
+  marketData: Array<AugmentedCoinData & { id: string }>;
+  analysis: string;
+  report: AnalysisReport | null;
+  /** Every source given to the model, numbered as in the prompt */
+  sources: Array<ReportSource & { cited: boolean }>;
+  citationIssues: CitationIssue[];
+}
+
+export interface PortfolioHolding {
+  /** CoinGecko id, symbol or name as written in the holdings file */
+  asset: string;
+  quantity: number;
+  /** Average purchase price per unit in USD */
+  costBasis?: number;
+}
+
+export interface PortfolioPosition extends CoinInfo {
+  /** Holding entries that resolved to this coin */
+  inputs: string[];
+  quantity: number;
+  costBasis: number | null;
+  price: number;
+  value: number;
+  /** Share of the portfolio value (0-1) */
+  weight: number;
+  costValue: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  change24h: number | null;
+  /** Annualized volatility of daily returns, in percent */
+  volatility: number | null;
+  /** Share of the portfolio variance this position accounts for (0-1); sums to 1 across positions */
+  riskContribution: number | null;
+  resolution?: TokenResolution;
+}
+
+export type PortfolioRiskLevel = 'low' | 'moderate' | 'high' | 'very high' | 'unknown';
+
+export interface PortfolioAnalysis {
+  valuedAt: string;
+  positions: PortfolioPosition[];
+  unresolved: Array<{ asset: string; reason: string }>;
+  totalValue: number;
+  /** Cost and P&L cover only positions with a cost basis */
+  totalCost: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  concentration: {
+    /** Herfindahl-Hirschman index of the weights (0-1) */
+    herfindahl: number;
+    /** 1 / HHI: how many equal positions would carry the same concentration */
+    effectivePositions: number;
+    largestWeight: number;
+    topThreeWeight: number;
+  };
+  /** Annualized volatility of the weighted daily returns, in percent */
+  volatility: number | null;
+  /** Weighted average of position volatilities over portfolio volatility; 1 means the holdings move together */
+  diversificationRatio: number | null;
+  riskLevel: PortfolioRiskLevel;
+  historyDays: number;
+}
+
+export interface BenchmarkComparison {
+  benchmarkId: string;
+  benchmarkSymbol: string;
+  windowDays: number;
+  /** Pearson correlation of aligned daily log returns */
+  correlation: number | null;
+  /** Covariance with the benchmark over the benchmark's variance: 1.5 means moves 1.5x as much */
+  beta: number | null;
+  /** Asset return minus benchmark return over the window, in percentage points */
+  relativeStrength: number | null;
+  /** Aligned daily returns the figures were computed from */
+  observations: number;
+}
+
+export interface RollingCorrelation {
+  benchmarkId: string;
+  benchmarkSymbol: string;
+  windowDays: number;
+  latest: number;
+  min: number;
+  max: number;
+  /** Days the rolling window was evaluated over */
+  spanDays: number;
+}
+
+export interface WindowPerformance {
+  windowDays: number;
+  returnPercent: number | null;
+  /** Largest peak-to-trough decline of daily closes within the window, as a negative percent */
+  maxDrawdownPercent: number | null;
+}
+
+export interface CrossAssetAnalysis extends CoinInfo {
+  performance: WindowPerformance[];
+  comparisons: BenchmarkComparison[];
+  rollingCorrelations: RollingCorrelation[];
+  candleCount: number;
+  from: string;
+  to: string;
+}
+
+export interface CorrelationMatrix {
+  windowDays: number;
+  assets: CoinInfo[];
+  /** values[i][j] is the correlation of assets[i] with assets[j]; null when they share too few days */
+  values: Array<Array<number | null>>;
+}
+
+export interface CrossAssetReport {
+  benchmarks: CrossAssetAnalysis[];
+  assets: CrossAssetAnalysis[];
+  matrix: CorrelationMatrix;
+}
+
+export interface ScenarioPrediction {
+  /** Probability the model gave the scenario, 0-100 */
+  probability: number;
+  /** Prices are stored in USD whatever currency the report was quoted in */
+  priceTarget: number;
+  entry: number | null;
+  stopLoss: number | null;
+  timeframe: string;
+  horizonDays: number;
+}
+
+/** 'expired' when the horizon ended before the target or the stop was reached */
+export type ScenarioOutcome = 'target' | 'stop' | 'expired';
+
+export interface ScenarioEvaluation {
+  outcome: ScenarioOutcome;
+  /** Day the target or stop was first touched */
+  resolvedAt: string | null;
+}
+
+export interface PredictionEvaluation {
+  evaluatedAt: string;
+  /** End of the directional call's horizon */
+  horizonEnd: string;
+  /** Close on the last day of the horizon, USD */
+  realizedPrice: number;
+  returnPercent: number;
+  high: number;
+  low: number;
+  directionCorrect: boolean;
+  /** Target of the called scenario, or the reference price for a neutral outlook */
+  expectedPrice: number;
+  /** Absolute distance between the realized and the expected price, in percent of the expected price */
+  errorPercent: number;
+  bullish: ScenarioEvaluation;
+  bearish: ScenarioEvaluation;
+}
+
+export interface PredictionRecord {
+  id: string;
+  runId: string;
+  assetId: string;
+  name: string;
+  symbol: string;
+  createdAt: string;
+  query: string;
+  promptVersion: string;
+  model: string;
+  /** USD price when the analysis was made */
+  referencePrice: number;
+  direction: AnalysisOutlook;
+  /** Days after createdAt the directional call is judged at */
+  horizonDays: number;
+  reportCurrency: string;
+  scenarios: {
+    bullish: ScenarioPrediction;
+    bearish: ScenarioPrediction;
+  };
+  evaluation?: PredictionEvaluation;
+}
+
+export interface CalibrationBucket {
+  /** Probability range of the bucket, 0-100 */
+  from: number;
+  to: number;
+  count: number;
+  meanProbability: number | null;
+  /** Percent of the bucket's scenarios that reached their target */
+  observedPercent: number | null;
+}
+
+export interface ScoreboardRow {
+  key: string;
+  predictions: number;
+  evaluated: number;
+  pending: number;
+  /** Percent of evaluated bullish/bearish calls whose scenario reached its target before its stop */
+  hitRate: number | null;
+  directionAccuracy: number | null;
+  meanErrorPercent: number | null;
+  /** Mean squared error of scenario probabilities against their outcomes; 0 is perfect, 0.25 is a coin flip */
+  brierScore: number | null;
+  calibration: CalibrationBucket[];
+}
+
+export interface PredictionScoreboard {
+  generatedAt: string;
+  overall: ScoreboardRow;
+  byPromptVersion: ScoreboardRow[];
+  byAsset: ScoreboardRow[];
+}
@@ -0,0 +1,56 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Cassette, CassetteMissError } from './cassette.js';
+
+const LOOKBACK_MS = 48 * 60 * 60 * 1000;
+
+// Built like the Twitter source's key: a start_time derived from the clock, at second precision
+const socialKey = (cassette: Cassette) => ({
+  source: 'twitter',
+  query: '"Bitcoin" OR $BTC',
+  startTime: new Date(cassette.now().getTime() - LOOKBACK_MS).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+  limit: 100
+});
+
+describe('Cassette', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassettes-'));
+
+  before(() => {
+    // Keep the cassette's progress lines out of the test runner's output stream
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays calls whose keys are derived from the clock', async () => {
+    const recording = new Cassette({ mode: 'record', runId: 'social-run', dir });
+    const posts = [{ id: '1', text: 'BTC looks strong' }];
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    assert.deepEqual(await recording.call('social', socialKey(recording), async () => posts), posts);
+
+    // Replayed later: the clock is frozen to the same recording start, so the key matches
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    const replay = new Cassette({ mode: 'replay', runId: 'social-run', dir });
+    assert.equal(replay.now().getTime(), recording.now().getTime());
+    const replayed = await replay.call('social', socialKey(replay), async () => assert.fail('replay must not call out'));
+    assert.deepEqual(replayed, posts);
+    assert.doesNotThrow(() => replay.assertNoMisses());
+  });
+
+  it('fails replay for calls that were never recorded', async () => {
+    const replay = new Cassette({ mode: 'replay', runId: 'social-run', dir });
+    await assert.rejects(replay.call('social', { ...socialKey(replay), limit: 50 }, async () => []), CassetteMissError);
+    assert.throws(() => replay.assertNoMisses(), /unrecorded calls/);
+  });
+
+  it('uses the live clock when off', () => {
+    const off = new Cassette({ mode: 'off' });
+    assert.ok(Math.abs(off.now().getTime() - Date.now()) < 1000);
+  });
+});
@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { config } from "../config.js";
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+export type CassetteKind = 'llm' | 'embedding' | 'search' | 'page' | 'market' | 'social' | 'chain';
+
+interface CassetteEntry {
+  kind: CassetteKind;
+  key: any;
+  recordedAt: string;
+  response?: any;
+  error?: string;
+}
+
+interface CassetteManifest {
+  runId: string;
+  recordedAt: string;
+  entries: number;
+}
+
+export class CassetteMissError extends Error {
+  constructor(public readonly kind: CassetteKind, public readonly key: any) {
+    super(`Cassette replay miss: no recorded ${kind} call for ${JSON.stringify(key).substring(0, 200)}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export interface CassetteOptions {
+  mode?: string;
+  runId?: string;
+  dir?: string;
+}
+
+/**
+ * Records every external call of a run to a cassette directory, or replays them back without touching the network
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  readonly runId: string;
+  readonly directory: string;
+  private recordedAt: Date;
+  private misses: CassetteMissError[] = [];
+  private entries = 0;
+
+  constructor({ mode = config.cassette.mode, runId = config.cassette.runId, dir = config.cassette.dir }: CassetteOptions = {}) {
+    this.mode = ['record', 'replay'].includes(mode) ? mode as CassetteMode : 'off';
+    this.runId = runId || new Date().toISOString().replace(/[:.]/g, '-');
+    this.directory = path.join(dir, this.runId);
+    this.recordedAt = new Date();
+
+    if (this.mode === 'replay') {
+      if (!runId) {
+        throw new Error('CASSETTE_MODE=replay requires CASSETTE_RUN_ID to select a recorded run');
+      }
+      const manifestPath = path.join(this.directory, 'manifest.json');
+      if (!fs.existsSync(manifestPath)) {
+        throw new Error(`No cassette found at ${this.directory}`);
+      }
+      const manifest: CassetteManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      this.recordedAt = new Date(manifest.recordedAt);
+      console.log(`📼 Replaying cassette ${this.runId} (recorded ${manifest.recordedAt}, ${manifest.entries} entries)`);
+    } else if (this.mode === 'record') {
+      fs.mkdirSync(this.directory, { recursive: true });
+      this.writeManifest();
+      console.log(`📼 Recording external calls to ${this.directory}`);
+    }
+  }
+
+  get active(): boolean {
+    return this.mode !== 'off';
+  }
+
+  /**
+   * Wall-clock time for anything that ends up in a request. While a cassette is active it is frozen to the recording
+   * start, in record mode too, so keys derived from it (a Twitter start_time, a history start date) match on replay.
+   */
+  now(): Date {
+    return this.mode === 'off' ? new Date() : new Date(this.recordedAt);
+  }
+
+  private entryPath(kind: CassetteKind, key: any): string {
+    const hash = createHash('sha256').update(`${kind}:${stableStringify(key)}`).digest('hex').substring(0, 32);
+    return path.join(this.directory, kind, `${hash}.json`);
+  }
+
+  private writeManifest(): void {
+    const manifest: CassetteManifest = {
+      runId: this.runId,
+      recordedAt: this.recordedAt.toISOString(),
+      entries: this.entries
+    };
+    fs.writeFileSync(path.join(this.directory, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  }
+
+  private write(entry: CassetteEntry): void {
+    const filePath = this.entryPath(entry.kind, entry.key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const isNew = !fs.existsSync(filePath);
+    fs.writeFileSync(filePath, JSON.stringify(entry, null, 2));
+    if (isNew) {
+      this.entries++;
+      this.writeManifest();
+    }
+  }
+
+  async call<T>(kind: CassetteKind, key: any, fn: () => Promise<T>): Promise<T> {
+    if (this.mode === 'off') {
+      return fn();
+    }
+
+    if (this.mode === 'replay') {
+      const filePath = this.entryPath(kind, key);
+      if (!fs.existsSync(filePath)) {
+        const miss = new CassetteMissError(kind, key);
+        this.misses.push(miss);
+        console.error(`❌ ${miss.message}`);
+        throw miss;
+      }
+      const entry: CassetteEntry = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (entry.error !== undefined) {
+        throw new Error(entry.error);
+      }
+      return entry.response as T;
+    }
+
+    try {
+      const response = await fn();
+      this.write({ kind, key, recordedAt: new Date().toISOString(), response });
+      return response;
+    } catch (error: any) {
+      this.write({ kind, key, recordedAt: new Date().toISOString(), error: error?.message || String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Throws if any call during replay had no recording; call sites often swallow errors, so this runs at the end of a run
+   */
+  assertNoMisses(): void {
+    if (this.misses.length > 0) {
+      const details = this.misses.map(miss => `  - ${miss.message}`).join('\n');
+      this.misses = [];
+      throw new Error(`Cassette replay had unrecorded calls:\n${details}`);
+    }
+  }
+}
+
+export const cassette = new Cassette();
+
+export function recordable<T>(kind: CassetteKind, key: any, fn: () => Promise<T>): Promise<T> {
+  return cassette.call(kind, key, fn);
+}
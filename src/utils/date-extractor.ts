@@ -1,4 +1,5 @@
 import * as cheerio from 'cheerio';
+import { cassette } from './cassette.js';
 
 export class DateExtractor {
   static extractPublicationDate(html: string, url: string): string | null {
@@ -92,8 +93,8 @@ export class DateExtractor {
   private static isValidDate(dateString: string): boolean {
     try {
       const date = new Date(dateString);
-      const now = new Date();
-      const twoYearsAgo = new Date();
+      const now = cassette.now();
+      const twoYearsAgo = cassette.now();
       twoYearsAgo.setFullYear(now.getFullYear() - 2);
       return date >= twoYearsAgo && date <= now;
     } catch {
@@ -1,6 +1,8 @@
 import { Timer } from "../types/index.js";
+import { cassette } from "./cassette.js";
 
 export { DateExtractor } from "./date-extractor.js";
+export { cassette, recordable, CassetteMissError } from "./cassette.js";
 
 export class PerformanceTimer implements Timer {
   private startTime: number;
@@ -23,7 +25,7 @@ export class PerformanceTimer implements Timer {
 }
 
 export function getCurrentDateFormatted(): string {
-  return new Date().toLocaleDateString('en-GB', { 
+  return cassette.now().toLocaleDateString('en-GB', { 
     day: '2-digit', 
     month: 'long', 
     year: 'numeric' 
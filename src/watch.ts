@@ -0,0 +1,83 @@
+import "dotenv/config";
+import { config } from './config.js';
+import { AnalysisPipeline } from './pipeline.js';
+import { loadWatchlists, renderWatchlistDiff, WatchlistScheduler, WatchlistStore } from './services/watchlist.js';
+
+function printUsage(): void {
+  console.log('👀 Watchlist commands:');
+  console.log('   npm run watchlists                 # start the scheduler (runs until stopped)');
+  console.log('   npm run watchlists -- list         # show watchlists and their next run');
+  console.log('   npm run watchlists -- run <id>     # run one watchlist now');
+  console.log('   npm run watchlists -- history <id> # list stored runs');
+  console.log(`\nDefinitions are read from ${config.watchlists.file} (WATCHLISTS_FILE).`);
+}
+
+async function main() {
+  const [command = 'start', id] = process.argv.slice(2);
+  if (!['start', 'list', 'run', 'history'].includes(command)) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  const watchlists = await loadWatchlists();
+
+  if (command === 'history') {
+    const runs = await new WatchlistStore().listRuns(id || '');
+    if (!id || runs.length === 0) {
+      console.log(id ? `No stored runs for ${id}` : 'Usage: npm run watchlists -- history <id>');
+      process.exitCode = id ? 0 : 1;
+      return;
+    }
+    console.log(`📚 ${runs.length} stored runs for ${id} in ${config.watchlists.dir}/${id}:`);
+    runs.forEach(run => console.log(`   • ${run}`));
+    return;
+  }
+
+  const pipeline = new AnalysisPipeline();
+  const scheduler = new WatchlistScheduler(watchlists, pipeline);
+
+  if (command === 'list') {
+    for (const watchlist of watchlists) {
+      const next = scheduler.upcoming().find(item => item.id === watchlist.id);
+      console.log(`👀 ${watchlist.id}${watchlist.enabled === false ? ' (disabled)' : ''}`);
+      console.log(`   Query: ${watchlist.query || `assets ${watchlist.assets?.join(', ')}`}`);
+      console.log(`   Schedule: ${watchlist.schedule}${next ? ` - next run ${next.nextRun.toLocaleString()}` : ''}`);
+      console.log(`   Engine: ${watchlist.searchEngine || 'default'}`);
+    }
+    return;
+  }
+
+  if (command === 'run') {
+    const watchlist = watchlists.find(item => item.id === id);
+    if (!watchlist) {
+      console.error(`❌ Unknown watchlist "${id ?? ''}". Available: ${watchlists.map(item => item.id).join(', ')}`);
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      const { record, diff } = await scheduler.runOnce(watchlist);
+      if (!record.ok) process.exitCode = 1;
+      if (diff) console.log(`\n${renderWatchlistDiff(diff)}`);
+    } finally {
+      await pipeline.cleanup();
+    }
+    return;
+  }
+
+  scheduler.start();
+
+  const shutdown = async () => {
+    console.log('🛑 Stopping watchlist scheduler...');
+    scheduler.stop();
+    await pipeline.cleanup();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});